@@ -0,0 +1,61 @@
+#!/usr/bin/env bash
+# update-node-release-keys.sh — regenerate the bundled Node.js release keys
+#
+# Reads the fingerprints pinned in src/node-release-keys.ts, downloads each
+# armored key from the nodejs/release-keys repository, checks that its primary
+# key fingerprint matches the pin and writes src/node-release-key-blocks.ts.
+# Also downloads a signed SHASUMS256.txt for the test fixture that checks the
+# bundled keyring verifies a real release signature.
+#
+# Requires curl and gpg. Run from the repository root and review the diff.
+
+set -euo pipefail
+
+PINS_FILE="src/node-release-keys.ts"
+OUT_FILE="src/node-release-key-blocks.ts"
+KEYS_URL="https://raw.githubusercontent.com/nodejs/release-keys/main/keys"
+FIXTURE_VERSION="v24.11.0"
+FIXTURE_DIR="__fixtures__/node-release-signature"
+
+mapfile -t fingerprints < <(grep -oE '"[0-9A-F]{40}"' "$PINS_FILE" | tr -d '"')
+if [ "${#fingerprints[@]}" -eq 0 ]; then
+	echo "No fingerprints found in $PINS_FILE" >&2
+	exit 1
+fi
+
+tmp="$(mktemp -d)"
+trap 'rm -rf "$tmp"' EXIT
+
+{
+	echo "// Generated by .github/scripts/update-node-release-keys.sh -- do not edit by hand."
+	echo ""
+	echo "/**"
+	echo " * Armored public keys for the fingerprints pinned in NODE_RELEASE_KEYRING,"
+	echo " * from the nodejs/release-keys repository."
+	echo " */"
+	echo "export const NODE_RELEASE_KEY_BLOCKS: ReadonlyArray<string> = ["
+} >"$tmp/out.ts"
+
+for fingerprint in "${fingerprints[@]}"; do
+	curl --fail --silent --show-error --location "$KEYS_URL/$fingerprint.asc" --output "$tmp/key.asc"
+	actual="$(gpg --batch --with-colons --import-options show-only --import "$tmp/key.asc" 2>/dev/null |
+		awk -F: '$1 == "fpr" { print $10; exit }')"
+	if [ "$actual" != "$fingerprint" ]; then
+		echo "Key served for $fingerprint has fingerprint ${actual:-(none)}" >&2
+		exit 1
+	fi
+	# Armored keys hold no backticks or `${`, so they are safe inside a template literal
+	printf '\t`%s\n`,\n' "$(cat "$tmp/key.asc")" >>"$tmp/out.ts"
+	echo "Fetched $fingerprint"
+done
+
+echo "];" >>"$tmp/out.ts"
+mv "$tmp/out.ts" "$OUT_FILE"
+echo "Wrote ${#fingerprints[@]} keys to $OUT_FILE"
+
+mkdir -p "$FIXTURE_DIR"
+for file in SHASUMS256.txt SHASUMS256.txt.sig; do
+	curl --fail --silent --show-error --location "https://nodejs.org/dist/$FIXTURE_VERSION/$file" \
+		--output "$FIXTURE_DIR/$file"
+done
+echo "Wrote the $FIXTURE_VERSION SHASUMS256.txt signature fixture to $FIXTURE_DIR"
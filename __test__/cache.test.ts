@@ -8,9 +8,11 @@ import {
 	findLockFiles,
 	generateCacheKey,
 	generateRestoreKeys,
+	getAdditionalPaths,
 	getCombinedCacheConfig,
 	getDefaultCachePaths,
 	getLockfilePatterns,
+	resolveWorkingPaths,
 	restoreCache,
 	saveCache,
 } from "../src/cache.js";
@@ -54,6 +56,7 @@ const makeFileSystemLayer = (files: FsFiles = {}): AnyLayer =>
 				}
 				return Effect.succeed(content);
 			},
+			exists: (path) => Effect.succeed(path in files),
 			access: (path) => {
 				if (path in files) {
 					return Effect.succeed(undefined);
@@ -211,6 +214,14 @@ describe("getLockfilePatterns", () => {
 		expect(patterns).toContain("**/yarn.lock");
 	});
 
+	it("returns only the files each Yarn flavor reads", () => {
+		expect(getLockfilePatterns("yarn", { flavor: "classic", nodeLinker: "node-modules" })).toEqual(["**/yarn.lock"]);
+		expect(getLockfilePatterns("yarn", { flavor: "berry", nodeLinker: "pnp" })).toEqual([
+			"**/yarn.lock",
+			"**/.yarnrc.yml",
+		]);
+	});
+
 	it("returns bun.lock and bun.lockb for bun", () => {
 		const patterns = getLockfilePatterns("bun");
 		expect(patterns).toContain("**/bun.lock");
@@ -223,6 +234,40 @@ describe("getLockfilePatterns", () => {
 	});
 });
 
+describe("getAdditionalPaths", () => {
+	it("caches node_modules for npm, pnpm and bun", () => {
+		for (const pm of ["npm", "pnpm", "bun"] as const) {
+			expect(getAdditionalPaths(pm)).toEqual(["**/node_modules"]);
+		}
+	});
+
+	it("caches node_modules for Yarn Classic", () => {
+		expect(getAdditionalPaths("yarn", { flavor: "classic", nodeLinker: "node-modules" })).toEqual(["**/node_modules"]);
+	});
+
+	it("caches the Plug'n'Play cache and unplugged packages for Yarn Berry with pnp", () => {
+		const paths = getAdditionalPaths("yarn", { flavor: "berry", nodeLinker: "pnp" });
+
+		expect(paths).toEqual(["**/.yarn/cache", "**/.yarn/unplugged", "**/.yarn/install-state.gz"]);
+	});
+
+	it("caches node_modules for Yarn Berry with the node-modules linker", () => {
+		const paths = getAdditionalPaths("yarn", { flavor: "berry", nodeLinker: "node-modules" });
+
+		expect(paths).toContain("**/node_modules");
+		expect(paths).not.toContain("**/.yarn/unplugged");
+	});
+
+	it("caches every Yarn layout when the flavor is unknown", () => {
+		expect(getAdditionalPaths("yarn")).toEqual([
+			"**/node_modules",
+			"**/.yarn/cache",
+			"**/.yarn/unplugged",
+			"**/.yarn/install-state.gz",
+		]);
+	});
+});
+
 describe("generateCacheKey", () => {
 	const runtimes = [{ name: "node", version: "24.11.0" }];
 	const pm = { name: "pnpm", version: "10.20.0" };
@@ -239,6 +284,21 @@ describe("generateCacheKey", () => {
 		expect(key.startsWith(platform())).toBe(true);
 	});
 
+	it.runIf(platform() === "linux")("keeps musl keys apart from glibc keys", async () => {
+		const alpineLayer = Layer.mergeAll(
+			makeFileSystemLayer({ "pnpm-lock.yaml": "lockfile-content", "/etc/alpine-release": "3.22.0\n" }),
+			makeEnvironmentLayer({ GITHUB_REF: "refs/heads/main" }),
+		);
+
+		const glibcKey = await run(generateCacheKey(runtimes, pm, ["pnpm-lock.yaml"]), baseLayer);
+		const muslKey = await run(generateCacheKey(runtimes, pm, ["pnpm-lock.yaml"]), alpineLayer);
+		const muslRestoreKeys = await run(generateRestoreKeys(runtimes, pm), alpineLayer);
+
+		expect(muslKey.startsWith("linux-musl-")).toBe(true);
+		expect(muslKey.replace("linux-musl-", "linux-")).toBe(glibcKey);
+		expect(muslRestoreKeys.every((k: string) => k.startsWith("linux-musl-"))).toBe(true);
+	});
+
 	it("produces different keys for different versions", async () => {
 		const key1 = await run(generateCacheKey(runtimes, pm, ["pnpm-lock.yaml"]), baseLayer);
 
@@ -247,6 +307,27 @@ describe("generateCacheKey", () => {
 		expect(key1).not.toBe(key2);
 	});
 
+	it("includes the working directory in the key", async () => {
+		const rootKey = await run(generateCacheKey(runtimes, pm, ["pnpm-lock.yaml"]), baseLayer);
+		const dotKey = await run(generateCacheKey(runtimes, pm, ["pnpm-lock.yaml"], undefined, "."), baseLayer);
+		const webKey = await run(generateCacheKey(runtimes, pm, ["pnpm-lock.yaml"], undefined, "web"), baseLayer);
+
+		expect(dotKey).toBe(rootKey);
+		expect(webKey).not.toBe(rootKey);
+	});
+
+	it("hashes every project's package manager in multi-project setups", async () => {
+		const single = await run(generateCacheKey(runtimes, pm, ["pnpm-lock.yaml"]), baseLayer);
+		const asList = await run(generateCacheKey(runtimes, [pm, pm], ["pnpm-lock.yaml"]), baseLayer);
+		const multi = await run(
+			generateCacheKey(runtimes, [pm, { name: "npm", version: "11.6.0" }], ["pnpm-lock.yaml"]),
+			baseLayer,
+		);
+
+		expect(asList).toBe(single);
+		expect(multi).not.toBe(single);
+	});
+
 	it("produces different keys for different branches", async () => {
 		const layer1 = Layer.mergeAll(
 			makeFileSystemLayer({ "pnpm-lock.yaml": "content" }),
@@ -391,6 +472,46 @@ describe("restoreCache", () => {
 		expect(stateSaved[0].key).toBe("CACHE_STATE");
 	});
 
+	it("hashes global packages into the primary key", async () => {
+		const keyFor = async (globalPackages: ReadonlyArray<{ name: string; version: string }>) => {
+			const stateSaved: StateSaveCall[] = [];
+			const layer = Layer.mergeAll(
+				makeFileSystemLayer({}),
+				makeEnvironmentLayer({ GITHUB_REF: "refs/heads/main" }),
+				makeCacheLayer({ restoreResult: Option.none() }),
+				makeStateLayer({ saved: stateSaved }),
+			);
+			await run(restoreCache({ cachePaths, runtimes, packageManager: pm, lockfiles: [], globalPackages }), layer);
+			return (stateSaved[0].value as { key: string }).key;
+		};
+
+		const none = await keyFor([]);
+		const typescript = await keyFor([{ name: "typescript", version: "5.9.3" }]);
+
+		expect(typescript).not.toBe(none);
+		expect(await keyFor([{ name: "typescript", version: "5.9.2" }])).not.toBe(typescript);
+	});
+
+	it("hashes install options into the primary key", async () => {
+		const keyFor = async (installOptions?: string) => {
+			const stateSaved: StateSaveCall[] = [];
+			const layer = Layer.mergeAll(
+				makeFileSystemLayer({}),
+				makeEnvironmentLayer({ GITHUB_REF: "refs/heads/main" }),
+				makeCacheLayer({ restoreResult: Option.none() }),
+				makeStateLayer({ saved: stateSaved }),
+			);
+			await run(restoreCache({ cachePaths, runtimes, packageManager: pm, lockfiles: [], installOptions }), layer);
+			return (stateSaved[0].value as { key: string }).key;
+		};
+
+		const none = await keyFor();
+		const production = await keyFor("production");
+
+		expect(production).not.toBe(none);
+		expect(await keyFor("production no-scripts")).not.toBe(production);
+	});
+
 	it("returns 'none' when no cache matches", async () => {
 		const stateSaved: StateSaveCall[] = [];
 
@@ -499,7 +620,7 @@ describe("saveCache", () => {
 
 describe("getCombinedCacheConfig", () => {
 	it("deduplicates paths across multiple package managers", async () => {
-		const layer = makeFailingCommandRunnerLayer();
+		const layer = Layer.mergeAll(makeFailingCommandRunnerLayer(), makeFileSystemLayer());
 
 		const config = await run(getCombinedCacheConfig(["npm", "pnpm"]), layer);
 
@@ -507,8 +628,28 @@ describe("getCombinedCacheConfig", () => {
 		expect(nodeModulesCount).toBe(1);
 	});
 
+	it("combines the paths of Yarn projects of different flavors", async () => {
+		const layer = Layer.mergeAll(makeFailingCommandRunnerLayer(), makeFileSystemLayer());
+
+		const config = await run(
+			getCombinedCacheConfig(
+				["yarn"],
+				[],
+				[
+					{ flavor: "classic", nodeLinker: "node-modules" },
+					{ flavor: "berry", nodeLinker: "pnp" },
+				],
+			),
+			layer,
+		);
+
+		expect(config.cachePaths).toContain("**/node_modules");
+		expect(config.cachePaths).toContain("**/.yarn/unplugged");
+		expect(config.lockfilePatterns).toEqual(["**/.yarnrc.yml", "**/yarn.lock"]);
+	});
+
 	it("includes tool cache paths for runtimes", async () => {
-		const layer = makeFailingCommandRunnerLayer();
+		const layer = Layer.mergeAll(makeFailingCommandRunnerLayer(), makeFileSystemLayer());
 		const runtimes = [{ name: "node", version: "24.11.0" }];
 
 		const config = await run(getCombinedCacheConfig(["pnpm"], runtimes), layer);
@@ -517,8 +658,34 @@ describe("getCombinedCacheConfig", () => {
 		expect(hasToolCache).toBe(true);
 	});
 
+	it("includes tool cache paths for raw binary tools", async () => {
+		const layer = Layer.mergeAll(makeFailingCommandRunnerLayer(), makeFileSystemLayer());
+		const tools = [
+			{ name: "biome", version: "2.3.8" },
+			{ name: "shfmt", version: "3.12.0" },
+		];
+
+		const config = await run(getCombinedCacheConfig(["pnpm"], tools), layer);
+
+		expect(config.cachePaths.some((p: string) => p.includes("hostedtoolcache/biome/2.3.8"))).toBe(true);
+		expect(config.cachePaths.some((p: string) => p.includes("hostedtoolcache/shfmt/3.12.0"))).toBe(true);
+	});
+
+	it.runIf(platform() === "linux")("uses the musl tool cache entries on Alpine", async () => {
+		const layer = Layer.mergeAll(
+			makeFailingCommandRunnerLayer(),
+			makeFileSystemLayer({ "/etc/alpine-release": "3.22.0\n" }),
+		);
+		const runtimes = [{ name: "node", version: "24.11.0" }];
+
+		const config = await run(getCombinedCacheConfig(["pnpm"], runtimes), layer);
+
+		expect(config.cachePaths.some((p: string) => p.includes("hostedtoolcache/node-musl/24.11.0"))).toBe(true);
+		expect(config.cachePaths.some((p: string) => p.includes("hostedtoolcache/node/24.11.0"))).toBe(false);
+	});
+
 	it("sorts paths with absolute paths first, then globs", async () => {
-		const layer = makeFailingCommandRunnerLayer();
+		const layer = Layer.mergeAll(makeFailingCommandRunnerLayer(), makeFileSystemLayer());
 
 		const config = await run(getCombinedCacheConfig(["pnpm"]), layer);
 
@@ -626,6 +793,11 @@ describe("findLockFiles", () => {
 		expect(result).toEqual([]);
 	});
 
+	it("matches inside the working directory and prefixes results with it", async () => {
+		const result = await Effect.runPromise(findLockFiles(["**/package-lock.json"], "__fixtures__/node-npm"));
+		expect(result).toEqual(["__fixtures__/node-npm/package-lock.json"]);
+	});
+
 	it("deduplicates results across overlapping patterns", async () => {
 		const result = await Effect.runPromise(findLockFiles(["pnpm-lock.yaml", "pnpm-lock.yaml"]));
 		const pnpmCount = result.filter((f) => f === "pnpm-lock.yaml").length;
@@ -638,7 +810,7 @@ describe("generateRestoreKeys", () => {
 	const pm = { name: "pnpm", version: "10.20.0" };
 
 	it("returns restore key prefixes", async () => {
-		const layer = makeEnvironmentLayer({ GITHUB_REF: "refs/heads/main" });
+		const layer = Layer.mergeAll(makeEnvironmentLayer({ GITHUB_REF: "refs/heads/main" }), makeFileSystemLayer());
 
 		const keys = await run(generateRestoreKeys(runtimes, pm), layer);
 
@@ -648,10 +820,30 @@ describe("generateRestoreKeys", () => {
 	});
 
 	it("returns empty array when cacheBust is set", async () => {
-		const layer = makeEnvironmentLayer({ GITHUB_REF: "refs/heads/main" });
+		const layer = Layer.mergeAll(makeEnvironmentLayer({ GITHUB_REF: "refs/heads/main" }), makeFileSystemLayer());
 
 		const keys = await run(generateRestoreKeys(runtimes, pm, "test-bust"), layer);
 
 		expect(keys).toEqual([]);
 	});
 });
+
+describe("resolveWorkingPaths", () => {
+	it("prefixes relative paths and globs with the working directory", () => {
+		expect(resolveWorkingPaths(["**/node_modules", ".yarn/cache"], "web")).toEqual([
+			"web/**/node_modules",
+			"web/.yarn/cache",
+		]);
+	});
+
+	it("leaves absolute and home-relative paths unchanged", () => {
+		expect(resolveWorkingPaths(["/home/runner/.npm", "~/.cache/deno"], "web")).toEqual([
+			"/home/runner/.npm",
+			"~/.cache/deno",
+		]);
+	});
+
+	it("is a no-op for the workspace root", () => {
+		expect(resolveWorkingPaths(["**/node_modules"], ".")).toEqual(["**/node_modules"]);
+	});
+});
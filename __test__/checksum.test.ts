@@ -0,0 +1,209 @@
+import { readFile } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import { join } from "node:path";
+import { FetchHttpClient, FileSystem } from "@effect/platform";
+import { Effect, Exit, Layer, Logger, Option } from "effect";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { ChecksumSource } from "../src/checksum.js";
+import { fileNameFromUrl, parseShasums, parseSingleChecksum, verifyChecksum } from "../src/checksum.js";
+import { descriptor as biome } from "../src/descriptors/biome.js";
+import { ChecksumMismatchError } from "../src/errors.js";
+
+// ---------------------------------------------------------------------------
+// Stand-in HTTP server serving checksum fixtures
+// ---------------------------------------------------------------------------
+
+const FIXTURES_DIR = join(import.meta.dirname, "..", "__fixtures__", "checksums");
+
+/** sha256("archive"), listed for the linux-x64 entries of every fixture. */
+const ARCHIVE_SHA256 = "0eb3e36bfb24dcd9bb1d1bece1531216b59539a8fde17ee80224af0653c92aa3";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		readFile(join(FIXTURES_DIR, (req.url ?? "").replace(/^\//, "")), "utf-8")
+			.then((body) => {
+				res.writeHead(200, { "Content-Type": "text/plain" });
+				res.end(body);
+			})
+			.catch(() => {
+				res.writeHead(404);
+				res.end();
+			});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+/** FileSystem serving the bytes of "archive" for every downloaded file. */
+const DownloadedFileLayer = Layer.succeed(
+	FileSystem.FileSystem,
+	FileSystem.makeNoop({
+		readFile: () => Effect.succeed(new TextEncoder().encode("archive")),
+	}),
+);
+
+const runVerify = (fileName: string, source: ChecksumSource) =>
+	Effect.runPromise(
+		Effect.exit(
+			verifyChecksum({ tool: "node", version: "24.11.0", file: "/tmp/download", fileName, source }).pipe(
+				Effect.provide(Layer.merge(FetchHttpClient.layer, DownloadedFileLayer)),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	);
+
+// ---------------------------------------------------------------------------
+// Parsers
+// ---------------------------------------------------------------------------
+
+describe("parseShasums", () => {
+	const body = [
+		"AAAA000000000000000000000000000000000000000000000000000000000000  node-v24.11.0-linux-x64.tar.gz",
+		"bbbb000000000000000000000000000000000000000000000000000000000000 *node-v24.11.0-win-x64.zip",
+	].join("\n");
+
+	it("returns the lowercased hash for the named file", () => {
+		expect(parseShasums(body, "node-v24.11.0-linux-x64.tar.gz")).toBe(
+			"aaaa000000000000000000000000000000000000000000000000000000000000",
+		);
+	});
+
+	it("accepts the binary-mode marker", () => {
+		expect(parseShasums(body, "node-v24.11.0-win-x64.zip")).toBe(
+			"bbbb000000000000000000000000000000000000000000000000000000000000",
+		);
+	});
+
+	it("returns undefined for files that are not listed", () => {
+		expect(parseShasums(body, "node-v24.11.0-linux-arm64.tar.gz")).toBeUndefined();
+	});
+});
+
+describe("parseSingleChecksum", () => {
+	it("reads sha256sum output", () => {
+		expect(parseSingleChecksum(`${ARCHIVE_SHA256}  deno-x86_64-unknown-linux-gnu.zip\n`)).toBe(ARCHIVE_SHA256);
+	});
+
+	it("reads PowerShell Get-FileHash tables", () => {
+		const table = `\nAlgorithm       Hash\n---------       ----\nSHA256          ${ARCHIVE_SHA256.toUpperCase()}\n`;
+		expect(parseSingleChecksum(table)).toBe(ARCHIVE_SHA256);
+	});
+});
+
+describe("fileNameFromUrl", () => {
+	it("returns the decoded last path segment", () => {
+		expect(fileNameFromUrl("https://nodejs.org/dist/v24.11.0/node-v24.11.0-linux-x64.tar.gz")).toBe(
+			"node-v24.11.0-linux-x64.tar.gz",
+		);
+		expect(fileNameFromUrl("https://example.com/a/biome%40x")).toBe("biome@x");
+	});
+});
+
+describe("biome parseChecksum", () => {
+	it("reads the asset digest from a GitHub release", async () => {
+		const body = await readFile(join(FIXTURES_DIR, "biome-release.json"), "utf-8");
+		expect(biome.parseChecksum(body, "biome-linux-x64")).toBe(ARCHIVE_SHA256);
+		expect(biome.parseChecksum(body, "biome-win32-x64.exe")).toBeUndefined();
+	});
+
+	it("returns undefined for malformed responses", () => {
+		expect(biome.parseChecksum("not json", "biome-linux-x64")).toBeUndefined();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// verifyChecksum against the stand-in server
+// ---------------------------------------------------------------------------
+
+describe("verifyChecksum", () => {
+	it("succeeds when the file matches SHASUMS256.txt", async () => {
+		const exit = await runVerify("node-v24.11.0-linux-x64.tar.gz", {
+			url: `${baseUrl}/SHASUMS256.txt`,
+			parse: parseShasums,
+		});
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+	});
+
+	it("succeeds against a single-file .sha256sum", async () => {
+		const exit = await runVerify("deno-x86_64-unknown-linux-gnu.zip", {
+			url: `${baseUrl}/deno-x86_64-unknown-linux-gnu.zip.sha256sum`,
+			parse: parseSingleChecksum,
+		});
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+	});
+
+	it("fails with ChecksumMismatchError when the hashes differ", async () => {
+		const exit = await runVerify("node-v24.11.0-darwin-arm64.tar.gz", {
+			url: `${baseUrl}/SHASUMS256.txt`,
+			parse: parseShasums,
+		});
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as ChecksumMismatchError;
+			expect(error).toBeInstanceOf(ChecksumMismatchError);
+			expect(error.file).toBe("node-v24.11.0-darwin-arm64.tar.gz");
+			expect(error.actual).toBe(ARCHIVE_SHA256);
+			expect(error.reason).toContain("SHA-256 mismatch");
+		}
+	});
+
+	it("fails when the file is not listed", async () => {
+		const exit = await runVerify("node-v24.11.0-linux-arm64.tar.gz", {
+			url: `${baseUrl}/SHASUMS256.txt`,
+			parse: parseShasums,
+		});
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).not.toBeInstanceOf(ChecksumMismatchError);
+			expect(exit.cause.error.message).toContain("No checksum for node-v24.11.0-linux-arm64.tar.gz");
+		}
+	});
+
+	it("fails when the checksum document cannot be fetched", async () => {
+		const exit = await runVerify("node-v24.11.0-linux-x64.tar.gz", {
+			url: `${baseUrl}/missing.txt`,
+			parse: parseShasums,
+		});
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.message).toContain("Failed to fetch checksums");
+		}
+	});
+
+	it("skips verification when an optional checksum document cannot be fetched", async () => {
+		const exit = await runVerify("node-v24.11.0-linux-x64.tar.gz", {
+			url: `${baseUrl}/missing.txt`,
+			parse: parseShasums,
+			optional: true,
+		});
+
+		expect(exit).toEqual(Exit.succeed(Option.none()));
+	});
+
+	it("still fails on a mismatch against an optional checksum document", async () => {
+		const exit = await runVerify("node-v24.11.0-darwin-arm64.tar.gz", {
+			url: `${baseUrl}/SHASUMS256.txt`,
+			parse: parseShasums,
+			optional: true,
+		});
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ChecksumMismatchError);
+		}
+	});
+});
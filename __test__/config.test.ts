@@ -1,7 +1,16 @@
 import { FileSystem } from "@effect/platform";
 import { ConfigProvider, Effect, Exit, Layer, Option } from "effect";
 import { describe, expect, it } from "vitest";
-import { detectBiome, detectTurbo, loadPackageJson, parseDevEngines } from "../src/config.js";
+import {
+	detectBiome,
+	detectDevEngines,
+	detectTools,
+	detectTurbo,
+	getPackageManagerInstall,
+	loadPackageJson,
+	normalizeWorkingDirectory,
+	parseDevEngines,
+} from "../src/config.js";
 import { ConfigError } from "../src/errors.js";
 
 // ---------------------------------------------------------------------------
@@ -58,7 +67,7 @@ const runDetectBiome = (inputs: Record<string, string>, fsLayer: Layer.Layer<Fil
 	// This simulates how ActionsConfigProvider resolves Config.string("biome-version").
 	const configProvider = ConfigProvider.fromMap(new Map(Object.entries(inputs)));
 
-	return Effect.runPromise(Effect.provide(Effect.withConfigProvider(detectBiome, configProvider), fsLayer));
+	return Effect.runPromise(Effect.provide(Effect.withConfigProvider(detectBiome(), configProvider), fsLayer));
 };
 
 // ---------------------------------------------------------------------------
@@ -76,7 +85,7 @@ describe("loadPackageJson", () => {
 		});
 
 		const layer = makeFileSystemLayer({ "package.json": packageJson });
-		const result = await Effect.runPromise(Effect.provide(loadPackageJson, layer));
+		const result = await Effect.runPromise(Effect.provide(loadPackageJson(), layer));
 
 		expect(result.packageManager.name).toBe("pnpm");
 		expect(result.packageManager.version).toBe("10.20.0");
@@ -95,7 +104,7 @@ describe("loadPackageJson", () => {
 		});
 
 		const layer = makeFileSystemLayer({ "package.json": packageJson });
-		const result = await Effect.runPromise(Effect.provide(loadPackageJson, layer));
+		const result = await Effect.runPromise(Effect.provide(loadPackageJson(), layer));
 
 		expect(result.packageManager.name).toBe("bun");
 		expect(Array.isArray(result.runtime)).toBe(true);
@@ -103,49 +112,67 @@ describe("loadPackageJson", () => {
 
 	it("fails with ConfigError when package.json is missing", async () => {
 		const layer = makeFileSystemLayer({});
-		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson, layer)));
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson(), layer)));
 
 		expect(Exit.isFailure(exit)).toBe(true);
 	});
 
 	it("fails with ConfigError for invalid JSON", async () => {
 		const layer = makeFileSystemLayer({ "package.json": "not valid json {{{" });
-		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson, layer)));
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson(), layer)));
 
 		expect(Exit.isFailure(exit)).toBe(true);
 	});
 
 	it("fails with ConfigError when devEngines field is missing", async () => {
 		const layer = makeFileSystemLayer({ "package.json": JSON.stringify({ name: "my-project" }) });
-		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson, layer)));
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson(), layer)));
 
 		expect(Exit.isFailure(exit)).toBe(true);
 	});
 
-	it("fails with ConfigError when runtime version is a semver range", async () => {
+	it("accepts semver ranges and aliases for later resolution", async () => {
+		const packageJson = JSON.stringify({
+			devEngines: {
+				packageManager: { name: "pnpm", version: "~10.0.0" },
+				runtime: [
+					{ name: "node", version: "^24.0.0" },
+					{ name: "deno", version: "latest" },
+				],
+			},
+		});
+
+		const layer = makeFileSystemLayer({ "package.json": packageJson });
+		const result = await Effect.runPromise(Effect.provide(loadPackageJson(), layer));
+
+		expect(result.packageManager.version).toBe("~10.0.0");
+		expect(parseDevEngines(result).runtime.map((r) => r.version)).toEqual(["^24.0.0", "latest"]);
+	});
+
+	it("fails with ConfigError when runtime version is not a valid version or range", async () => {
 		const packageJson = JSON.stringify({
 			devEngines: {
 				packageManager: { name: "pnpm", version: "10.20.0" },
-				runtime: { name: "node", version: "^24.0.0" },
+				runtime: { name: "node", version: "not-a-version" },
 			},
 		});
 
 		const layer = makeFileSystemLayer({ "package.json": packageJson });
-		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson, layer)));
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson(), layer)));
 
 		expect(Exit.isFailure(exit)).toBe(true);
 	});
 
-	it("fails with ConfigError when packageManager version is a semver range", async () => {
+	it("fails with ConfigError when packageManager version is empty", async () => {
 		const packageJson = JSON.stringify({
 			devEngines: {
-				packageManager: { name: "pnpm", version: "~10.0.0" },
+				packageManager: { name: "pnpm", version: "" },
 				runtime: { name: "node", version: "24.11.0" },
 			},
 		});
 
 		const layer = makeFileSystemLayer({ "package.json": packageJson });
-		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson, layer)));
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson(), layer)));
 
 		expect(Exit.isFailure(exit)).toBe(true);
 	});
@@ -153,7 +180,7 @@ describe("loadPackageJson", () => {
 	it("surfaces a ConfigError instance (not a generic error)", async () => {
 		const layer = makeFileSystemLayer({});
 		const exit = await Effect.runPromise(
-			Effect.exit(Effect.provide(loadPackageJson.pipe(Effect.catchAll((e) => Effect.succeed(e))), layer)),
+			Effect.exit(Effect.provide(loadPackageJson().pipe(Effect.catchAll((e) => Effect.succeed(e))), layer)),
 		);
 
 		expect(Exit.isSuccess(exit)).toBe(true);
@@ -163,6 +190,132 @@ describe("loadPackageJson", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// detectDevEngines
+// ---------------------------------------------------------------------------
+
+describe("detectDevEngines", () => {
+	it("prefers devEngines over fallback sources", async () => {
+		const packageJson = JSON.stringify({
+			packageManager: "yarn@4.6.0",
+			devEngines: {
+				packageManager: { name: "pnpm", version: "10.20.0" },
+				runtime: { name: "node", version: "24.11.0" },
+			},
+		});
+
+		const layer = makeFileSystemLayer({ "package.json": packageJson, ".nvmrc": "22\n" });
+		const result = await Effect.runPromise(Effect.provide(detectDevEngines(), layer));
+
+		expect(result.devEngines.packageManager.name).toBe("pnpm");
+		expect(result.sources).toEqual({ node: "devEngines", pnpm: "devEngines" });
+	});
+
+	it("keeps the packageManager integrity hash when it pins the devEngines version", async () => {
+		const devEngines = {
+			packageManager: { name: "pnpm", version: "10.20.0" },
+			runtime: { name: "node", version: "24.11.0" },
+		};
+		const detect = (packageManager: string) =>
+			Effect.runPromise(
+				Effect.provide(
+					detectDevEngines(),
+					makeFileSystemLayer({ "package.json": JSON.stringify({ packageManager, devEngines }) }),
+				),
+			);
+
+		expect((await detect("pnpm@10.20.0+sha512.cf9998")).devEngines.packageManager).toEqual({
+			name: "pnpm",
+			version: "10.20.0",
+			integrity: "sha512.cf9998",
+		});
+		expect((await detect("pnpm@10.19.0+sha512.cf9998")).devEngines.packageManager).toEqual({
+			name: "pnpm",
+			version: "10.20.0",
+		});
+	});
+
+	it("fails with ConfigError for a malformed integrity hash", async () => {
+		const packageJson = JSON.stringify({ packageManager: "pnpm@10.20.0+md5-abc", engines: { node: "24.11.0" } });
+
+		const layer = makeFileSystemLayer({ "package.json": packageJson });
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(detectDevEngines(), layer)));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.reason).toContain("Invalid integrity hash");
+			expect(exit.cause.error.file).toBe("package.json");
+		}
+	});
+
+	it("still fails on an invalid devEngines field instead of falling back", async () => {
+		const packageJson = JSON.stringify({ devEngines: { runtime: { name: "node", version: "24.11.0" } } });
+
+		const layer = makeFileSystemLayer({ "package.json": packageJson, ".nvmrc": "24.11.0\n" });
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(detectDevEngines(), layer)));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+	});
+
+	it("fails with ConfigError naming the file for an invalid fallback version", async () => {
+		const layer = makeFileSystemLayer({ "package.json": "{}", ".nvmrc": "not-a-version\n" });
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(detectDevEngines(), layer)));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.file).toBe(".nvmrc");
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// working directory
+// ---------------------------------------------------------------------------
+
+describe("normalizeWorkingDirectory", () => {
+	it("treats an empty input as the workspace root", () => {
+		expect(normalizeWorkingDirectory("")).toBe(".");
+		expect(normalizeWorkingDirectory("  ")).toBe(".");
+	});
+
+	it("normalizes and drops trailing separators", () => {
+		expect(normalizeWorkingDirectory("./web/")).toBe("web");
+		expect(normalizeWorkingDirectory("apps//frontend/")).toBe("apps/frontend");
+	});
+});
+
+describe("working directory detection", () => {
+	it("reads package.json, version files and tool config from the working directory", async () => {
+		const layer = makeFileSystemLayer({
+			"package.json": JSON.stringify({ name: "root" }),
+			"web/package.json": JSON.stringify({ packageManager: "pnpm@10.20.0" }),
+			"web/.nvmrc": "24.11.0\n",
+			"web/turbo.json": "{}",
+		});
+
+		const detected = await Effect.runPromise(Effect.provide(detectDevEngines("web"), layer));
+		const turbo = await Effect.runPromise(Effect.provide(detectTurbo("web"), layer));
+		const rootTurbo = await Effect.runPromise(Effect.provide(detectTurbo(), layer));
+
+		expect(detected.devEngines.runtime).toEqual([{ name: "node", version: "24.11.0" }]);
+		expect(detected.devEngines.packageManager).toEqual({ name: "pnpm", version: "10.20.0" });
+		expect(turbo).toBe(true);
+		expect(rootTurbo).toBe(false);
+	});
+
+	it("names the working directory path in ConfigError", async () => {
+		const layer = makeFileSystemLayer({});
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(loadPackageJson("web"), layer)));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.file).toBe("web/package.json");
+		}
+	});
+});
+
 // ---------------------------------------------------------------------------
 // parseDevEngines
 // ---------------------------------------------------------------------------
@@ -274,15 +427,140 @@ describe("detectBiome", () => {
 describe("detectTurbo", () => {
 	it("returns true when turbo.json exists", async () => {
 		const fsLayer = makeFileSystemLayer({ "turbo.json": "{}" });
-		const result = await Effect.runPromise(Effect.provide(detectTurbo, fsLayer));
+		const result = await Effect.runPromise(Effect.provide(detectTurbo(), fsLayer));
 
 		expect(result).toBe(true);
 	});
 
 	it("returns false when turbo.json does not exist", async () => {
 		const fsLayer = makeFileSystemLayer({});
-		const result = await Effect.runPromise(Effect.provide(detectTurbo, fsLayer));
+		const result = await Effect.runPromise(Effect.provide(detectTurbo(), fsLayer));
 
 		expect(result).toBe(false);
 	});
 });
+
+// ---------------------------------------------------------------------------
+// detectTools
+// ---------------------------------------------------------------------------
+
+describe("detectTools", () => {
+	const runDetectTools = (packageJson?: unknown) =>
+		Effect.runPromise(
+			Effect.exit(
+				Effect.provide(
+					detectTools(),
+					makeFileSystemLayer(packageJson === undefined ? {} : { "package.json": JSON.stringify(packageJson) }),
+				),
+			),
+		);
+
+	it("reads built-in and URL tools from workflowRuntime.tools", async () => {
+		const tools = [
+			{ name: "biome", version: "2.3.8" },
+			{
+				name: "shfmt",
+				version: "3.12.0",
+				url: "https://github.com/mvdan/sh/releases/download/v{version}/{binary}",
+				binaries: { linux: { x64: "shfmt_v3.12.0_linux_amd64" } },
+				onFail: "warn",
+			},
+			{
+				name: "typos",
+				version: "1.38.1",
+				url: "https://github.com/crate-ci/typos/releases/download/v{version}/{binary}",
+				binaries: { linux: { x64: "typos-v1.38.1-x86_64-unknown-linux-musl.tar.gz" } },
+				archive: "tar.gz",
+				binSubPath: ".",
+				verifyCommand: ["typos", "-V"],
+			},
+		];
+
+		expect(await runDetectTools({ workflowRuntime: { tools } })).toEqual(Exit.succeed(tools));
+	});
+
+	it("returns no tools without package.json or the workflowRuntime block", async () => {
+		expect(await runDetectTools()).toEqual(Exit.succeed([]));
+		expect(await runDetectTools({ name: "app" })).toEqual(Exit.succeed([]));
+		expect(await runDetectTools({ workflowRuntime: {} })).toEqual(Exit.succeed([]));
+	});
+
+	it("fails with ConfigError for a version range", async () => {
+		const exit = await runDetectTools({ workflowRuntime: { tools: [{ name: "biome", version: "^2" }] } });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.reason).toBe("package.json has an invalid workflowRuntime field");
+		}
+	});
+
+	it("fails with ConfigError for a url or checksumUrl that is not an absolute URL", async () => {
+		const relative = await runDetectTools({
+			workflowRuntime: { tools: [{ name: "typos", version: "1.38.1", url: "releases/v{version}/{binary}" }] },
+		});
+		const malformed = await runDetectTools({
+			workflowRuntime: {
+				tools: [
+					{
+						name: "typos",
+						version: "1.38.1",
+						url: "https://github.com/crate-ci/typos/releases/download/v{version}/{binary}",
+						checksumUrl: "https://[github.com/v{version}/SHASUMS256.txt",
+					},
+				],
+			},
+		});
+
+		for (const exit of [relative, malformed]) {
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+				expect(exit.cause.error).toBeInstanceOf(ConfigError);
+				expect(exit.cause.error.reason).toBe("package.json has an invalid workflowRuntime field");
+			}
+		}
+	});
+
+	it("fails with ConfigError for a tool that is neither built in nor given a url", async () => {
+		const exit = await runDetectTools({ workflowRuntime: { tools: [{ name: "typos", version: "1.38.1" }] } });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.reason).toContain("not built in: typos (built-in: biome)");
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// getPackageManagerInstall
+// ---------------------------------------------------------------------------
+
+describe("getPackageManagerInstall", () => {
+	const readMode = (inputs: Record<string, string>) =>
+		Effect.runPromise(
+			Effect.exit(
+				getPackageManagerInstall.pipe(
+					Effect.withConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(inputs)))),
+				),
+			),
+		);
+
+	it("defaults to corepack", async () => {
+		expect(await readMode({})).toEqual(Exit.succeed("corepack"));
+		expect(await readMode({ "package-manager-install": "" })).toEqual(Exit.succeed("corepack"));
+	});
+
+	it("accepts standalone", async () => {
+		expect(await readMode({ "package-manager-install": "Standalone" })).toEqual(Exit.succeed("standalone"));
+	});
+
+	it("fails with ConfigError for an unknown mode", async () => {
+		const exit = await readMode({ "package-manager-install": "npx" });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect((exit.cause.error as ConfigError).reason).toContain('Invalid package-manager-install "npx"');
+		}
+	});
+});
@@ -1,11 +1,18 @@
+import { FileSystem } from "@effect/platform";
+import { ConfigProvider, Effect, Exit, Layer, Logger } from "effect";
 import { describe, expect, it } from "vitest";
 
-import { binaryMap as biomeBinaryMap } from "../src/descriptors/biome.js";
+import { descriptor as biome } from "../src/descriptors/biome.js";
 import { descriptor as bun } from "../src/descriptors/bun.js";
 import { descriptor as deno } from "../src/descriptors/deno.js";
 import { descriptor as node } from "../src/descriptors/node.js";
+import { descriptor as pnpm } from "../src/descriptors/pnpm.js";
+import { berryDescriptor as yarnBerry, classicDescriptor as yarnClassic } from "../src/descriptors/yarn.js";
+import { ConfigError } from "../src/errors.js";
+import { expandUrlTemplate } from "../src/runtime-installer.js";
 
-// These are pure functions — no mocks, no Effect layers needed.
+// These are pure functions — no mocks, no Effect layers needed,
+// except Bun's resolveVariant, which reads an input and /proc/cpuinfo.
 
 describe("node descriptor", () => {
 	describe("getDownloadUrl", () => {
@@ -58,9 +65,92 @@ describe("node descriptor", () => {
 		});
 	});
 
+	it("getChecksumUrl points at SHASUMS256.txt of the release", () => {
+		expect(node.getChecksumUrl("24.11.0", "linux", "x64")).toBe("https://nodejs.org/dist/v24.11.0/SHASUMS256.txt");
+	});
+
+	it("uses a mirror base URL for downloads, checksums and signatures", () => {
+		const mirror = "https://artifactory.example/nodejs";
+		expect(node.getDownloadUrl("24.11.0", "linux", "x64", mirror)).toBe(
+			`${mirror}/v24.11.0/node-v24.11.0-linux-x64.tar.gz`,
+		);
+		expect(node.getChecksumUrl("24.11.0", "linux", "x64", mirror)).toBe(`${mirror}/v24.11.0/SHASUMS256.txt`);
+		expect(node.getChecksumSignatureUrl("24.11.0", mirror)).toBe(`${mirror}/v24.11.0/SHASUMS256.txt.sig`);
+	});
+
+	describe("musl", () => {
+		it("downloads linux-<arch>-musl archives from unofficial-builds", () => {
+			expect(node.getDownloadUrl("24.11.0", "linux", "x64", undefined, "musl")).toBe(
+				"https://unofficial-builds.nodejs.org/download/release/v24.11.0/node-v24.11.0-linux-x64-musl.tar.gz",
+			);
+			expect(node.getChecksumUrl("24.11.0", "linux", "arm64", undefined, "musl")).toBe(
+				"https://unofficial-builds.nodejs.org/download/release/v24.11.0/SHASUMS256.txt",
+			);
+		});
+
+		it("has no checksum signature for musl builds", () => {
+			expect(node.getChecksumSignatureUrl("24.11.0", undefined, "musl")).toBeUndefined();
+		});
+
+		it("ignores musl outside Linux and throws for architectures without a musl build", () => {
+			expect(node.getDownloadUrl("24.11.0", "darwin", "arm64", undefined, "musl")).toBe(
+				"https://nodejs.org/dist/v24.11.0/node-v24.11.0-darwin-arm64.tar.gz",
+			);
+			expect(() => node.getDownloadUrl("24.11.0", "linux", "arm", undefined, "musl")).toThrow(
+				"Node.js publishes no musl build for linux-arm",
+			);
+		});
+	});
+
+	describe("channels", () => {
+		const nightly = "26.0.0-nightly20251019a1b2c3d4e5";
+
+		it("downloads nightly and rc builds from their channel directory, even with a mirror", () => {
+			expect(node.getDownloadUrl(nightly, "linux", "x64", "https://artifactory.example/node")).toBe(
+				`https://nodejs.org/download/nightly/v${nightly}/node-v${nightly}-linux-x64.tar.gz`,
+			);
+			expect(node.getChecksumUrl("26.0.0-rc.1", "linux", "x64")).toBe(
+				"https://nodejs.org/download/rc/v26.0.0-rc.1/SHASUMS256.txt",
+			);
+		});
+
+		it("maps versions back to their channel and has no signature for channel builds", () => {
+			expect(node.releaseChannel(nightly)).toBe("nightly");
+			expect(node.releaseChannel("26.0.0-rc.1")).toBe("rc");
+			expect(node.releaseChannel("24.11.0")).toBeUndefined();
+			expect(node.getChecksumSignatureUrl(nightly)).toBeUndefined();
+		});
+
+		it("throws for channel builds on musl", () => {
+			expect(() => node.getDownloadUrl(nightly, "linux", "x64", undefined, "musl")).toThrow(
+				"Node.js publishes no musl builds on the nightly channel",
+			);
+		});
+	});
+
 	it("verifyCommand starts with node", () => {
 		expect(node.verifyCommand[0]).toBe("node");
 	});
+
+	it("parseVersionOutput reads the version from the verify output", () => {
+		expect(node.parseVersionOutput("v24.11.0\n")).toBe("24.11.0");
+		expect(node.parseVersionOutput("")).toBeUndefined();
+	});
+
+	describe("parseReleaseIndex", () => {
+		it("strips the v prefix and keeps LTS codenames", () => {
+			expect(
+				node.parseReleaseIndex([
+					{ version: "v25.1.0", lts: false },
+					{ version: "v24.11.1", lts: "Krypton" },
+				]),
+			).toEqual([{ version: "25.1.0" }, { version: "24.11.1", lts: "Krypton" }]);
+		});
+
+		it("returns an empty list for non-array bodies", () => {
+			expect(node.parseReleaseIndex({})).toEqual([]);
+		});
+	});
 });
 
 describe("bun descriptor", () => {
@@ -104,9 +194,127 @@ describe("bun descriptor", () => {
 		});
 	});
 
+	it("getChecksumUrl points at the SHASUMS256.txt release asset", () => {
+		expect(bun.getChecksumUrl("1.3.3", "linux", "x64")).toBe(
+			"https://github.com/oven-sh/bun/releases/download/bun-v1.3.3/SHASUMS256.txt",
+		);
+	});
+
+	it("uses a mirror base URL for downloads and checksums", () => {
+		const mirror = "https://artifactory.example/bun";
+		expect(bun.getDownloadUrl("1.3.3", "linux", "x64", mirror)).toBe(`${mirror}/bun-v1.3.3/bun-linux-x64.zip`);
+		expect(bun.getChecksumUrl("1.3.3", "linux", "x64", mirror)).toBe(`${mirror}/bun-v1.3.3/SHASUMS256.txt`);
+	});
+
+	it("downloads canary builds from the canary release", () => {
+		const canary = "canary-3f8d2c1b9a7e6d5c4b3a29180f7e6d5c4b3a2918";
+		expect(bun.releaseChannel(canary)).toBe("canary");
+		expect(bun.getDownloadUrl(canary, "linux", "x64")).toBe(
+			"https://github.com/oven-sh/bun/releases/download/canary/bun-linux-x64.zip",
+		);
+		expect(bun.getChecksumUrl(canary, "linux", "x64")).toBe(
+			"https://github.com/oven-sh/bun/releases/download/canary/SHASUMS256.txt",
+		);
+	});
+
+	it("uses the -musl zip and directory on musl Linux", () => {
+		expect(bun.getDownloadUrl("1.3.3", "linux", "arm64", undefined, "musl")).toBe(
+			"https://github.com/oven-sh/bun/releases/download/bun-v1.3.3/bun-linux-aarch64-musl.zip",
+		);
+		expect(bun.getToolInstallOptions("1.3.3", "linux", "x64", "musl")).toEqual({
+			archiveType: "zip",
+			binSubPath: "bun-linux-x64-musl",
+		});
+	});
+
+	describe("variants", () => {
+		it("uses -baseline assets, also on musl", () => {
+			expect(bun.getDownloadUrl("1.3.3", "linux", "x64", undefined, "glibc", "baseline")).toBe(
+				"https://github.com/oven-sh/bun/releases/download/bun-v1.3.3/bun-linux-x64-baseline.zip",
+			);
+			expect(bun.getToolInstallOptions("1.3.3", "linux", "x64", "musl", "baseline")).toEqual({
+				archiveType: "zip",
+				binSubPath: "bun-linux-x64-musl-baseline",
+			});
+		});
+
+		it("throws for baseline outside x64", () => {
+			expect(() => bun.getDownloadUrl("1.3.3", "darwin", "arm64", undefined, "glibc", "baseline")).toThrow(
+				"Bun publishes baseline builds for x64 only",
+			);
+		});
+
+		it("renames the bun-profile executable of -profile builds", () => {
+			expect(bun.getToolInstallOptions("1.3.3", "win32", "x64", "glibc", "profile")).toEqual({
+				archiveType: "zip",
+				binSubPath: "bun-windows-x64-profile",
+				renameExecutable: { from: "bun-profile.exe", to: "bun.exe" },
+			});
+		});
+	});
+
+	describe.runIf(process.platform === "linux")("resolveVariant", () => {
+		const resolve = (cpuFlags: string, inputs: Record<string, string> = {}, arch = "x64") =>
+			Effect.runPromise(
+				Effect.exit(
+					bun.resolveVariant("linux", arch).pipe(
+						Effect.provide(
+							Layer.succeed(
+								FileSystem.FileSystem,
+								FileSystem.makeNoop({
+									readFileString: () => Effect.succeed(`processor\t: 0\nflags\t\t: ${cpuFlags}\n`),
+								}),
+							),
+						),
+						Effect.withConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(inputs)))),
+						Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+					),
+				),
+			);
+
+		it("picks baseline on x64 CPUs without AVX2", async () => {
+			expect(await resolve("fpu sse4_2 avx")).toEqual(Exit.succeed("baseline"));
+			expect(await resolve("fpu sse4_2 avx avx2")).toEqual(Exit.succeed("default"));
+		});
+
+		it("keeps the default build on other architectures", async () => {
+			expect(await resolve("fp asimd", {}, "arm64")).toEqual(Exit.succeed("default"));
+		});
+
+		it("lets bun-variant override detection", async () => {
+			expect(await resolve("fpu avx", { "bun-variant": "default" })).toEqual(Exit.succeed("default"));
+			expect(await resolve("fpu avx avx2", { "bun-variant": "Profile" })).toEqual(Exit.succeed("profile"));
+		});
+
+		it("fails with ConfigError for an unknown variant", async () => {
+			const exit = await resolve("avx2", { "bun-variant": "fast" });
+
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+				expect(exit.cause.error).toBeInstanceOf(ConfigError);
+				expect(exit.cause.error.reason).toContain('Invalid bun-variant "fast"');
+			}
+		});
+	});
+
 	it("verifyCommand starts with bun", () => {
 		expect(bun.verifyCommand[0]).toBe("bun");
 	});
+
+	it("parseVersionOutput reads the version from the verify output", () => {
+		expect(bun.parseVersionOutput("1.3.3+b1c2d3e4f\n")).toBe("1.3.3+b1c2d3e4f");
+		expect(bun.parseVersionOutput("")).toBeUndefined();
+	});
+
+	it("parseReleaseIndex reads bun-v tags and skips canary and drafts", () => {
+		expect(
+			bun.parseReleaseIndex([
+				{ tag_name: "canary" },
+				{ tag_name: "bun-v1.3.3" },
+				{ tag_name: "bun-v1.3.4", draft: true },
+			]),
+		).toEqual([{ version: "1.3.3" }]);
+	});
 });
 
 describe("deno descriptor", () => {
@@ -139,6 +347,13 @@ describe("deno descriptor", () => {
 		it("throws for unsupported platform", () => {
 			expect(() => deno.getDownloadUrl("2.5.6", "freebsd", "x64")).toThrow("Unsupported platform for Deno");
 		});
+
+		it("throws a hint to use a glibc image on musl Linux", () => {
+			expect(() => deno.getDownloadUrl("2.5.6", "linux", "x64", undefined, "musl")).toThrow(
+				"Deno publishes no musl builds",
+			);
+			expect(() => deno.getToolInstallOptions("2.5.6", "linux", "x64", "musl")).toThrow("glibc-based container image");
+		});
 	});
 
 	describe("getToolInstallOptions", () => {
@@ -149,28 +364,141 @@ describe("deno descriptor", () => {
 		});
 	});
 
+	it("getChecksumUrl points at the archive's .sha256sum asset", () => {
+		expect(deno.getChecksumUrl("2.5.6", "linux", "x64")).toBe(
+			"https://github.com/denoland/deno/releases/download/v2.5.6/deno-x86_64-unknown-linux-gnu.zip.sha256sum",
+		);
+	});
+
+	it("uses a mirror base URL for downloads and checksums", () => {
+		const mirror = "https://artifactory.example/deno";
+		expect(deno.getChecksumUrl("2.5.6", "linux", "x64", mirror)).toBe(
+			`${mirror}/v2.5.6/deno-x86_64-unknown-linux-gnu.zip.sha256sum`,
+		);
+	});
+
+	it("downloads canary builds from dl.deno.land by commit", () => {
+		const sha = "9b1c0e4f2d8a7b6c5d4e3f2a1b0c9d8e7f6a5b4c";
+		expect(deno.releaseChannel(`canary-${sha}`)).toBe("canary");
+		expect(deno.getChecksumUrl(`canary-${sha}`, "linux", "x64")).toBe(
+			`https://dl.deno.land/canary/${sha}/deno-x86_64-unknown-linux-gnu.zip.sha256sum`,
+		);
+	});
+
+	it("parseChecksum reads the single hash of the .sha256sum file", () => {
+		const hash = "0eb3e36bfb24dcd9bb1d1bece1531216b59539a8fde17ee80224af0653c92aa3";
+		expect(deno.parseChecksum(`${hash}  deno-x86_64-unknown-linux-gnu.zip\n`, "ignored")).toBe(hash);
+	});
+
 	it("verifyCommand starts with deno", () => {
 		expect(deno.verifyCommand[0]).toBe("deno");
 	});
+
+	it("parseVersionOutput reads the version from the verify output", () => {
+		expect(
+			deno.parseVersionOutput("deno 2.5.6 (stable, release, x86_64-unknown-linux-gnu)\nv8 14.0\ntypescript 5.9.2\n"),
+		).toBe("2.5.6");
+		expect(deno.parseVersionOutput("")).toBeUndefined();
+	});
+
+	it("parseReleaseIndex reads v-prefixed tags", () => {
+		expect(deno.parseReleaseIndex([{ tag_name: "v2.5.6" }, { tag_name: "nightly" }])).toEqual([{ version: "2.5.6" }]);
+	});
+});
+
+describe("biome descriptor", () => {
+	describe("binaries", () => {
+		it("has entries for linux x64 and arm64", () => {
+			expect(biome.binaries.linux.x64).toBe("biome-linux-x64");
+			expect(biome.binaries.linux.arm64).toBe("biome-linux-arm64");
+		});
+
+		it("has entries for darwin x64 and arm64", () => {
+			expect(biome.binaries.darwin.x64).toBe("biome-darwin-x64");
+			expect(biome.binaries.darwin.arm64).toBe("biome-darwin-arm64");
+		});
+
+		it("has .exe suffix for win32", () => {
+			expect(biome.binaries.win32.x64).toBe("biome-win32-x64.exe");
+			expect(biome.binaries.win32.arm64).toBe("biome-win32-arm64.exe");
+		});
+
+		it("returns undefined for unsupported platforms", () => {
+			expect(biome.binaries.freebsd).toBeUndefined();
+		});
+	});
+
+	describe("urlTemplate", () => {
+		it("points at the GitHub release asset by default", () => {
+			expect(
+				expandUrlTemplate(biome.urlTemplate, { baseUrl: biome.baseUrl, version: "2.3.8", binary: "biome-linux-x64" }),
+			).toBe("https://github.com/biomejs/biome/releases/download/%40biomejs%2Fbiome%402.3.8/biome-linux-x64");
+		});
+
+		it("uses a mirror base URL", () => {
+			expect(
+				expandUrlTemplate(biome.urlTemplate, {
+					baseUrl: "https://artifactory.example/biome",
+					version: "2.3.8",
+					binary: "biome-linux-x64",
+				}),
+			).toBe("https://artifactory.example/biome/%40biomejs%2Fbiome%402.3.8/biome-linux-x64");
+		});
+	});
+
+	it("getChecksumUrl reads digests from the GitHub release", () => {
+		expect(biome.getChecksumUrl("2.3.8")).toBe(
+			"https://api.github.com/repos/biomejs/biome/releases/tags/%40biomejs%2Fbiome%402.3.8",
+		);
+	});
+
+	it("parseVersionOutput reads the version from the verify output", () => {
+		expect(biome.parseVersionOutput("Version: 2.3.8\n")).toBe("2.3.8");
+		expect(biome.parseVersionOutput("")).toBeUndefined();
+	});
 });
 
-describe("biome binaryMap", () => {
-	it("has entries for linux x64 and arm64", () => {
-		expect(biomeBinaryMap.linux.x64).toBe("biome-linux-x64");
-		expect(biomeBinaryMap.linux.arm64).toBe("biome-linux-arm64");
+describe("pnpm descriptor", () => {
+	it("has standalone executables for linux, darwin and win32", () => {
+		expect(pnpm.binaries.linux.x64).toBe("pnpm-linux-x64");
+		expect(pnpm.binaries.darwin.arm64).toBe("pnpm-macos-arm64");
+		expect(pnpm.binaries.win32.x64).toBe("pnpm-win-x64.exe");
 	});
 
-	it("has entries for darwin x64 and arm64", () => {
-		expect(biomeBinaryMap.darwin.x64).toBe("biome-darwin-x64");
-		expect(biomeBinaryMap.darwin.arm64).toBe("biome-darwin-arm64");
+	it("uses the statically linked builds on musl", () => {
+		expect(pnpm.muslBinaries.linux.x64).toBe("pnpm-linuxstatic-x64");
+		expect(pnpm.muslBinaries.linux.arm64).toBe("pnpm-linuxstatic-arm64");
+	});
+
+	it("points at the GitHub release asset", () => {
+		expect(
+			expandUrlTemplate(pnpm.urlTemplate, { baseUrl: pnpm.baseUrl, version: "10.20.0", binary: "pnpm-linux-x64" }),
+		).toBe("https://github.com/pnpm/pnpm/releases/download/v10.20.0/pnpm-linux-x64");
+	});
+
+	it("parseVersionOutput reads the version from the verify output", () => {
+		expect(pnpm.parseVersionOutput("10.20.0\n")).toBe("10.20.0");
+		expect(pnpm.parseVersionOutput("")).toBeUndefined();
+	});
+});
+
+describe("yarn descriptors", () => {
+	it("install the release bundle as a script", () => {
+		expect(yarnClassic.script).toBe(true);
+		expect(yarnBerry.script).toBe(true);
 	});
 
-	it("has .exe suffix for win32", () => {
-		expect(biomeBinaryMap.win32.x64).toBe("biome-win32-x64.exe");
-		expect(biomeBinaryMap.win32.arm64).toBe("biome-win32-arm64.exe");
+	it("point at the Classic and Berry release bundles", () => {
+		expect(expandUrlTemplate(yarnClassic.urlTemplate, { baseUrl: yarnClassic.baseUrl, version: "1.22.22" })).toBe(
+			"https://github.com/yarnpkg/yarn/releases/download/v1.22.22/yarn-1.22.22.js",
+		);
+		expect(expandUrlTemplate(yarnBerry.urlTemplate, { baseUrl: yarnBerry.baseUrl, version: "4.10.3" })).toBe(
+			"https://repo.yarnpkg.com/4.10.3/packages/yarnpkg-cli/bin/yarn.js",
+		);
 	});
 
-	it("returns undefined for unsupported platforms", () => {
-		expect(biomeBinaryMap.freebsd).toBeUndefined();
+	it("parseVersionOutput reads the version from the verify output", () => {
+		expect(yarnBerry.parseVersionOutput("4.10.3\n")).toBe("4.10.3");
+		expect(yarnClassic.parseVersionOutput("1.22.22\n")).toBe("1.22.22");
 	});
 });
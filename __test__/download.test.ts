@@ -0,0 +1,203 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { createServer } from "node:http";
+import { FetchHttpClient, FileSystem } from "@effect/platform";
+import type { Chunk } from "effect";
+import { ConfigProvider, Effect, Exit, Layer, Logger, Sink } from "effect";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { downloadFile } from "../src/download.js";
+import { DownloadError } from "../src/errors.js";
+
+// ---------------------------------------------------------------------------
+// Flaky HTTP stand-in: each path fails in its own way before (maybe) serving "archive"
+// ---------------------------------------------------------------------------
+
+const ARCHIVE = "archive";
+
+let server: Server;
+let baseUrl: string;
+const requests: Record<string, Array<{ range?: string }>> = {};
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		const path = req.url ?? "";
+		if (!requests[path]) requests[path] = [];
+		const seen = requests[path];
+		seen.push({ range: req.headers.range });
+		const attempt = seen.length;
+
+		if (path.startsWith("/flaky/")) {
+			if (attempt <= 2) {
+				res.writeHead(502);
+				res.end();
+				return;
+			}
+		} else if (path.startsWith("/down/")) {
+			res.writeHead(503);
+			res.end();
+			return;
+		} else if (path.startsWith("/missing/")) {
+			res.writeHead(404);
+			res.end();
+			return;
+		} else if (path.startsWith("/forbidden/")) {
+			res.writeHead(403);
+			res.end();
+			return;
+		} else if (path.startsWith("/partial/")) {
+			if (attempt === 1) {
+				// Promise the whole archive, send three bytes, then drop the connection
+				res.writeHead(200, { "Content-Length": String(ARCHIVE.length) });
+				res.write(ARCHIVE.slice(0, 3), () => res.destroy());
+				return;
+			}
+			const start = Number(req.headers.range?.match(/^bytes=(\d+)-$/)?.[1] ?? 0);
+			res.writeHead(start > 0 ? 206 : 200);
+			res.end(ARCHIVE.slice(start));
+			return;
+		} else if (path.startsWith("/slow/")) {
+			if (attempt === 1) {
+				setTimeout(() => res.end(ARCHIVE), 1500);
+				return;
+			}
+		}
+
+		res.writeHead(200);
+		res.end(ARCHIVE);
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	server.closeAllConnections();
+	await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+// ---------------------------------------------------------------------------
+// In-memory FileSystem: the temp directory, stat and (appending) sinks
+// ---------------------------------------------------------------------------
+
+const makeMemoryFileSystem = (files: Map<string, Uint8Array>) =>
+	Layer.succeed(
+		FileSystem.FileSystem,
+		FileSystem.makeNoop({
+			makeTempDirectory: () => Effect.succeed("/tmp/download"),
+			stat: (path) => {
+				const file = files.get(path);
+				if (file === undefined) {
+					return Effect.fail(
+						new (class extends Error {
+							readonly _tag = "SystemError";
+							readonly reason = "NotFound";
+						})() as never,
+					);
+				}
+				return Effect.succeed({ size: FileSystem.Size(file.length) } as FileSystem.File.Info);
+			},
+			sink: (path, options) => {
+				if (options?.flag !== "a") files.set(path, new Uint8Array());
+				return Sink.forEachChunk((chunks: Chunk.Chunk<Uint8Array>) =>
+					Effect.sync(() => {
+						for (const chunk of chunks) {
+							const existing = files.get(path) ?? new Uint8Array();
+							const merged = new Uint8Array(existing.length + chunk.length);
+							merged.set(existing);
+							merged.set(chunk, existing.length);
+							files.set(path, merged);
+						}
+					}),
+				);
+			},
+		}),
+	);
+
+const runDownload = (path: string, inputs: Record<string, string> = {}, label?: string) => {
+	const files = new Map<string, Uint8Array>();
+	const run = Effect.runPromise(
+		Effect.exit(
+			downloadFile(`${baseUrl}${path}`, { baseDelay: "10 millis", ...(label ? { label } : {}) }).pipe(
+				Effect.provide(FetchHttpClient.layer),
+				Effect.provide(makeMemoryFileSystem(files)),
+				Effect.withConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(inputs)))),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	);
+	return run.then((exit) => ({ exit, files }));
+};
+
+const contentOf = (files: Map<string, Uint8Array>, path: string) => new TextDecoder().decode(files.get(path));
+
+// ---------------------------------------------------------------------------
+// downloadFile
+// ---------------------------------------------------------------------------
+
+describe("downloadFile", () => {
+	it("downloads into a temporary directory under the URL's file name", async () => {
+		const { exit, files } = await runDownload("/ok/node-v24.11.0-linux-x64.tar.gz");
+
+		expect(exit).toEqual(Exit.succeed("/tmp/download/node-v24.11.0-linux-x64.tar.gz"));
+		expect(contentOf(files, "/tmp/download/node-v24.11.0-linux-x64.tar.gz")).toBe(ARCHIVE);
+	});
+
+	it("retries 5xx responses with backoff until the download succeeds", async () => {
+		const { exit, files } = await runDownload("/flaky/archive.tar.gz");
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(requests["/flaky/archive.tar.gz"]).toHaveLength(3);
+		expect(contentOf(files, "/tmp/download/archive.tar.gz")).toBe(ARCHIVE);
+	});
+
+	it("resumes an interrupted transfer with a Range request", async () => {
+		const { exit, files } = await runDownload("/partial/archive.tar.gz");
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(requests["/partial/archive.tar.gz"].map((r) => r.range)).toEqual([undefined, "bytes=3-"]);
+		expect(contentOf(files, "/tmp/download/archive.tar.gz")).toBe(ARCHIVE);
+	});
+
+	it("retries an attempt that exceeds download-timeout", async () => {
+		const { exit } = await runDownload("/slow/archive.tar.gz", { "download-timeout": "1" });
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(requests["/slow/archive.tar.gz"]).toHaveLength(2);
+	});
+
+	it("fails with DownloadError after download-retries retries", async () => {
+		const { exit } = await runDownload("/down/archive.tar.gz", { "download-retries": "2" });
+
+		expect(requests["/down/archive.tar.gz"]).toHaveLength(3);
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as DownloadError;
+			expect(error).toBeInstanceOf(DownloadError);
+			expect(error.attempts).toBe(3);
+			expect(error.statusCode).toBe(503);
+			expect(error.reason).toContain("after 3 attempt(s)");
+		}
+	});
+
+	it("fails fast on 404 with a hint that the version does not exist", async () => {
+		const { exit } = await runDownload("/missing/archive.tar.gz", {}, "node 99.0.0");
+
+		expect(requests["/missing/archive.tar.gz"]).toHaveLength(1);
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as DownloadError;
+			expect(error.statusCode).toBe(404);
+			expect(error.attempts).toBe(1);
+			expect(error.reason).toContain("node 99.0.0 does not exist");
+		}
+	});
+
+	it("does not retry other client errors", async () => {
+		const { exit } = await runDownload("/forbidden/archive.tar.gz");
+
+		expect(requests["/forbidden/archive.tar.gz"]).toHaveLength(1);
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect((exit.cause.error as DownloadError).statusCode).toBe(403);
+		}
+	});
+});
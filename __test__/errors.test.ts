@@ -1,10 +1,14 @@
 import { describe, expect, it } from "vitest";
 import {
 	CacheError,
+	ChecksumMismatchError,
 	ConfigError,
 	DependencyInstallError,
+	DownloadError,
 	PackageManagerSetupError,
 	RuntimeInstallError,
+	SignatureVerificationError,
+	VersionResolutionError,
 } from "../src/errors.js";
 
 describe("ConfigError", () => {
@@ -60,6 +64,71 @@ describe("RuntimeInstallError", () => {
 	});
 });
 
+describe("DownloadError", () => {
+	const fields = {
+		url: "https://nodejs.org/dist/v99.0.0/node-v99.0.0-linux-x64.tar.gz",
+		attempts: 1,
+		reason: "node 99.0.0 does not exist",
+		statusCode: 404,
+	};
+
+	it("has correct _tag", () => {
+		expect(new DownloadError(fields)._tag).toBe("DownloadError");
+	});
+
+	it("carries the url, attempts and last status", () => {
+		const err = new DownloadError(fields);
+		expect(err.url).toContain("node-v99.0.0");
+		expect(err.attempts).toBe(1);
+		expect(err.statusCode).toBe(404);
+	});
+});
+
+describe("ChecksumMismatchError", () => {
+	const fields = {
+		tool: "node",
+		version: "24.11.0",
+		file: "node-v24.11.0-linux-x64.tar.gz",
+		expected: "aaaa",
+		actual: "bbbb",
+		reason: "SHA-256 mismatch",
+	};
+
+	it("has correct _tag", () => {
+		expect(new ChecksumMismatchError(fields)._tag).toBe("ChecksumMismatchError");
+	});
+
+	it("carries the file and both hashes", () => {
+		const err = new ChecksumMismatchError(fields);
+		expect(err.file).toBe("node-v24.11.0-linux-x64.tar.gz");
+		expect(err.expected).toBe("aaaa");
+		expect(err.actual).toBe("bbbb");
+	});
+
+	it("is an instance of Error", () => {
+		expect(new ChecksumMismatchError(fields)).toBeInstanceOf(Error);
+	});
+});
+
+describe("SignatureVerificationError", () => {
+	const fields = { tool: "node", version: "24.11.0", reason: "Signature was not made by a pinned release key" };
+
+	it("has correct _tag", () => {
+		expect(new SignatureVerificationError(fields)._tag).toBe("SignatureVerificationError");
+	});
+
+	it("carries tool, version, and reason fields", () => {
+		const err = new SignatureVerificationError(fields);
+		expect(err.tool).toBe("node");
+		expect(err.version).toBe("24.11.0");
+		expect(err.reason).toContain("pinned release key");
+	});
+
+	it("is an instance of Error", () => {
+		expect(new SignatureVerificationError(fields)).toBeInstanceOf(Error);
+	});
+});
+
 describe("PackageManagerSetupError", () => {
 	it("has correct _tag", () => {
 		const err = new PackageManagerSetupError({ packageManager: "pnpm", version: "10.20.0", reason: "Corepack failed" });
@@ -142,3 +211,22 @@ describe("CacheError", () => {
 		expect(err).toBeInstanceOf(Error);
 	});
 });
+
+describe("VersionResolutionError", () => {
+	it("has correct _tag", () => {
+		const err = new VersionResolutionError({ tool: "node", spec: "^24", reason: "No match" });
+		expect(err._tag).toBe("VersionResolutionError");
+	});
+
+	it("carries tool, spec, and reason fields", () => {
+		const err = new VersionResolutionError({ tool: "bun", spec: "latest", reason: "Index unreachable" });
+		expect(err.tool).toBe("bun");
+		expect(err.spec).toBe("latest");
+		expect(err.reason).toBe("Index unreachable");
+	});
+
+	it("is an instance of Error", () => {
+		const err = new VersionResolutionError({ tool: "deno", spec: "^2", reason: "test" });
+		expect(err).toBeInstanceOf(Error);
+	});
+});
@@ -0,0 +1,186 @@
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import { ActionOutputs, CommandRunner } from "@savvy-web/github-action-effects";
+import type { Context } from "effect";
+import { Effect, Exit, Layer, Logger } from "effect";
+import { describe, expect, it } from "vitest";
+import { ConfigError, DependencyInstallError } from "../src/errors.js";
+import { getGlobalPackagesDirectory, installGlobalPackages, parseGlobalPackages } from "../src/global-packages.js";
+import type { GlobalPackage } from "../src/schemas.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface Recorded {
+	commands: Array<{ command: string; args: ReadonlyArray<string>; cwd?: string }>;
+	paths: Array<string>;
+	variables: Record<string, string>;
+}
+
+const makeLayer = (recorded: Recorded, failing?: string) =>
+	Layer.mergeAll(
+		Layer.succeed(CommandRunner, {
+			exec: (command: string, args: ReadonlyArray<string> = [], options?: { cwd?: string }) => {
+				recorded.commands.push({ command, args, cwd: options?.cwd });
+				return command === failing
+					? Effect.fail(new Error(`Command "${command}" exited with code 1`))
+					: Effect.succeed(0);
+			},
+		} as unknown as Context.Tag.Service<typeof CommandRunner>),
+		Layer.succeed(ActionOutputs, {
+			addPath: (path: string) => {
+				recorded.paths.push(path);
+				return Effect.void;
+			},
+			exportVariable: (name: string, value: string) => {
+				recorded.variables[name] = value;
+				return Effect.void;
+			},
+		} as unknown as Context.Tag.Service<typeof ActionOutputs>),
+	);
+
+const runInstall = (
+	pm: Parameters<typeof installGlobalPackages>[0],
+	packages: ReadonlyArray<GlobalPackage>,
+	failing?: string,
+) => {
+	const recorded: Recorded = { commands: [], paths: [], variables: {} };
+	return Effect.runPromise(
+		Effect.exit(
+			installGlobalPackages(pm, packages).pipe(
+				Effect.provide(makeLayer(recorded, failing)),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	).then((exit) => ({ exit, ...recorded }));
+};
+
+const PACKAGES: ReadonlyArray<GlobalPackage> = [
+	{ name: "typescript", version: "5.9.3" },
+	{ name: "@changesets/cli", version: "2.29.7" },
+];
+
+// ---------------------------------------------------------------------------
+// parseGlobalPackages
+// ---------------------------------------------------------------------------
+
+describe("parseGlobalPackages", () => {
+	it("splits name and version, keeping the scope of scoped packages", async () => {
+		const packages = await Effect.runPromise(parseGlobalPackages(["typescript@5.9.3", "@changesets/cli@2.29.7"]));
+
+		expect(packages).toEqual(PACKAGES);
+	});
+
+	it("returns no packages for no entries", async () => {
+		expect(await Effect.runPromise(parseGlobalPackages([]))).toEqual([]);
+	});
+
+	it.each([
+		"typescript@^5.9.0",
+		"wrangler@latest",
+		"typescript",
+		"@changesets/cli",
+		"typescript@5.9",
+	])("fails with ConfigError for %s", async (entry) => {
+		const exit = await Effect.runPromise(Effect.exit(parseGlobalPackages(["prettier@3.6.2", entry])));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.reason).toContain(`"${entry}"`);
+			expect(exit.cause.error.reason).toContain("absolute version");
+		}
+	});
+
+	it("fails with ConfigError for an invalid package name", async () => {
+		const exit = await Effect.runPromise(Effect.exit(parseGlobalPackages(["Not A Package@1.0.0"])));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// installGlobalPackages
+// ---------------------------------------------------------------------------
+
+describe("installGlobalPackages", () => {
+	it("does nothing without packages", async () => {
+		const { exit, commands, paths } = await runInstall("npm", []);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(commands).toEqual([]);
+		expect(paths).toEqual([]);
+	});
+
+	it("installs with npm into its own prefix", async () => {
+		const dir = getGlobalPackagesDirectory("npm");
+		const { exit, commands, paths } = await runInstall("npm", PACKAGES);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(dir).toBe(join(homedir(), ".workflow-runtime", "global", "npm"));
+		expect(commands).toEqual([
+			{
+				command: "npm",
+				args: ["install", "--global", "--prefix", dir, "typescript@5.9.3", "@changesets/cli@2.29.7"],
+				cwd: tmpdir(),
+			},
+		]);
+		expect(paths).toEqual([process.platform === "win32" ? dir : join(dir, "bin")]);
+	});
+
+	it("uses npm for Yarn projects", async () => {
+		const { commands } = await runInstall("yarn", PACKAGES);
+
+		expect(getGlobalPackagesDirectory("yarn")).toBe(getGlobalPackagesDirectory("npm"));
+		expect(commands.map((c) => c.command)).toEqual(["npm"]);
+	});
+
+	it("installs with pnpm under PNPM_HOME", async () => {
+		const dir = getGlobalPackagesDirectory("pnpm");
+		const { commands, paths, variables } = await runInstall("pnpm", PACKAGES);
+
+		expect(variables).toEqual({ PNPM_HOME: dir });
+		expect(paths).toEqual([dir]);
+		expect(commands.map((c) => [c.command, ...c.args])).toEqual([
+			["pnpm", "add", "--global", "typescript@5.9.3", "@changesets/cli@2.29.7"],
+		]);
+	});
+
+	it("installs with bun into its own global and bin directories", async () => {
+		const dir = getGlobalPackagesDirectory("bun");
+		const { commands, paths, variables } = await runInstall("bun", PACKAGES);
+
+		expect(variables).toEqual({
+			BUN_INSTALL_GLOBAL_DIR: join(dir, "install", "global"),
+			BUN_INSTALL_BIN: join(dir, "bin"),
+		});
+		expect(paths).toEqual([join(dir, "bin")]);
+		expect(commands.map((c) => [c.command, ...c.args])).toEqual([
+			["bun", "add", "--global", "typescript@5.9.3", "@changesets/cli@2.29.7"],
+		]);
+	});
+
+	it("installs each package with deno as an npm: specifier", async () => {
+		const dir = getGlobalPackagesDirectory("deno");
+		const { commands, paths } = await runInstall("deno", PACKAGES);
+
+		expect(paths).toEqual([join(dir, "bin")]);
+		expect(commands.map((c) => [c.command, ...c.args])).toEqual([
+			["deno", "install", "--global", "--allow-all", "--force", "--root", dir, "npm:typescript@5.9.3"],
+			["deno", "install", "--global", "--allow-all", "--force", "--root", dir, "npm:@changesets/cli@2.29.7"],
+		]);
+	});
+
+	it("fails with DependencyInstallError when the install fails", async () => {
+		const { exit } = await runInstall("pnpm", PACKAGES, "pnpm");
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as DependencyInstallError;
+			expect(error).toBeInstanceOf(DependencyInstallError);
+			expect(error.packageManager).toBe("pnpm");
+			expect(error.reason).toContain("Failed to install global packages");
+		}
+	});
+});
@@ -0,0 +1,132 @@
+import { Effect, Exit } from "effect";
+import { describe, expect, it } from "vitest";
+import { ConfigError } from "../src/errors.js";
+import {
+	buildInstallCommand,
+	installCacheSignature,
+	parseInstallModes,
+	splitInstallArgs,
+} from "../src/install-options.js";
+
+// ---------------------------------------------------------------------------
+// parseInstallModes
+// ---------------------------------------------------------------------------
+
+describe("parseInstallModes", () => {
+	it("normalizes case and drops duplicates", async () => {
+		const modes = await Effect.runPromise(parseInstallModes(["Production", "no-scripts", "production"]));
+
+		expect(modes).toEqual(["production", "no-scripts"]);
+	});
+
+	it("fails with ConfigError for an unknown mode", async () => {
+		const exit = await Effect.runPromise(Effect.exit(parseInstallModes(["frozen", "offline"])));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.reason).toContain('"offline"');
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// splitInstallArgs
+// ---------------------------------------------------------------------------
+
+describe("splitInstallArgs", () => {
+	it("splits on whitespace and keeps quoted arguments together", () => {
+		expect(splitInstallArgs("  --filter \"./apps/*\"\n--loglevel 'warn'  ")).toEqual([
+			"--filter",
+			"./apps/*",
+			"--loglevel",
+			"warn",
+		]);
+		expect(splitInstallArgs("")).toEqual([]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// buildInstallCommand
+// ---------------------------------------------------------------------------
+
+describe("buildInstallCommand", () => {
+	const all = { modes: ["offline-first", "production", "no-scripts"] as const, args: ["--verbose"] };
+
+	it("keeps the lockfile-aware commands without options", () => {
+		expect(buildInstallCommand("npm", { hasLockfile: false }).command).toEqual(["install"]);
+		expect(buildInstallCommand("yarn", { hasLockfile: false }).command).toEqual(["install", "--no-immutable"]);
+		expect(buildInstallCommand("deno", { hasLockfile: true }).command).toEqual(["install", "--frozen"]);
+	});
+
+	it("uses the frozen flags for frozen even without a lockfile", () => {
+		const install = { modes: ["frozen"] as const, args: [] };
+
+		expect(buildInstallCommand("npm", { hasLockfile: false, install }).command).toEqual(["ci"]);
+		expect(buildInstallCommand("yarn", { hasLockfile: false, install }).command).toEqual(["install", "--immutable"]);
+		expect(buildInstallCommand("bun", { hasLockfile: false, install }).command).toEqual([
+			"install",
+			"--frozen-lockfile",
+		]);
+	});
+
+	it.each([
+		["npm", undefined, ["ci", "--prefer-offline", "--omit=dev", "--ignore-scripts", "--verbose"]],
+		[
+			"pnpm",
+			undefined,
+			["install", "--frozen-lockfile", "--prefer-offline", "--prod", "--ignore-scripts", "--verbose"],
+		],
+		[
+			"yarn",
+			"classic",
+			["install", "--frozen-lockfile", "--prefer-offline", "--production", "--ignore-scripts", "--verbose"],
+		],
+		[
+			"bun",
+			undefined,
+			["install", "--frozen-lockfile", "--prefer-offline", "--production", "--ignore-scripts", "--verbose"],
+		],
+	] as const)("translates the presets for %s %s", (pm, yarnFlavor, expected) => {
+		const result = buildInstallCommand(pm, { hasLockfile: true, yarnFlavor, install: all });
+
+		expect(result).toEqual({ command: expected, unsupported: [] });
+	});
+
+	it("uses --mode=skip-build for no-scripts with Yarn Berry", () => {
+		const install = { modes: ["no-scripts", "offline-first"] as const, args: [] };
+
+		expect(buildInstallCommand("yarn", { hasLockfile: true, yarnFlavor: "berry", install })).toEqual({
+			command: ["install", "--immutable", "--mode=skip-build"],
+			unsupported: ["offline-first"],
+		});
+	});
+
+	it("focuses all workspaces for production with Yarn Berry", () => {
+		expect(buildInstallCommand("yarn", { hasLockfile: true, yarnFlavor: "berry", install: all })).toEqual({
+			command: ["workspaces", "focus", "--all", "--production", "--verbose"],
+			unsupported: ["offline-first", "no-scripts"],
+		});
+	});
+
+	it("reports the presets Deno has no flag for", () => {
+		expect(buildInstallCommand("deno", { hasLockfile: false, install: all })).toEqual({
+			command: ["install", "--verbose"],
+			unsupported: ["offline-first", "production"],
+		});
+	});
+});
+
+// ---------------------------------------------------------------------------
+// installCacheSignature
+// ---------------------------------------------------------------------------
+
+describe("installCacheSignature", () => {
+	it("includes only the options that change what gets installed", () => {
+		expect(installCacheSignature({ modes: [], args: [] })).toBeUndefined();
+		expect(installCacheSignature({ modes: ["frozen", "offline-first"], args: [] })).toBeUndefined();
+		expect(installCacheSignature({ modes: ["no-scripts", "frozen", "production"], args: ["--filter", "web"] })).toBe(
+			"production no-scripts --filter web",
+		);
+	});
+});
@@ -0,0 +1,114 @@
+import { createHash } from "node:crypto";
+import { FileSystem, HttpClient, HttpClientResponse } from "@effect/platform";
+import { ConfigProvider, Effect, Exit, Layer, Logger, Sink } from "effect";
+import { afterEach, describe, expect, it } from "vitest";
+import { PackageManagerSetupError } from "../src/errors.js";
+import { corepackDownloadUrl, parseCorepackMismatch, verifyPackageManagerIntegrity } from "../src/integrity.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TARBALL = new TextEncoder().encode("pnpm tarball");
+const TARBALL_SHA512 = createHash("sha512").update(TARBALL).digest("hex");
+
+afterEach(() => {
+	delete process.env.COREPACK_NPM_REGISTRY;
+});
+
+const runVerify = (integrity: string) => {
+	const requested: Array<string> = [];
+	const layer = Layer.mergeAll(
+		Layer.succeed(
+			HttpClient.HttpClient,
+			HttpClient.make((request) => {
+				requested.push(request.url);
+				return Effect.succeed(HttpClientResponse.fromWeb(request, new Response(TARBALL)));
+			}),
+		),
+		Layer.succeed(
+			FileSystem.FileSystem,
+			FileSystem.makeNoop({
+				makeTempDirectory: () => Effect.succeed("/tmp/download"),
+				sink: () => Sink.drain,
+				readFile: () => Effect.succeed(TARBALL),
+			}),
+		),
+		Layer.setConfigProvider(ConfigProvider.fromMap(new Map())),
+	);
+	return Effect.runPromise(
+		Effect.exit(
+			verifyPackageManagerIntegrity("pnpm", "10.20.0", integrity).pipe(
+				Effect.provide(layer),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	).then((exit) => ({ exit, requested }));
+};
+
+// ---------------------------------------------------------------------------
+// corepackDownloadUrl
+// ---------------------------------------------------------------------------
+
+describe("corepackDownloadUrl", () => {
+	it("points at the npm tarball for pnpm and Yarn 1", () => {
+		expect(corepackDownloadUrl("pnpm", "10.20.0")).toBe("https://registry.npmjs.org/pnpm/-/pnpm-10.20.0.tgz");
+		expect(corepackDownloadUrl("yarn", "1.22.22")).toBe("https://registry.npmjs.org/yarn/-/yarn-1.22.22.tgz");
+	});
+
+	it("points at the release bundle for Yarn 2+", () => {
+		expect(corepackDownloadUrl("yarn", "4.10.3")).toBe(
+			"https://repo.yarnpkg.com/4.10.3/packages/yarnpkg-cli/bin/yarn.js",
+		);
+	});
+
+	it("uses COREPACK_NPM_REGISTRY like corepack", () => {
+		process.env.COREPACK_NPM_REGISTRY = "https://npm.example/registry/";
+
+		expect(corepackDownloadUrl("pnpm", "10.20.0")).toBe("https://npm.example/registry/pnpm/-/pnpm-10.20.0.tgz");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// parseCorepackMismatch
+// ---------------------------------------------------------------------------
+
+describe("parseCorepackMismatch", () => {
+	it("reads the expected and actual digests", () => {
+		expect(parseCorepackMismatch("Internal Error: Mismatch hashes. Expected cf9998, got 12ab34\n    at ...")).toEqual({
+			expected: "cf9998",
+			actual: "12ab34",
+		});
+	});
+
+	it("returns undefined for other failures", () => {
+		expect(parseCorepackMismatch("Usage Error: Invalid package manager specification")).toBeUndefined();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// verifyPackageManagerIntegrity
+// ---------------------------------------------------------------------------
+
+describe("verifyPackageManagerIntegrity", () => {
+	it("succeeds when the download matches the hash", async () => {
+		const { exit, requested } = await runVerify(`sha512.${TARBALL_SHA512}`);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(requested).toEqual(["https://registry.npmjs.org/pnpm/-/pnpm-10.20.0.tgz"]);
+	});
+
+	it("fails with PackageManagerSetupError explaining the mismatch", async () => {
+		const { exit } = await runVerify("sha512.0000");
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error;
+			expect(error).toBeInstanceOf(PackageManagerSetupError);
+			expect(error.reason).toContain("does not match the integrity hash in the packageManager field");
+			expect(error.reason).toContain("expected sha512.0000");
+			expect(error.reason).toContain(`got sha512.${TARBALL_SHA512}`);
+			expect(error.reason).toContain("corepack use pnpm@10.20.0");
+		}
+	});
+});
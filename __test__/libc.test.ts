@@ -0,0 +1,32 @@
+import { FileSystem } from "@effect/platform";
+import { Effect, Layer } from "effect";
+import { describe, expect, it } from "vitest";
+import { detectLibc, toolCacheName } from "../src/libc.js";
+
+const makeFileSystemLayer = (files: ReadonlyArray<string>) =>
+	Layer.succeed(FileSystem.FileSystem, FileSystem.makeNoop({ exists: (path) => Effect.succeed(files.includes(path)) }));
+
+const detect = (files: ReadonlyArray<string> = []) =>
+	Effect.runPromise(detectLibc.pipe(Effect.provide(makeFileSystemLayer(files))));
+
+describe("detectLibc", () => {
+	it.runIf(process.platform === "linux")("detects musl from /etc/alpine-release", async () => {
+		expect(await detect(["/etc/alpine-release"])).toBe("musl");
+	});
+
+	it.runIf(process.platform === "linux")("otherwise follows the action's own Node.js build", async () => {
+		const header = (process.report?.getReport() as { header?: { glibcVersionRuntime?: string } }).header;
+		expect(await detect()).toBe(header?.glibcVersionRuntime ? "glibc" : "musl");
+	});
+
+	it.runIf(process.platform !== "linux")("reports glibc outside Linux", async () => {
+		expect(await detect(["/etc/alpine-release"])).toBe("glibc");
+	});
+});
+
+describe("toolCacheName", () => {
+	it("suffixes musl builds only", () => {
+		expect(toolCacheName("node", "glibc")).toBe("node");
+		expect(toolCacheName("node", "musl")).toBe("node-musl");
+	});
+});
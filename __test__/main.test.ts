@@ -1,4 +1,5 @@
-import { FileSystem } from "@effect/platform";
+import { createHash } from "node:crypto";
+import { FileSystem, HttpClient, HttpClientResponse } from "@effect/platform";
 import {
 	ActionCache,
 	ActionEnvironment,
@@ -9,7 +10,7 @@ import {
 	ToolInstaller,
 } from "@savvy-web/github-action-effects";
 import type { Context as ContextType } from "effect";
-import { Config, ConfigProvider, Effect, Exit, Layer, Logger, Option } from "effect";
+import { Array as Arr, Config, ConfigProvider, Effect, Exit, Layer, Logger, Option, Sink } from "effect";
 import { describe, expect, it } from "vitest";
 
 // ---------------------------------------------------------------------------
@@ -25,7 +26,10 @@ const makeOutputsLayer = (store: OutputsRecord, exportedVars: ExportedVars = {})
 			store[name] = value;
 			return Effect.void;
 		},
-		setJson: () => Effect.void,
+		setJson: (name: string, value: unknown) => {
+			store[name] = JSON.stringify(value);
+			return Effect.void;
+		},
 		summary: () => Effect.void,
 		exportVariable: (name: string, value: string) => {
 			exportedVars[name] = value;
@@ -139,10 +143,18 @@ const makeCommandRunnerLayer = (
 	} as unknown as ContextType.Tag.Service<typeof CommandRunner>);
 };
 
+/** Directory every download lands in, and the content of every downloaded file. */
+const DOWNLOAD_DIR = "/tmp/download";
+const DOWNLOADED_BYTES = new TextEncoder().encode("archive");
+
+/** Tracks downloaded URLs so the checksum stand-in can list their file names. */
+interface DownloadState {
+	urls: Array<string>;
+}
+
 const makeToolInstallerLayer = () =>
 	Layer.succeed(ToolInstaller, {
 		find: (_tool: string, _version: string) => Effect.succeed(Option.none()),
-		download: (_url: string) => Effect.succeed("/tmp/downloaded-file"),
 		extractTar: (_file: string) => Effect.succeed("/tmp/extracted"),
 		extractZip: (_file: string) => Effect.succeed("/tmp/extracted"),
 		cacheDir: (_sourceDir: string, tool: string, version: string) => Effect.succeed(`/tools/${tool}/${version}`),
@@ -150,6 +162,27 @@ const makeToolInstallerLayer = () =>
 			Effect.succeed(`/tools/${tool}/${version}`),
 	} as unknown as ContextType.Tag.Service<typeof ToolInstaller>);
 
+/**
+ * HttpClient stand-in serving DOWNLOADED_BYTES for downloads, and checksum
+ * documents that list their hash for every downloaded file. Runtimes download
+ * concurrently, so the documents cannot assume which download came last.
+ */
+const makeChecksumHttpLayer = (
+	downloads: DownloadState,
+	hash = createHash("sha256").update(DOWNLOADED_BYTES).digest("hex"),
+) =>
+	Layer.succeed(
+		HttpClient.HttpClient,
+		HttpClient.make((request) => {
+			if (!/SHASUMS256\.txt|\.sha256sum$|api\.github\.com/.test(request.url)) {
+				downloads.urls.push(request.url);
+				return Effect.succeed(HttpClientResponse.fromWeb(request, new Response(DOWNLOADED_BYTES)));
+			}
+			const body = downloads.urls.map((url) => `${hash}  ${url.split("/").pop()}\n`).join("");
+			return Effect.succeed(HttpClientResponse.fromWeb(request, new Response(body)));
+		}),
+	);
+
 // ---------------------------------------------------------------------------
 // FileSystem mock helpers
 // ---------------------------------------------------------------------------
@@ -176,6 +209,17 @@ const makeFileSystemLayer = (
 				}
 				return Effect.succeed(content);
 			},
+			makeTempDirectory: () => Effect.succeed(DOWNLOAD_DIR),
+			sink: () => Sink.drain,
+			readFile: (path) =>
+				path.startsWith(`${DOWNLOAD_DIR}/`)
+					? Effect.succeed(DOWNLOADED_BYTES)
+					: Effect.fail(
+							new (class extends Error {
+								readonly _tag = "SystemError";
+								readonly reason = "NotFound";
+							})() as never,
+						),
 			access: (path) => {
 				if (exists.has(path)) {
 					return Effect.succeed(undefined);
@@ -197,17 +241,27 @@ const makeFileSystemLayer = (
 // ---------------------------------------------------------------------------
 
 import type { PackageManager } from "../src/cache.js";
-import { findLockFiles, getCombinedCacheConfig, restoreCache } from "../src/cache.js";
-import { detectBiome, detectTurbo, loadPackageJson, parseDevEngines } from "../src/config.js";
+import { findLockFiles, getCombinedCacheConfig, resolveWorkingPaths, restoreCache } from "../src/cache.js";
+import { getWorkingDirectory } from "../src/config.js";
 import {
+	buildProjectsOutput,
+	detectProject,
 	getActivePackageManagers,
 	installBiome,
 	installDependencies,
+	installRuntimes,
+	mergeProjectRuntimes,
+	mergeProjectTools,
 	parseMultiValueInput,
+	parseProjectDirectories,
 	setOutputs,
 	setupPackageManager,
+	skippedPackageManagerRuntime,
+	withOnFail,
 } from "../src/main.js";
-import { RuntimeInstaller, installerLayerFor } from "../src/runtime-installer.js";
+import { ChecksumMismatchError, ConfigError, PackageManagerSetupError, RuntimeInstallError } from "../src/errors.js";
+import type { RuntimeEntry } from "../src/schemas.js";
+import { BUNDLED_VERSION } from "../src/schemas.js";
 
 /**
  * Build the full pipeline Effect the same way main.ts does,
@@ -226,39 +280,44 @@ const buildPipeline: Effect.Effect<void, any, any> = Effect.gen(function* () {
 		group: <A, E, R>(name: string, effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>;
 	};
 
-	// 1. Parse configuration
-	const config = yield* logger.group(
-		"Detect configuration",
-		Effect.gen(function* () {
-			const devEngines = yield* loadPackageJson;
-			const parsed = parseDevEngines(devEngines);
-			const runtimes = parsed.runtime;
-			const packageManager = parsed.packageManager;
-			const biome = yield* detectBiome;
-			const turbo = yield* detectTurbo;
-			return { runtimes, packageManager, biome, turbo };
-		}),
-	);
+	// 1. Parse configuration (one or more projects)
+	const workingDirectory = yield* getWorkingDirectory;
+	const rawProjects = yield* Config.string("projects").pipe(Config.withDefault(""));
+	const projectDirectories = parseProjectDirectories(rawProjects, workingDirectory);
+	const projects = yield* logger.group("Detect configuration", Effect.forEach(projectDirectories, detectProject));
+	const [primary] = projects;
+	const runtimes = yield* mergeProjectRuntimes(projects);
+	const biome = Arr.findFirst(projects, (p) => Option.isSome(p.biome)).pipe(Option.flatMap((p) => p.biome));
+	const turbo = projects.some((p) => p.turbo);
 
 	// 2. Cache
-	const pmName = config.packageManager.name as PackageManager;
-	const activePackageManagers = getActivePackageManagers(config.runtimes, pmName);
+	const activePackageManagers = Array.from(
+		new Set(projects.flatMap((p) => getActivePackageManagers(p.runtimes, p.packageManager.name))),
+	);
 
-	const runtimeEntries: Array<{ name: string; version: string }> = config.runtimes.map((r) => ({
+	const runtimeEntries: Array<{ name: string; version: string }> = runtimes.map((r) => ({
 		name: r.name,
 		version: r.version,
 	}));
-	if (Option.isSome(config.biome)) {
-		runtimeEntries.push({ name: "biome", version: config.biome.value });
+	if (Option.isSome(biome)) {
+		runtimeEntries.push({ name: "biome", version: biome.value });
 	}
 
 	const cacheConfig = yield* getCombinedCacheConfig(activePackageManagers, runtimeEntries);
-	const lockfiles = yield* findLockFiles(cacheConfig.lockfilePatterns);
+	const projectLockfiles = yield* Effect.forEach(projects, (p) =>
+		findLockFiles(cacheConfig.lockfilePatterns, p.directory),
+	);
+	const lockfiles = Array.from(new Set(projectLockfiles.flat())).sort();
 
-	const turboPaths = config.turbo ? ["**/.turbo"] : [];
-	const finalCachePaths = [...cacheConfig.cachePaths, ...turboPaths];
+	const finalCachePaths = Array.from(
+		new Set(
+			projects.flatMap((p) =>
+				resolveWorkingPaths([...cacheConfig.cachePaths, ...(p.turbo ? ["**/.turbo"] : [])], p.directory),
+			),
+		),
+	);
 
-	if (config.turbo) {
+	if (turbo) {
 		const turboToken = yield* Config.string("turbo-token").pipe(Config.withDefault(""));
 		const turboTeam = yield* Config.string("turbo-team").pipe(Config.withDefault(""));
 		if (turboToken !== "") {
@@ -275,37 +334,56 @@ const buildPipeline: Effect.Effect<void, any, any> = Effect.gen(function* () {
 		restoreCache({
 			cachePaths: finalCachePaths,
 			runtimes: runtimeEntries,
-			packageManager: { name: config.packageManager.name, version: config.packageManager.version },
+			packageManager: projects.map((p) => ({ name: p.packageManager.name, version: p.packageManager.version })),
 			lockfiles,
+			workingDirectory: projectDirectories.join(","),
 		}).pipe(Effect.catchTag("CacheError", () => Effect.succeed("none" as const))),
 	);
 
 	// 3. Install runtimes
-	const installed = yield* logger.group(
-		"Install runtimes",
-		Effect.forEach(config.runtimes, (rt) =>
-			RuntimeInstaller.pipe(
-				Effect.flatMap((installer) => installer.install(rt.version)),
-				Effect.provide(installerLayerFor(rt.name)),
-			),
-		),
-	);
+	const installed = yield* installRuntimes(runtimes);
 
-	// 4. Install dependencies
+	// 4–5. Per project: setup package manager, install dependencies
 	const shouldInstallDeps = true; // Default in tests — overridden by ConfigProvider
-	if (shouldInstallDeps) {
-		yield* logger.group("Install dependencies", installDependencies(pmName));
-	}
+	const projectResults = yield* Effect.forEach(projects, (project, i) =>
+		Effect.gen(function* () {
+			const pmName = project.packageManager.name as PackageManager;
+			if (Option.isSome(skippedPackageManagerRuntime(project, installed))) {
+				return { project, packageManagerVersion: project.packageManager.version, lockfiles: projectLockfiles[i] };
+			}
+			const pmVersion = yield* logger.group(
+				"Setup package manager",
+				setupPackageManager(pmName, project.packageManager.version),
+			);
+			if (shouldInstallDeps) {
+				yield* logger.group("Install dependencies", installDependencies(pmName, project.directory));
+			}
+			return { project, packageManagerVersion: pmVersion, lockfiles: projectLockfiles[i] };
+		}),
+	);
 
-	// 5. Install Biome (non-fatal) — in the test we just log success
-	if (Option.isSome(config.biome)) {
+	// 6. Install Biome (non-fatal) — in the test we just log success
+	if (Option.isSome(biome)) {
 		yield* logger
-			.group("Install Biome", Effect.log(`Biome ${config.biome.value} (test stub)`))
+			.group("Install Biome", Effect.log(`Biome ${biome.value} (test stub)`))
 			.pipe(Effect.catchAll(() => Effect.void));
 	}
 
-	// 6. Set outputs
-	yield* setOutputs(outputs as never, installed, config, cacheResult, lockfiles, finalCachePaths);
+	// 7. Set outputs
+	yield* setOutputs(
+		outputs as never,
+		installed,
+		{
+			...primary,
+			biome,
+			turbo,
+			packageManager: { ...primary.packageManager, version: projectResults[0].packageManagerVersion },
+		},
+		cacheResult,
+		lockfiles,
+		finalCachePaths,
+		buildProjectsOutput(projectResults, installed),
+	);
 });
 
 // ---------------------------------------------------------------------------
@@ -345,9 +423,11 @@ const buildBaseLayer = (opts: {
 	failCache?: boolean;
 	cmdResponses?: Map<string, { exitCode: number; stdout: string; stderr: string }>;
 	env?: Record<string, string>;
+	checksum?: string;
 }) => {
 	const outputStore: OutputsRecord = {};
 	const exportedVars: ExportedVars = {};
+	const downloads: DownloadState = { urls: [] };
 
 	const fsLayer = makeFileSystemLayer(
 		opts.files ?? { "package.json": VALID_PACKAGE_JSON },
@@ -362,6 +442,7 @@ const buildBaseLayer = (opts: {
 		makeEnvironmentLayer(opts.env ?? { GITHUB_REF: "refs/heads/main" }),
 		makeCommandRunnerLayer(opts.cmdResponses),
 		makeToolInstallerLayer(),
+		makeChecksumHttpLayer(downloads, opts.checksum),
 		fsLayer,
 	);
 
@@ -410,10 +491,120 @@ describe("main pipeline", () => {
 		expect(outputStore["deno-enabled"]).toBe("false");
 		expect(outputStore["package-manager"]).toBe("pnpm");
 		expect(outputStore["package-manager-version"]).toBe("10.20.0");
+		expect(outputStore["version-sources"]).toBe("node=devEngines,pnpm=devEngines");
+		expect(outputStore["node-signature-fingerprint"]).toBe("");
+		expect(outputStore["node-source"]).toBe("download");
+		expect(outputStore["bun-source"]).toBe("");
 		expect(outputStore["biome-enabled"]).toBe("false");
 		expect(outputStore["turbo-enabled"]).toBe("false");
 	});
 
+	it("falls back to .nvmrc and the bundled npm without devEngines", async () => {
+		const { layer, outputStore, configProvider } = buildBaseLayer({
+			files: { "package.json": JSON.stringify({ name: "test-project" }), ".nvmrc": "v24.11.0\n" },
+			cmdResponses: new Map([["npm --version", { exitCode: 0, stdout: "11.6.2\n", stderr: "" }]]),
+		});
+
+		await runPipeline(layer as Layer.Layer<never>, configProvider);
+
+		expect(outputStore["node-version"]).toBe("24.11.0");
+		expect(outputStore["package-manager"]).toBe("npm");
+		expect(outputStore["package-manager-version"]).toBe("11.6.2");
+		expect(outputStore["version-sources"]).toBe("node=.nvmrc,npm=bundled");
+	});
+
+	it("sets up a Deno-first project from deno.json without package.json", async () => {
+		const { layer, outputStore, configProvider } = buildBaseLayer({
+			files: {
+				"deno.json": JSON.stringify({ devEngines: { runtime: { name: "deno", version: "2.5.6" } } }),
+				"deno.lock": "{}",
+			},
+		});
+
+		await runPipeline(layer as Layer.Layer<never>, configProvider);
+
+		expect(outputStore["deno-version"]).toBe("2.5.6");
+		expect(outputStore["node-enabled"]).toBe("false");
+		expect(outputStore["package-manager"]).toBe("deno");
+		expect(outputStore["package-manager-version"]).toBe("2.5.6");
+		expect(outputStore["version-sources"]).toBe("deno=deno.json");
+	});
+
+	it("resolves detection and cache globs against working-directory", async () => {
+		const { layer, outputStore, configProvider } = buildBaseLayer({
+			files: { "web/package.json": VALID_PACKAGE_JSON, "web/turbo.json": "{}" },
+			inputs: { "working-directory": "web/" },
+		});
+
+		await runPipeline(layer as Layer.Layer<never>, configProvider);
+
+		expect(outputStore["node-version"]).toBe("24.11.0");
+		expect(outputStore["turbo-enabled"]).toBe("true");
+		const cachePaths = outputStore["cache-paths"].split(",");
+		expect(cachePaths).toContain("web/**/node_modules");
+		expect(cachePaths).toContain("web/**/.turbo");
+	});
+
+	it("fails when package.json is missing from working-directory", async () => {
+		const { layer, configProvider } = buildBaseLayer({ inputs: { "working-directory": "frontend" } });
+
+		const exit = await runPipelineExit(layer as Layer.Layer<never>, configProvider);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+	});
+
+	it("sets up several projects with one runtime install and per-project outputs", async () => {
+		const { layer, outputStore, configProvider } = buildBaseLayer({
+			files: {
+				"apps/web/package.json": VALID_PACKAGE_JSON,
+				"apps/api/package.json": JSON.stringify({ name: "api" }),
+				"apps/api/.nvmrc": "24.11.0\n",
+			},
+			inputs: { "working-directory": "apps", projects: "web\napi" },
+			cmdResponses: new Map([["npm --version", { exitCode: 0, stdout: "11.6.2\n", stderr: "" }]]),
+		});
+
+		await runPipeline(layer as Layer.Layer<never>, configProvider);
+
+		expect(outputStore["node-version"]).toBe("24.11.0");
+		expect(outputStore["package-manager"]).toBe("pnpm");
+		const projects = JSON.parse(outputStore.projects);
+		expect(Object.keys(projects)).toEqual(["apps/web", "apps/api"]);
+		expect(projects["apps/web"]).toMatchObject({ packageManager: "pnpm", packageManagerVersion: "10.20.0" });
+		expect(projects["apps/api"]).toMatchObject({
+			packageManager: "npm",
+			packageManagerVersion: "11.6.2",
+			runtimes: { node: "24.11.0" },
+			versionSources: { node: ".nvmrc", npm: "bundled" },
+		});
+		const cachePaths = outputStore["cache-paths"].split(",");
+		expect(cachePaths).toContain("apps/web/**/node_modules");
+		expect(cachePaths).toContain("apps/api/**/node_modules");
+	});
+
+	it("fails when projects require different versions of the same runtime", async () => {
+		const { layer, configProvider } = buildBaseLayer({
+			files: {
+				"web/package.json": VALID_PACKAGE_JSON,
+				"api/package.json": JSON.stringify({ name: "api" }),
+				"api/.nvmrc": "22.21.1\n",
+			},
+			inputs: { projects: "web, api" },
+		});
+
+		const exit = await runPipelineExit(layer as Layer.Layer<never>, configProvider);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+	});
+
+	it("reports the single project in the projects output", async () => {
+		const { layer, outputStore, configProvider } = buildBaseLayer({});
+
+		await runPipeline(layer as Layer.Layer<never>, configProvider);
+
+		expect(Object.keys(JSON.parse(outputStore.projects))).toEqual(["."]);
+	});
+
 	it("install-deps=false skips dependency installation", async () => {
 		const { layer, outputStore, configProvider } = buildBaseLayer({
 			inputs: { "install-deps": "false" },
@@ -511,6 +702,80 @@ describe("main pipeline", () => {
 		expect(outputStore["package-manager"]).toBe("pnpm");
 	});
 
+	it("runtime with onFail warn that fails to install is skipped", async () => {
+		const packageJson = JSON.stringify({
+			devEngines: {
+				packageManager: { name: "pnpm", version: "10.20.0" },
+				runtime: [
+					{ name: "node", version: "24.11.0", onFail: "error" },
+					{ name: "deno", version: "2.5.6", onFail: "warn" },
+				],
+			},
+		});
+		const { layer, outputStore, configProvider } = buildBaseLayer({
+			files: { "package.json": packageJson },
+			cmdResponses: new Map([["deno --version", { exitCode: 1, stdout: "", stderr: "boom" }]]),
+		});
+
+		await runPipeline(layer as Layer.Layer<never>, configProvider);
+
+		expect(outputStore["node-enabled"]).toBe("true");
+		expect(outputStore["deno-enabled"]).toBe("false");
+		expect(outputStore["deno-version"]).toBe("");
+	});
+
+	it("skips package manager setup and install when the project's runtime is skipped by onFail warn", async () => {
+		const packageJson = JSON.stringify({
+			devEngines: {
+				packageManager: { name: "bun", version: "1.3.3" },
+				runtime: { name: "bun", version: "1.3.3", onFail: "warn" },
+			},
+		});
+		const { layer, outputStore, configProvider } = buildBaseLayer({
+			files: { "package.json": packageJson },
+			cmdResponses: new Map([["bun", { exitCode: 1, stdout: "", stderr: "boom" }]]),
+		});
+
+		const exit = await runPipelineExit(layer as Layer.Layer<never>, configProvider);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(outputStore["bun-enabled"]).toBe("false");
+		expect(outputStore["package-manager-version"]).toBe("1.3.3");
+	});
+
+	it("runtime with onFail error that fails to install fails the action", async () => {
+		const packageJson = JSON.stringify({
+			devEngines: {
+				packageManager: { name: "pnpm", version: "10.20.0" },
+				runtime: [
+					{ name: "node", version: "24.11.0" },
+					{ name: "deno", version: "2.5.6", onFail: "error" },
+				],
+			},
+		});
+		const { layer, configProvider } = buildBaseLayer({
+			files: { "package.json": packageJson },
+			cmdResponses: new Map([["deno --version", { exitCode: 1, stdout: "", stderr: "boom" }]]),
+		});
+
+		const exit = await runPipelineExit(layer as Layer.Layer<never>, configProvider);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+	});
+
+	it("fails with ChecksumMismatchError when a runtime archive does not match its checksum", async () => {
+		const { layer, configProvider } = buildBaseLayer({ checksum: "0".repeat(64) });
+
+		const exit = await runPipelineExit(layer as Layer.Layer<never>, configProvider);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as ChecksumMismatchError;
+			expect(error).toBeInstanceOf(ChecksumMismatchError);
+			expect(error.tool).toBe("node");
+		}
+	});
+
 	it("turbo detection sets TURBO_TOKEN and TURBO_TEAM env vars", async () => {
 		const { layer, outputStore, exportedVars, configProvider } = buildBaseLayer({
 			files: {
@@ -569,6 +834,356 @@ describe("getActivePackageManagers", () => {
 	});
 });
 
+describe("skippedPackageManagerRuntime", () => {
+	const installedRuntime = (name: string) => ({
+		name,
+		version: "1.0.0",
+		path: `/tools/${name}`,
+		source: "tool-cache" as const,
+	});
+
+	it("returns the package manager's runtime when it was declared but not installed", () => {
+		const project = {
+			runtimes: [{ name: "bun", version: "1.3.3", onFail: "warn" }],
+			packageManager: { name: "bun", version: "1.3.3" },
+		} as never;
+		expect(Option.map(skippedPackageManagerRuntime(project, []), (rt) => rt.name)).toEqual(Option.some("bun"));
+	});
+
+	it("maps npm, pnpm and yarn to node", () => {
+		const project = {
+			runtimes: [
+				{ name: "node", version: "24.11.0", onFail: "warn" },
+				{ name: "deno", version: "2.5.6", onFail: "error" },
+			],
+			packageManager: { name: "pnpm", version: "10.20.0" },
+		} as never;
+		expect(Option.isSome(skippedPackageManagerRuntime(project, [installedRuntime("deno")]))).toBe(true);
+		expect(Option.isNone(skippedPackageManagerRuntime(project, [installedRuntime("node")]))).toBe(true);
+	});
+
+	it("returns none when the runtime is not declared", () => {
+		const project = {
+			runtimes: [{ name: "node", version: "24.11.0", onFail: "error" }],
+			packageManager: { name: "deno", version: "2.5.6" },
+		} as never;
+		expect(Option.isNone(skippedPackageManagerRuntime(project, []))).toBe(true);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// withOnFail tests
+// ---------------------------------------------------------------------------
+
+describe("parseProjectDirectories", () => {
+	it("defaults to the working directory", () => {
+		expect(parseProjectDirectories("", ".")).toEqual(["."]);
+		expect(parseProjectDirectories("", "web")).toEqual(["web"]);
+	});
+
+	it("resolves entries against the working directory and deduplicates", () => {
+		expect(parseProjectDirectories("web\n./api/\nweb", "apps")).toEqual(["apps/web", "apps/api"]);
+	});
+});
+
+describe("mergeProjectRuntimes", () => {
+	const project = (directory: string, runtimes: Array<{ name: "node" | "bun" | "deno"; version: string }>) => ({
+		directory,
+		runtimes,
+		packageManager: { name: "npm" as const, version: "11.6.0" },
+		biome: Option.none(),
+		turbo: false,
+		sources: {},
+		tools: [],
+	});
+
+	it("unions runtimes in first-seen order", async () => {
+		const merged = await Effect.runPromise(
+			mergeProjectRuntimes([
+				project("web", [{ name: "node", version: "24.11.0" }]),
+				project("api", [
+					{ name: "deno", version: "2.5.6" },
+					{ name: "node", version: "24.11.0" },
+				]),
+			]),
+		);
+
+		expect(merged).toEqual([
+			{ name: "node", version: "24.11.0" },
+			{ name: "deno", version: "2.5.6" },
+		]);
+	});
+
+	it("fails with ConfigError on conflicting versions", async () => {
+		const exit = await Effect.runPromise(
+			Effect.exit(
+				mergeProjectRuntimes([
+					project("web", [{ name: "node", version: "24.11.0" }]),
+					project("api", [{ name: "node", version: "22.21.1" }]),
+				]),
+			),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.reason).toContain("node 24.11.0 (web) vs 22.21.1 (api)");
+		}
+	});
+});
+
+describe("mergeProjectTools", () => {
+	const project = (directory: string, tools: Array<{ name: string; version: string }>) => ({
+		directory,
+		runtimes: [],
+		packageManager: { name: "npm" as const, version: "11.6.0" },
+		biome: Option.none(),
+		turbo: false,
+		sources: {},
+		tools,
+	});
+
+	it("unions tools in first-seen order", async () => {
+		const merged = await Effect.runPromise(
+			mergeProjectTools([
+				project("web", [{ name: "shfmt", version: "3.12.0" }]),
+				project("api", [
+					{ name: "dprint", version: "0.50.2" },
+					{ name: "shfmt", version: "3.12.0" },
+				]),
+			]),
+		);
+
+		expect(merged.map((t) => t.name)).toEqual(["shfmt", "dprint"]);
+	});
+
+	it("fails with ConfigError on conflicting versions", async () => {
+		const exit = await Effect.runPromise(
+			Effect.exit(
+				mergeProjectTools([
+					project("web", [{ name: "shfmt", version: "3.12.0" }]),
+					project("api", [{ name: "shfmt", version: "3.11.0" }]),
+				]),
+			),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.reason).toContain("different tool versions: shfmt 3.12.0 (web) vs 3.11.0 (api)");
+		}
+	});
+});
+
+describe("buildProjectsOutput", () => {
+	it("keys results by directory and reports only the project's runtimes", () => {
+		const output = buildProjectsOutput(
+			[
+				{
+					project: {
+						directory: "web",
+						runtimes: [{ name: "node", version: "24.11.0" }],
+						packageManager: { name: "pnpm", version: "10.20.0" },
+						biome: Option.some("2.3.14"),
+						turbo: true,
+						sources: { node: "devEngines", pnpm: "devEngines" },
+						tools: [],
+					},
+					packageManagerVersion: "10.20.0",
+					lockfiles: ["web/pnpm-lock.yaml"],
+				},
+			],
+			[
+				{ name: "node", version: "24.11.0", path: "/opt/node", source: "download" },
+				{ name: "deno", version: "2.5.6", path: "/opt/deno", source: "tool-cache" },
+			],
+		);
+
+		expect(output).toEqual({
+			web: {
+				packageManager: "pnpm",
+				packageManagerVersion: "10.20.0",
+				runtimes: { node: "24.11.0" },
+				versionSources: { node: "devEngines", pnpm: "devEngines" },
+				lockfiles: ["web/pnpm-lock.yaml"],
+				biomeVersion: "2.3.14",
+				turboEnabled: true,
+			},
+		});
+	});
+});
+
+describe("withOnFail", () => {
+	const failing = Effect.fail(new Error("download failed"));
+	const run = <A, E>(effect: Effect.Effect<A, E>) =>
+		Effect.runPromise(Effect.exit(effect.pipe(Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)))));
+
+	it("wraps successes in Some", async () => {
+		expect(await run(withOnFail("warn", "step", Effect.succeed(1)))).toEqual(Exit.succeed(Option.some(1)));
+	});
+
+	it("propagates failures for error", async () => {
+		expect(Exit.isFailure(await run(withOnFail("error", "step", failing)))).toBe(true);
+	});
+
+	it("propagates failures for download", async () => {
+		expect(Exit.isFailure(await run(withOnFail("download", "step", failing)))).toBe(true);
+	});
+
+	it("propagates failures when onFail is unset", async () => {
+		expect(Exit.isFailure(await run(withOnFail(undefined, "step", failing)))).toBe(true);
+	});
+
+	it("logs a warning and continues for warn", async () => {
+		const messages: string[] = [];
+		const logger = Logger.make(({ message }) => {
+			messages.push(String(message));
+		});
+		const exit = await Effect.runPromise(
+			Effect.exit(
+				withOnFail("warn", "deno@2.5.6 install", failing).pipe(
+					Effect.provide(Logger.replace(Logger.defaultLogger, logger)),
+				),
+			),
+		);
+
+		expect(exit).toEqual(Exit.succeed(Option.none()));
+		expect(messages.some((m) => m.includes("deno@2.5.6 install failed (onFail: warn): download failed"))).toBe(true);
+	});
+
+	it("continues silently for ignore", async () => {
+		expect(await run(withOnFail("ignore", "step", failing))).toEqual(Exit.succeed(Option.none()));
+	});
+});
+
+// ---------------------------------------------------------------------------
+// installRuntimes tests
+// ---------------------------------------------------------------------------
+
+describe("installRuntimes", () => {
+	const NODE = { name: "node", version: "24.11.0", onFail: "error" } as const;
+	const BUN = { name: "bun", version: "1.3.3", onFail: "error" } as const;
+	const DENO = { name: "deno", version: "2.5.6", onFail: "error" } as const;
+
+	/**
+	 * Every runtime is a tool cache hit; node's lookup is slow so the others
+	 * finish preparing first. Records PATH additions and which group each log
+	 * line was written in.
+	 */
+	const runInstall = (
+		runtimes: ReadonlyArray<RuntimeEntry>,
+		cmdResponses?: Map<string, { exitCode: number; stdout: string; stderr: string }>,
+	) => {
+		const paths: string[] = [];
+		const prepared: string[] = [];
+		const lines: Array<{ group: string; message: string }> = [];
+		let group = "";
+
+		const layer = Layer.mergeAll(
+			Layer.succeed(ActionOutputs, {
+				addPath: (path: string) => {
+					paths.push(path);
+					return Effect.void;
+				},
+				setSecret: () => Effect.void,
+			} as unknown as ContextType.Tag.Service<typeof ActionOutputs>),
+			Layer.succeed(ActionLogger, {
+				group: <A, E, R>(name: string, effect: Effect.Effect<A, E, R>) =>
+					Effect.sync(() => {
+						group = name;
+					}).pipe(
+						Effect.zipRight(effect),
+						Effect.ensuring(
+							Effect.sync(() => {
+								group = "";
+							}),
+						),
+					),
+			} as unknown as ContextType.Tag.Service<typeof ActionLogger>),
+			Layer.succeed(ToolInstaller, {
+				find: (tool: string, version: string) =>
+					Effect.sleep(tool === "node" ? "50 millis" : "0 millis").pipe(
+						Effect.tap(() => Effect.sync(() => prepared.push(tool))),
+						Effect.as(Option.some(`/tools/${tool}/${version}`)),
+					),
+			} as unknown as ContextType.Tag.Service<typeof ToolInstaller>),
+			makeCommandRunnerLayer(cmdResponses),
+			makeChecksumHttpLayer({ urls: [] }),
+			makeFileSystemLayer(),
+		);
+		const logger = Logger.make(({ message }) => {
+			lines.push({ group, message: String(message) });
+		});
+
+		return Effect.runPromise(
+			Effect.exit(
+				installRuntimes(runtimes).pipe(
+					Effect.provide(layer),
+					Effect.withConfigProvider(makeConfigProvider()),
+					Effect.provide(Logger.replace(Logger.defaultLogger, logger)),
+				),
+			),
+		).then((exit) => ({ exit, paths, prepared, lines }));
+	};
+
+	it("adds runtimes to PATH in declared order even when they finish out of order", async () => {
+		const { exit, paths, prepared } = await runInstall([NODE, BUN]);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(prepared).toEqual(["bun", "node"]);
+		expect(paths.map((p) => p.split("/")[2])).toEqual(["node", "bun"]);
+		if (Exit.isSuccess(exit)) {
+			expect(exit.value.map((r) => r.name)).toEqual(["node", "bun"]);
+		}
+	});
+
+	it("writes each runtime's logs inside its own group", async () => {
+		const { lines } = await runInstall([NODE, BUN]);
+
+		const nodeLines = lines.filter((l) => l.message.includes("node 24.11.0"));
+		const bunLines = lines.filter((l) => l.message.includes("bun 1.3.3"));
+		expect(nodeLines.length).toBeGreaterThan(0);
+		expect(bunLines.length).toBeGreaterThan(0);
+		expect(nodeLines.every((l) => l.group.includes("Node 24.11.0"))).toBe(true);
+		expect(bunLines.every((l) => l.group.includes("Bun 1.3.3"))).toBe(true);
+	});
+
+	it("reports every runtime that failed in one error", async () => {
+		const { exit, paths } = await runInstall(
+			[NODE, BUN, DENO],
+			new Map([
+				["node --version", { exitCode: 1, stdout: "", stderr: "" }],
+				["deno --version", { exitCode: 1, stdout: "", stderr: "" }],
+			]),
+		);
+
+		expect(paths).toHaveLength(3);
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as RuntimeInstallError;
+			expect(error).toBeInstanceOf(RuntimeInstallError);
+			expect(error.runtime).toBe("node, deno");
+			expect(error.reason).toContain("2 runtimes failed to install");
+			expect(error.reason).toContain("- node@24.11.0:");
+			expect(error.reason).toContain("- deno@2.5.6:");
+			expect(error.reason).not.toContain("bun@");
+		}
+	});
+
+	it("rethrows a single failure unchanged", async () => {
+		const { exit } = await runInstall(
+			[NODE, BUN],
+			new Map([["bun --revision", { exitCode: 1, stdout: "", stderr: "" }]]),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as RuntimeInstallError;
+			expect(error.runtime).toBe("bun");
+			expect(error.version).toBe("1.3.3");
+		}
+	});
+});
+
 // ---------------------------------------------------------------------------
 // parseMultiValueInput tests
 // ---------------------------------------------------------------------------
@@ -674,6 +1289,110 @@ describe("installDependencies", () => {
 			new Map([["yarn install --no-immutable", { exitCode: 0, stdout: "", stderr: "" }]]),
 		);
 	});
+
+	const recordInstall = async (
+		pm: PackageManager,
+		files: ReadonlyArray<string>,
+		capture: { exitCode: number; stdout: string; stderr: string } = { exitCode: 0, stdout: "deno 2.5.6", stderr: "" },
+		options: Parameters<typeof installDependencies>[2] = {},
+	) => {
+		const calls: Array<{ command: string; args: ReadonlyArray<string> }> = [];
+		const cmdLayer = Layer.succeed(CommandRunner, {
+			exec: (command: string, args: ReadonlyArray<string> = []) => {
+				calls.push({ command, args });
+				return Effect.succeed(0);
+			},
+			execCapture: () => Effect.succeed(capture),
+		} as unknown as ContextType.Tag.Service<typeof CommandRunner>);
+		const fsLayer = Layer.succeed(FileSystem.FileSystem, {
+			access: (path: string) => (files.includes(path) ? Effect.void : Effect.fail("not found")),
+		} as unknown as FileSystem.FileSystem);
+
+		await Effect.runPromise(
+			(installDependencies(pm, ".", options) as Effect.Effect<void, unknown, never>).pipe(
+				Effect.provide(Layer.mergeAll(cmdLayer, fsLayer) as never),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		);
+		return calls;
+	};
+
+	it("runs deno install --frozen with deno.json and deno.lock", async () => {
+		expect(await recordInstall("deno", ["deno.json", "deno.lock"])).toEqual([
+			{ command: "deno", args: ["install", "--frozen"] },
+		]);
+	});
+
+	it("runs deno install for a package.json without deno.lock", async () => {
+		expect(await recordInstall("deno", ["package.json"])).toEqual([{ command: "deno", args: ["install"] }]);
+	});
+
+	it("skips the deno install without a deno.json or package.json", async () => {
+		expect(await recordInstall("deno", [])).toEqual([]);
+	});
+
+	it("runs yarn install --frozen-lockfile for Yarn Classic", async () => {
+		expect(await recordInstall("yarn", ["yarn.lock"], undefined, { yarnFlavor: "classic" })).toEqual([
+			{ command: "yarn", args: ["install", "--frozen-lockfile"] },
+		]);
+		expect(await recordInstall("yarn", [], undefined, { yarnFlavor: "classic" })).toEqual([
+			{ command: "yarn", args: ["install"] },
+		]);
+	});
+
+	it("runs yarn install --immutable for Yarn Berry", async () => {
+		expect(await recordInstall("yarn", ["yarn.lock"], undefined, { yarnFlavor: "berry" })).toEqual([
+			{ command: "yarn", args: ["install", "--immutable"] },
+		]);
+	});
+
+	it("adds install-mode flags and install-args after the lockfile flags", async () => {
+		const install = { modes: ["production", "no-scripts"] as const, args: ["--loglevel", "warn"] };
+
+		expect(await recordInstall("npm", ["package-lock.json"], undefined, { install })).toEqual([
+			{ command: "npm", args: ["ci", "--omit=dev", "--ignore-scripts", "--loglevel", "warn"] },
+		]);
+		expect(await recordInstall("pnpm", [], undefined, { install: { modes: ["frozen"], args: [] } })).toEqual([
+			{ command: "pnpm", args: ["install", "--frozen-lockfile"] },
+		]);
+	});
+
+	it("runs yarn workspaces focus for production installs with Yarn Berry", async () => {
+		expect(
+			await recordInstall("yarn", ["yarn.lock"], undefined, {
+				yarnFlavor: "berry",
+				install: { modes: ["production"], args: [] },
+			}),
+		).toEqual([{ command: "yarn", args: ["workspaces", "focus", "--all", "--production"] }]);
+	});
+
+	it("skips the deno install on Deno 1.x", async () => {
+		expect(
+			await recordInstall("deno", ["deno.json"], { exitCode: 0, stdout: "deno 1.46.3 (stable, release)", stderr: "" }),
+		).toEqual([]);
+	});
+
+	it("checks lockfiles and runs the install inside working-directory", async () => {
+		const calls: Array<{ command: string; args: ReadonlyArray<string>; cwd?: string }> = [];
+		const cmdLayer = Layer.succeed(CommandRunner, {
+			exec: (command: string, args: ReadonlyArray<string> = [], opts?: { cwd?: string }) => {
+				calls.push({ command, args, cwd: opts?.cwd });
+				return Effect.succeed(0);
+			},
+		} as unknown as ContextType.Tag.Service<typeof CommandRunner>);
+		const fsLayer = Layer.succeed(FileSystem.FileSystem, {
+			access: (path: string) => (path === "web/pnpm-lock.yaml" ? Effect.void : Effect.fail("not found")),
+		} as unknown as FileSystem.FileSystem);
+
+		await Effect.runPromise(
+			(installDependencies("pnpm", "web") as Effect.Effect<void, unknown, never>).pipe(
+				Effect.provide(Layer.mergeAll(cmdLayer, fsLayer) as never),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		);
+
+		expect(calls).toEqual([{ command: "pnpm", args: ["install", "--frozen-lockfile"], cwd: "web" }]);
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -683,8 +1402,10 @@ describe("installDependencies", () => {
 describe("setupPackageManager", () => {
 	const runSetup = (pm: PackageManager, version: string, cmdLayer: Layer.Layer<never>) =>
 		Effect.runPromise(
-			(setupPackageManager(pm, version) as Effect.Effect<void, unknown, never>).pipe(
-				Effect.provide(cmdLayer as never),
+			(setupPackageManager(pm, version) as Effect.Effect<string, unknown, never>).pipe(
+				Effect.provide(
+					Layer.mergeAll(cmdLayer, makeToolInstallerLayer(), makeOutputsLayer({}), makeFileSystemLayer()) as never,
+				),
 				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
 			),
 		);
@@ -726,6 +1447,13 @@ describe("setupPackageManager", () => {
 		await runSetup("npm", "11.6.0", makeCommandRunnerLayer(responses));
 	});
 
+	it("keeps the bundled npm when no version is declared", async () => {
+		const responses = new Map([["npm --version", { exitCode: 0, stdout: "10.9.3\n", stderr: "" }]]);
+		const version = await runSetup("npm", BUNDLED_VERSION, makeCommandRunnerLayer(responses));
+
+		expect(version).toBe("10.9.3");
+	});
+
 	it("skips npm install when version already matches", async () => {
 		const responses = new Map([["npm --version", { exitCode: 0, stdout: "11.6.0\n", stderr: "" }]]);
 		await runSetup("npm", "11.6.0", makeCommandRunnerLayer(responses));
@@ -745,6 +1473,52 @@ describe("setupPackageManager", () => {
 		}
 	});
 
+	describe("with an integrity hash", () => {
+		const makeRecordingRunner = (commands: Array<string>, prepareStderr?: string) =>
+			Layer.succeed(CommandRunner, {
+				exec: (command: string, args: ReadonlyArray<string> = []) => {
+					commands.push([command, ...args].join(" "));
+					return prepareStderr !== undefined && args[0] === "prepare"
+						? Effect.fail(
+								Object.assign(new Error(`Command "${command}" exited with code 1`), { stderr: prepareStderr }),
+							)
+						: Effect.succeed(0);
+				},
+				execCapture: () => Effect.succeed({ exitCode: 0, stdout: "v24.9.0\n", stderr: "" }),
+			} as unknown as ContextType.Tag.Service<typeof CommandRunner>);
+
+		const runWithIntegrity = (commands: Array<string>, prepareStderr?: string) =>
+			Effect.runPromise(
+				Effect.exit(
+					setupPackageManager("pnpm", "10.20.0", "sha512.cf9998").pipe(
+						Effect.provide(makeRecordingRunner(commands, prepareStderr)),
+						Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+					),
+				),
+			);
+
+		it("passes it to corepack prepare", async () => {
+			const commands: Array<string> = [];
+			const exit = await runWithIntegrity(commands);
+
+			expect(Exit.isSuccess(exit)).toBe(true);
+			expect(commands).toContain("corepack prepare pnpm@10.20.0+sha512.cf9998 --activate");
+		});
+
+		it("explains a hash mismatch reported by corepack", async () => {
+			const commands: Array<string> = [];
+			const exit = await runWithIntegrity(commands, "Internal Error: Mismatch hashes. Expected cf9998, got 12ab34");
+
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+				expect(exit.cause.error).toBeInstanceOf(PackageManagerSetupError);
+				expect(exit.cause.error.reason).toContain(
+					"pnpm@10.20.0 does not match the integrity hash in the packageManager field: expected sha512.cf9998, got sha512.12ab34",
+				);
+			}
+		});
+	});
+
 	it("installs corepack for Node >= 25", async () => {
 		const responses = new Map([
 			["node --version", { exitCode: 0, stdout: "v25.0.0\n", stderr: "" }],
@@ -0,0 +1,143 @@
+import { ActionOutputs } from "@savvy-web/github-action-effects";
+import type { Context } from "effect";
+import { ConfigProvider, Effect, Exit, Layer, Logger, Option } from "effect";
+import { afterEach, describe, expect, it } from "vitest";
+import { ConfigError } from "../src/errors.js";
+import { parseMirrorHeaders, resolveMirror } from "../src/mirror.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const makeOutputsLayer = (secrets: Array<string>) =>
+	Layer.succeed(ActionOutputs, {
+		setSecret: (value: string) => {
+			secrets.push(value);
+			return Effect.void;
+		},
+	} as unknown as Context.Tag.Service<typeof ActionOutputs>);
+
+const runResolve = (tool: string, inputs: Record<string, string>, secrets: Array<string> = []) =>
+	Effect.runPromise(
+		Effect.exit(
+			resolveMirror(tool).pipe(
+				Effect.provide(makeOutputsLayer(secrets)),
+				Effect.withConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(inputs)))),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	);
+
+const MIRROR_ENV = ["NODEJS_ORG_MIRROR", "NVM_NODEJS_ORG_MIRROR"];
+
+afterEach(() => {
+	for (const name of MIRROR_ENV) delete process.env[name];
+});
+
+// ---------------------------------------------------------------------------
+// parseMirrorHeaders
+// ---------------------------------------------------------------------------
+
+describe("parseMirrorHeaders", () => {
+	it("parses one header per line and skips blank lines", async () => {
+		const headers = await Effect.runPromise(
+			parseMirrorHeaders("Authorization: Bearer abc\n\nX-JFrog-Art-Api:  key \n"),
+		);
+
+		expect(headers).toEqual({ Authorization: "Bearer abc", "X-JFrog-Art-Api": "key" });
+	});
+
+	it("fails with ConfigError naming the line but not its value", async () => {
+		const exit = await Effect.runPromise(Effect.exit(parseMirrorHeaders("Authorization: Bearer abc\nsecret-token")));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.reason).toContain("line 2");
+			expect(exit.cause.error.reason).not.toContain("secret-token");
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// resolveMirror
+// ---------------------------------------------------------------------------
+
+describe("resolveMirror", () => {
+	it("returns None without an input or environment variable", async () => {
+		expect(await runResolve("node", {})).toEqual(Exit.succeed(Option.none()));
+	});
+
+	it("reads the <tool>-mirror input and strips trailing slashes", async () => {
+		const exit = await runResolve("bun", { "bun-mirror": "https://artifactory.example/bun/" });
+
+		expect(exit).toEqual(Exit.succeed(Option.some({ baseUrl: "https://artifactory.example/bun", headers: {} })));
+	});
+
+	it("falls back to NODEJS_ORG_MIRROR, then NVM_NODEJS_ORG_MIRROR, for node", async () => {
+		process.env.NVM_NODEJS_ORG_MIRROR = "https://nvm.example/dist";
+		expect(await runResolve("node", {})).toEqual(
+			Exit.succeed(Option.some({ baseUrl: "https://nvm.example/dist", headers: {} })),
+		);
+
+		process.env.NODEJS_ORG_MIRROR = "https://node.example/dist";
+		expect(await runResolve("node", {})).toEqual(
+			Exit.succeed(Option.some({ baseUrl: "https://node.example/dist", headers: {} })),
+		);
+	});
+
+	it("prefers the input over the environment", async () => {
+		process.env.NODEJS_ORG_MIRROR = "https://node.example/dist";
+		const exit = await runResolve("node", { "node-mirror": "https://input.example/node" });
+
+		expect(exit).toEqual(Exit.succeed(Option.some({ baseUrl: "https://input.example/node", headers: {} })));
+	});
+
+	it("ignores node mirror variables for other tools", async () => {
+		process.env.NODEJS_ORG_MIRROR = "https://node.example/dist";
+		expect(await runResolve("deno", {})).toEqual(Exit.succeed(Option.none()));
+	});
+
+	it("reads node-musl-mirror for Node.js musl builds, not node-mirror or its variables", async () => {
+		process.env.NODEJS_ORG_MIRROR = "https://node.example/dist";
+		expect(await runResolve("node-musl", { "node-mirror": "https://input.example/node" })).toEqual(
+			Exit.succeed(Option.none()),
+		);
+		expect(await runResolve("node-musl", { "node-musl-mirror": "https://input.example/unofficial/" })).toEqual(
+			Exit.succeed(Option.some({ baseUrl: "https://input.example/unofficial", headers: {} })),
+		);
+	});
+
+	it("returns None for tools without a mirror input", async () => {
+		expect(await runResolve("pnpm", { "pnpm-mirror": "https://artifactory.example/pnpm" })).toEqual(
+			Exit.succeed(Option.none()),
+		);
+	});
+
+	it("attaches mirror-headers and masks their values", async () => {
+		const secrets: Array<string> = [];
+		const exit = await runResolve(
+			"deno",
+			{ "deno-mirror": "https://artifactory.example/deno", "mirror-headers": "Authorization: Bearer abc" },
+			secrets,
+		);
+
+		expect(exit).toEqual(
+			Exit.succeed(
+				Option.some({ baseUrl: "https://artifactory.example/deno", headers: { Authorization: "Bearer abc" } }),
+			),
+		);
+		expect(secrets).toEqual(["Bearer abc"]);
+	});
+
+	it("fails with ConfigError for an invalid URL", async () => {
+		const exit = await runResolve("biome", { "biome-mirror": "not a url" });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as ConfigError;
+			expect(error).toBeInstanceOf(ConfigError);
+			expect(error.reason).toContain("Invalid biome mirror URL");
+		}
+	});
+});
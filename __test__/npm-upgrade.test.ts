@@ -0,0 +1,189 @@
+import { join } from "node:path";
+import { FileSystem } from "@effect/platform";
+import { ActionOutputs, CommandRunner, ToolInstaller } from "@savvy-web/github-action-effects";
+import type { Context } from "effect";
+import { Effect, Exit, Layer, Logger, Option } from "effect";
+import { afterEach, describe, expect, it } from "vitest";
+import { detectNpmInstallStrategy, findToolCachedNpm, upgradeNpm } from "../src/npm-upgrade.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const PREFIX = "/usr/local";
+const originalPlatform = process.platform;
+
+afterEach(() => {
+	Object.defineProperty(process, "platform", { value: originalPlatform, writable: true });
+});
+
+interface Scenario {
+	/** Directories the current user may write to */
+	writable?: ReadonlyArray<string>;
+	/** Whether /etc/alpine-release exists (musl libc) */
+	alpine?: boolean;
+	/** Whether `sudo -n true` succeeds */
+	sudo?: boolean;
+	/** Versions (or `<tool cache name>@<version>`) already in the tool cache */
+	cached?: ReadonlyArray<string>;
+}
+
+interface Recorded {
+	commands: Array<string>;
+	paths: Array<string>;
+	cachedDirs: Array<string>;
+}
+
+const makeLayer = (scenario: Scenario, recorded: Recorded) =>
+	Layer.mergeAll(
+		Layer.succeed(CommandRunner, {
+			exec: (command: string, args: ReadonlyArray<string> = []) => {
+				const line = [command, ...args].join(" ");
+				recorded.commands.push(line);
+				return line === "sudo -n true" && !scenario.sudo
+					? Effect.fail(new Error('Command "sudo" exited with code 1'))
+					: Effect.succeed(0);
+			},
+			execCapture: (command: string, args: ReadonlyArray<string> = []) => {
+				recorded.commands.push([command, ...args].join(" "));
+				return Effect.succeed({ exitCode: 0, stdout: `${PREFIX}\n`, stderr: "" });
+			},
+		} as unknown as Context.Tag.Service<typeof CommandRunner>),
+		Layer.succeed(ToolInstaller, {
+			find: (tool: string, version: string) =>
+				Effect.succeed(
+					scenario.cached?.includes(version) || scenario.cached?.includes(`${tool}@${version}`)
+						? Option.some(`/tools/${tool}/${version}`)
+						: Option.none<string>(),
+				),
+			cacheDir: (sourceDir: string, tool: string, version: string) => {
+				recorded.cachedDirs.push(sourceDir);
+				return Effect.succeed(`/tools/${tool}/${version}`);
+			},
+		} as unknown as Context.Tag.Service<typeof ToolInstaller>),
+		Layer.succeed(ActionOutputs, {
+			addPath: (path: string) => {
+				recorded.paths.push(path);
+				return Effect.void;
+			},
+		} as unknown as Context.Tag.Service<typeof ActionOutputs>),
+		Layer.succeed(
+			FileSystem.FileSystem,
+			FileSystem.makeNoop({
+				access: (path) =>
+					scenario.writable?.includes(path) ? Effect.void : Effect.fail({ _tag: "SystemError" } as never),
+				exists: (path) => Effect.succeed(path === "/etc/alpine-release" && scenario.alpine === true),
+				makeTempDirectory: () => Effect.succeed("/tmp/npm-prefix"),
+			}),
+		),
+	);
+
+const run = <A, E>(effect: Effect.Effect<A, E, unknown>, scenario: Scenario) => {
+	const recorded: Recorded = { commands: [], paths: [], cachedDirs: [] };
+	return Effect.runPromise(
+		Effect.exit(
+			(effect as Effect.Effect<A, E, never>).pipe(
+				Effect.provide(makeLayer(scenario, recorded)),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	).then((exit) => ({ exit, ...recorded }));
+};
+
+const WRITABLE_PREFIX = [join(PREFIX, "lib", "node_modules"), join(PREFIX, "bin")];
+
+// ---------------------------------------------------------------------------
+// detectNpmInstallStrategy
+// ---------------------------------------------------------------------------
+
+describe("detectNpmInstallStrategy", () => {
+	it("installs directly when the global prefix is writable", async () => {
+		const { exit, commands } = await run(detectNpmInstallStrategy, { writable: WRITABLE_PREFIX, sudo: true });
+
+		expect(exit).toEqual(Exit.succeed("direct"));
+		expect(commands).not.toContain("sudo -n true");
+	});
+
+	it("uses sudo only when the prefix needs it and sudo works without a password", async () => {
+		expect((await run(detectNpmInstallStrategy, { sudo: true })).exit).toEqual(Exit.succeed("sudo"));
+		expect((await run(detectNpmInstallStrategy, { writable: [WRITABLE_PREFIX[0]], sudo: true })).exit).toEqual(
+			Exit.succeed("sudo"),
+		);
+	});
+
+	it("falls back to a user prefix without sudo", async () => {
+		expect((await run(detectNpmInstallStrategy, { sudo: false })).exit).toEqual(Exit.succeed("user-prefix"));
+	});
+
+	it("always installs directly on Windows", async () => {
+		Object.defineProperty(process, "platform", { value: "win32", writable: true });
+
+		const { exit, commands } = await run(detectNpmInstallStrategy, {});
+
+		expect(exit).toEqual(Exit.succeed("direct"));
+		expect(commands).toEqual([]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// upgradeNpm
+// ---------------------------------------------------------------------------
+
+describe("upgradeNpm", () => {
+	it("installs globally without sudo into a writable prefix", async () => {
+		const { exit, commands, paths } = await run(upgradeNpm("11.6.2"), { writable: WRITABLE_PREFIX });
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(commands).toContain("npm install -g npm@11.6.2");
+		expect(commands.some((c) => c.startsWith("sudo npm"))).toBe(false);
+		expect(paths).toEqual([]);
+	});
+
+	it("installs with sudo and fixes the npm cache ownership", async () => {
+		const { exit, commands } = await run(upgradeNpm("11.6.2"), { sudo: true });
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(commands).toContain("sudo npm install -g npm@11.6.2");
+		expect(commands.some((c) => c.startsWith("sudo chown -R"))).toBe(true);
+	});
+
+	it("installs into the tool cache and PATH without sudo", async () => {
+		const { exit, commands, paths, cachedDirs } = await run(upgradeNpm("11.6.2"), { sudo: false });
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(commands).toContain("npm install --global --prefix /tmp/npm-prefix npm@11.6.2");
+		expect(commands.some((c) => c.startsWith("sudo npm"))).toBe(false);
+		expect(cachedDirs).toEqual(["/tmp/npm-prefix"]);
+		expect(paths).toEqual([join("/tools/npm/11.6.2", "lib", "node_modules", "npm", "bin")]);
+	});
+
+	it("reuses a cached npm without installing", async () => {
+		const { exit, commands, paths } = await run(upgradeNpm("11.6.2"), { cached: ["11.6.2"] });
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(commands).toEqual([]);
+		expect(paths).toEqual([join("/tools/npm/11.6.2", "lib", "node_modules", "npm", "bin")]);
+	});
+
+	it("uses the musl tool cache name on Alpine", async () => {
+		Object.defineProperty(process, "platform", { value: "linux", writable: true });
+		const installed = await run(upgradeNpm("11.6.2"), { alpine: true, sudo: false });
+		expect(installed.paths).toEqual([join("/tools/npm-musl/11.6.2", "lib", "node_modules", "npm", "bin")]);
+
+		const reused = await run(upgradeNpm("11.6.2"), { alpine: true, cached: ["npm-musl@11.6.2"] });
+		expect(reused.commands).toEqual([]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// findToolCachedNpm
+// ---------------------------------------------------------------------------
+
+describe("findToolCachedNpm", () => {
+	it("finds an npm a user-prefix install left in the tool cache", async () => {
+		expect((await run(findToolCachedNpm("11.6.2"), { cached: ["npm@11.6.2"] })).exit).toEqual(
+			Exit.succeed(Option.some("/tools/npm/11.6.2")),
+		);
+		expect((await run(findToolCachedNpm("11.6.2"), {})).exit).toEqual(Exit.succeed(Option.none()));
+	});
+});
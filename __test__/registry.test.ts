@@ -0,0 +1,285 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { FileSystem } from "@effect/platform";
+import { ActionOutputs, ActionState } from "@savvy-web/github-action-effects";
+import type { Context } from "effect";
+import { ConfigProvider, Effect, Exit, Layer, Logger, Option } from "effect";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ConfigError } from "../src/errors.js";
+import type { RegistryConfig } from "../src/registry.js";
+import {
+	configureRegistry,
+	readRegistryConfig,
+	renderBunfig,
+	renderNpmrc,
+	renderYarnrc,
+	restoreRegistryConfig,
+	TOKEN_ENV,
+} from "../src/registry.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ENV = ["NODE_AUTH_TOKEN", "GITHUB_REPOSITORY_OWNER", "NPM_CONFIG_USERCONFIG", "XDG_CONFIG_HOME"];
+let savedEnv: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+	savedEnv = Object.fromEntries(ENV.map((name) => [name, process.env[name]]));
+	for (const name of ENV) delete process.env[name];
+});
+
+afterEach(() => {
+	for (const [name, value] of Object.entries(savedEnv)) {
+		if (value === undefined) delete process.env[name];
+		else process.env[name] = value;
+	}
+});
+
+/** How the written configs reference the token, e.g. `${NODE_AUTH_TOKEN}` */
+const TOKEN_REF = `\${${TOKEN_ENV}}`;
+
+const NPMRC = join(homedir(), ".npmrc");
+const YARNRC = join(homedir(), ".yarnrc.yml");
+const BUNFIG = join(homedir(), ".bunfig.toml");
+
+const GITHUB: RegistryConfig = { url: "https://npm.pkg.github.com/", scope: "my-org", alwaysAuth: false };
+const VERDACCIO: RegistryConfig = { url: "https://verdaccio.example/npm/", scope: undefined, alwaysAuth: true };
+
+interface Services {
+	files: Map<string, string>;
+	state: Map<string, unknown>;
+	variables: Record<string, string>;
+}
+
+const makeLayer = ({ files, state, variables }: Services) =>
+	Layer.mergeAll(
+		Layer.succeed(
+			FileSystem.FileSystem,
+			FileSystem.makeNoop({
+				readFileString: (path) => {
+					const content = files.get(path);
+					return content === undefined ? Effect.fail({ _tag: "SystemError" } as never) : Effect.succeed(content);
+				},
+				writeFileString: (path, content) => Effect.sync(() => void files.set(path, content)),
+				remove: (path) => Effect.sync(() => void files.delete(path)),
+			}),
+		),
+		Layer.succeed(ActionState, {
+			save: (key: string, value: unknown) => Effect.sync(() => void state.set(key, value)),
+			getOptional: (key: string) => Effect.succeed(Option.fromNullable(state.get(key))),
+		} as unknown as Context.Tag.Service<typeof ActionState>),
+		Layer.succeed(ActionOutputs, {
+			exportVariable: (name: string, value: string) =>
+				Effect.sync(() => {
+					variables[name] = value;
+				}),
+		} as unknown as Context.Tag.Service<typeof ActionOutputs>),
+	);
+
+const makeServices = (files: Record<string, string> = {}): Services => ({
+	files: new Map(Object.entries(files)),
+	state: new Map(),
+	variables: {},
+});
+
+// biome-ignore lint/suspicious/noExplicitAny: services are provided by makeLayer
+const run = <A, E>(effect: Effect.Effect<A, E, any>, services: Services) =>
+	Effect.runPromise(
+		Effect.exit(
+			(effect as Effect.Effect<A, E, never>).pipe(
+				Effect.provide(makeLayer(services)),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	);
+
+const readConfig = (inputs: Record<string, string>) =>
+	Effect.runPromise(
+		Effect.exit(
+			readRegistryConfig.pipe(Effect.withConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(inputs))))),
+		),
+	);
+
+// ---------------------------------------------------------------------------
+// readRegistryConfig
+// ---------------------------------------------------------------------------
+
+describe("readRegistryConfig", () => {
+	it("returns None without registry-url", async () => {
+		expect(await readConfig({ scope: "@my-org" })).toEqual(Exit.succeed(Option.none()));
+	});
+
+	it("normalizes the URL and scope", async () => {
+		const exit = await readConfig({ "registry-url": "https://verdaccio.example/npm", scope: "@My-Org" });
+
+		expect(exit).toEqual(
+			Exit.succeed(Option.some({ url: "https://verdaccio.example/npm/", scope: "my-org", alwaysAuth: false })),
+		);
+	});
+
+	it("defaults the scope to the repository owner for GitHub Packages", async () => {
+		process.env.GITHUB_REPOSITORY_OWNER = "Savvy-Web";
+
+		expect(await readConfig({ "registry-url": "https://npm.pkg.github.com", "always-auth": "true" })).toEqual(
+			Exit.succeed(Option.some({ url: "https://npm.pkg.github.com/", scope: "savvy-web", alwaysAuth: true })),
+		);
+		expect(await readConfig({ "registry-url": "https://verdaccio.example" })).toEqual(
+			Exit.succeed(Option.some({ url: "https://verdaccio.example/", scope: undefined, alwaysAuth: false })),
+		);
+	});
+
+	it("fails with ConfigError for an invalid URL", async () => {
+		const exit = await readConfig({ "registry-url": "not a url" });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect((exit.cause.error as ConfigError).reason).toContain("Invalid registry-url");
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Config file contents
+// ---------------------------------------------------------------------------
+
+describe("renderNpmrc", () => {
+	it("maps the scope to the registry and references the token variable", () => {
+		expect(renderNpmrc(GITHUB)).toBe(
+			`//npm.pkg.github.com/:_authToken=${TOKEN_REF}\n@my-org:registry=https://npm.pkg.github.com/\n`,
+		);
+	});
+
+	it("replaces the default registry without a scope", () => {
+		expect(renderNpmrc(VERDACCIO)).toBe(
+			`//verdaccio.example/npm/:_authToken=${TOKEN_REF}\nregistry=https://verdaccio.example/npm/\nalways-auth=true\n`,
+		);
+	});
+});
+
+describe("renderYarnrc", () => {
+	it("writes npmScopes for a scope", () => {
+		expect(renderYarnrc(GITHUB)).toBe(
+			[
+				"npmScopes:",
+				"  my-org:",
+				'    npmRegistryServer: "https://npm.pkg.github.com/"',
+				`    npmAuthToken: "${TOKEN_REF}"`,
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("writes top-level settings without a scope", () => {
+		expect(renderYarnrc(VERDACCIO)).toBe(
+			[
+				'npmRegistryServer: "https://verdaccio.example/npm/"',
+				`npmAuthToken: "${TOKEN_REF}"`,
+				"npmAlwaysAuth: true",
+				"",
+			].join("\n"),
+		);
+	});
+});
+
+describe("renderBunfig", () => {
+	it("writes install.scopes for a scope and install.registry without one", () => {
+		expect(renderBunfig(GITHUB)).toBe(
+			'[install.scopes]\n"my-org" = { url = "https://npm.pkg.github.com/", token = "$NODE_AUTH_TOKEN" }\n',
+		);
+		expect(renderBunfig(VERDACCIO)).toBe(
+			'[install]\nregistry = { url = "https://verdaccio.example/npm/", token = "$NODE_AUTH_TOKEN" }\n',
+		);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// configureRegistry / restoreRegistryConfig
+// ---------------------------------------------------------------------------
+
+describe("configureRegistry", () => {
+	it("appends to an existing .npmrc once for npm and pnpm projects", async () => {
+		const services = makeServices({ [NPMRC]: "fund=false" });
+
+		const exit = await run(
+			configureRegistry(GITHUB, [
+				{ name: "npm", version: "11.6.2" },
+				{ name: "pnpm", version: "10.20.0" },
+			]),
+			services,
+		);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(services.files.get(NPMRC)).toBe(`fund=false\n${renderNpmrc(GITHUB)}`);
+		expect(services.state.get("REGISTRY_STATE")).toEqual({ files: [{ path: NPMRC, original: "fund=false" }] });
+	});
+
+	it("writes .yarnrc.yml for Yarn 2+ and .npmrc for Yarn 1", async () => {
+		const berry = makeServices();
+		await run(configureRegistry(GITHUB, [{ name: "yarn", version: "4.10.3" }]), berry);
+		expect([...berry.files.keys()]).toEqual([YARNRC]);
+		expect(berry.files.get(YARNRC)).toBe(renderYarnrc(GITHUB));
+
+		const classic = makeServices();
+		await run(configureRegistry(GITHUB, [{ name: "yarn", version: "1.22.22" }]), classic);
+		expect([...classic.files.keys()]).toEqual([NPMRC]);
+	});
+
+	it("replaces .bunfig.toml for Bun", async () => {
+		const services = makeServices({ [BUNFIG]: "[install]\nexact = true\n" });
+
+		await run(configureRegistry(GITHUB, [{ name: "bun", version: "1.3.3" }]), services);
+
+		expect(services.files.get(BUNFIG)).toBe(renderBunfig(GITHUB));
+		expect(services.state.get("REGISTRY_STATE")).toEqual({
+			files: [{ path: BUNFIG, original: "[install]\nexact = true\n" }],
+		});
+	});
+
+	it("exports NPM_CONFIG_REGISTRY for Deno without a scope", async () => {
+		const services = makeServices();
+
+		await run(configureRegistry(VERDACCIO, [{ name: "deno", version: "2.5.6" }]), services);
+
+		expect(services.files.get(NPMRC)).toBe(renderNpmrc(VERDACCIO));
+		expect(services.variables.NPM_CONFIG_REGISTRY).toBe("https://verdaccio.example/npm/");
+	});
+
+	it("exports a token placeholder only when NODE_AUTH_TOKEN is unset", async () => {
+		const unset = makeServices();
+		await run(configureRegistry(GITHUB, [{ name: "npm", version: "11.6.2" }]), unset);
+		expect(unset.variables).toEqual({ NODE_AUTH_TOKEN: "XXXXX-XXXXX-XXXXX-XXXXX" });
+
+		process.env.NODE_AUTH_TOKEN = "secret";
+		const set = makeServices();
+		await run(configureRegistry(GITHUB, [{ name: "npm", version: "11.6.2" }]), set);
+		expect(set.variables).toEqual({});
+		expect(set.files.get(NPMRC)).not.toContain("secret");
+	});
+});
+
+describe("restoreRegistryConfig", () => {
+	it("restores replaced files and removes created ones", async () => {
+		const services = makeServices({ [BUNFIG]: "[install]\nexact = true\n" });
+		await run(
+			configureRegistry(GITHUB, [
+				{ name: "bun", version: "1.3.3" },
+				{ name: "npm", version: "11.6.2" },
+			]),
+			services,
+		);
+
+		const exit = await run(restoreRegistryConfig(), services);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(Object.fromEntries(services.files)).toEqual({ [BUNFIG]: "[install]\nexact = true\n" });
+	});
+
+	it("does nothing when no registry was configured", async () => {
+		const services = makeServices({ [NPMRC]: "fund=false" });
+
+		expect(Exit.isSuccess(await run(restoreRegistryConfig(), services))).toBe(true);
+		expect(services.files.get(NPMRC)).toBe("fund=false");
+	});
+});
@@ -1,10 +1,24 @@
+import { createHash } from "node:crypto";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSystem, HttpClient, HttpClientResponse } from "@effect/platform";
 import { ActionOutputs, CommandRunner, ToolInstaller } from "@savvy-web/github-action-effects";
 import type { Context } from "effect";
-import { Data, Effect, Exit, Layer, Logger, Option } from "effect";
+import { ConfigProvider, Data, Effect, Exit, Layer, Logger, Option, Sink } from "effect";
 import { describe, expect, it } from "vitest";
-import { RuntimeInstallError } from "../src/errors.js";
-import type { RuntimeDescriptor } from "../src/runtime-installer.js";
-import { makeRuntimeInstaller } from "../src/runtime-installer.js";
+import { descriptor as deno } from "../src/descriptors/deno.js";
+import { descriptor as node } from "../src/descriptors/node.js";
+import { ChecksumMismatchError, RuntimeInstallError } from "../src/errors.js";
+import type { RawBinaryDescriptor, RuntimeDescriptor } from "../src/runtime-installer.js";
+import {
+	expandUrlTemplate,
+	makeRawBinaryInstaller,
+	makeRuntimeInstaller,
+	rawBinaryDescriptors,
+	standaloneDescriptor,
+	toolDescriptor,
+	versionMatches,
+} from "../src/runtime-installer.js";
 
 // ---------------------------------------------------------------------------
 // Error types (local stubs — not imported from the real package)
@@ -57,8 +71,10 @@ interface CommandResponse {
 // ---------------------------------------------------------------------------
 
 const makeTestToolInstaller = (state: ToolInstallerTestState) => ({
-	find: (_tool: string, _version: string) => Effect.succeed(Option.none<string>()),
-	download: (_url: string) => Effect.succeed("/tmp/downloaded-file"),
+	find: (tool: string, version: string) =>
+		Effect.succeed(
+			state.cached.has(`${tool}@${version}`) ? Option.some(`/tools/${tool}/${version}`) : Option.none<string>(),
+		),
 	extractTar: (_file: string) => Effect.succeed("/tmp/extracted"),
 	extractZip: (_file: string) => Effect.succeed("/tmp/extracted"),
 	cacheDir: (_sourceDir: string, tool: string, version: string) => {
@@ -157,6 +173,27 @@ const CommandRunnerTest = {
 		Layer.succeed(CommandRunner, makeTestRunner(new Map()) as unknown as Context.Tag.Service<typeof CommandRunner>),
 };
 
+// ---------------------------------------------------------------------------
+// Download stand-ins — every download serves the bytes of "archive"
+// ---------------------------------------------------------------------------
+
+const ARCHIVE_BYTES = new TextEncoder().encode("archive");
+
+const DownloadTest = Layer.mergeAll(
+	Layer.succeed(
+		HttpClient.HttpClient,
+		HttpClient.make((request) => Effect.succeed(HttpClientResponse.fromWeb(request, new Response(ARCHIVE_BYTES)))),
+	),
+	Layer.succeed(
+		FileSystem.FileSystem,
+		FileSystem.makeNoop({
+			makeTempDirectory: () => Effect.succeed("/tmp/download"),
+			sink: () => Sink.drain,
+			readFile: () => Effect.succeed(ARCHIVE_BYTES),
+		}),
+	),
+);
+
 // ---------------------------------------------------------------------------
 // Test descriptor (node-like)
 // ---------------------------------------------------------------------------
@@ -187,6 +224,7 @@ const runInstall = (version: string, descriptor: RuntimeDescriptor, testLayer: L
 						| Context.Tag.Identifier<typeof ActionOutputs>
 					>,
 				),
+				Effect.provide(DownloadTest),
 				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
 			),
 	);
@@ -206,6 +244,7 @@ const runInstallExit = (version: string, descriptor: RuntimeDescriptor, testLaye
 							| Context.Tag.Identifier<typeof ActionOutputs>
 						>,
 					),
+					Effect.provide(DownloadTest),
 					Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
 				),
 		),
@@ -231,6 +270,7 @@ describe("makeRuntimeInstaller", () => {
 			expect(result.name).toBe("node");
 			expect(result.version).toBe("24.11.0");
 			expect(result.path).toContain("/tools/node/24.11.0");
+			expect(result.source).toBe("download");
 		});
 
 		it("records cacheDir call and addPath in test state", async () => {
@@ -264,21 +304,310 @@ describe("makeRuntimeInstaller", () => {
 		});
 	});
 
+	describe("version check", () => {
+		const versionedDescriptor: RuntimeDescriptor = {
+			...nodeTestDescriptor,
+			parseVersionOutput: node.parseVersionOutput,
+		};
+
+		const makeVersionLayer = (responses: ReadonlyMap<string, CommandResponse>) => {
+			const toolState = ToolInstallerTest.empty();
+			return Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.layer(responses),
+				makeOutputsLayer(toolState),
+			) as Layer.Layer<never>;
+		};
+
+		it("passes when the binary reports the installed version", async () => {
+			const layer = makeVersionLayer(new Map([["node --version", { exitCode: 0, stdout: "v24.11.0\n", stderr: "" }]]));
+
+			const result = await runInstall("24.11.0", versionedDescriptor, layer);
+
+			expect(result.version).toBe("24.11.0");
+		});
+
+		it("fails naming the binary on PATH when another version answers", async () => {
+			const layer = makeVersionLayer(
+				new Map([
+					["node --version", { exitCode: 0, stdout: "v22.1.0\n", stderr: "" }],
+					["which node", { exitCode: 0, stdout: "/usr/local/bin/node\n", stderr: "" }],
+					["where node", { exitCode: 0, stdout: "C:\\node\\node.exe\r\n", stderr: "" }],
+				]),
+			);
+
+			const exit = await runInstallExit("24.11.0", versionedDescriptor, layer);
+
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+				const err = exit.cause.error as RuntimeInstallError;
+				expect(err).toBeInstanceOf(RuntimeInstallError);
+				expect(err.reason).toContain('"node" reports version 22.1.0, but 24.11.0 was installed');
+				expect(err.reason).toMatch(/resolves to (\/usr\/local\/bin\/node|C:\\node\\node\.exe);/);
+			}
+		});
+
+		it("skips the check when the output has no version", async () => {
+			const layer = makeVersionLayer(new Map([["node --version", { exitCode: 0, stdout: "", stderr: "" }]]));
+
+			const result = await runInstall("24.11.0", versionedDescriptor, layer);
+
+			expect(result.version).toBe("24.11.0");
+		});
+	});
+
+	describe("prepare and activate", () => {
+		it("prepare caches the runtime without touching PATH; activate adds it and verifies", async () => {
+			const toolState = ToolInstallerTest.empty();
+			const ran: Array<string> = [];
+			const runner = makeTestRunner(new Map());
+			const testLayer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				Layer.succeed(CommandRunner, {
+					...runner,
+					execCapture: (command: string, args: ReadonlyArray<string> = []) => {
+						ran.push(makeKey(command, args));
+						return runner.execCapture(command, args);
+					},
+				} as unknown as Context.Tag.Service<typeof CommandRunner>),
+				makeOutputsLayer(toolState),
+			);
+			const installer = makeRuntimeInstaller(nodeTestDescriptor);
+
+			const prepared = await Effect.runPromise(
+				installer
+					.prepare("24.11.0")
+					.pipe(
+						Effect.provide(testLayer),
+						Effect.provide(DownloadTest),
+						Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+					),
+			);
+			expect(toolState.installed).toHaveLength(1);
+			expect(toolState.addedToPaths).toEqual([]);
+			expect(ran).toEqual([]);
+
+			const active = await Effect.runPromise(installer.activate(prepared).pipe(Effect.provide(testLayer)));
+			expect(active).toEqual(prepared);
+			expect(toolState.addedToPaths).toEqual([prepared.path]);
+			expect(ran).toEqual(["node --version"]);
+		});
+	});
+
+	describe.runIf(process.platform === "linux")("install on musl (Alpine)", () => {
+		const AlpineFileSystem = Layer.succeed(
+			FileSystem.FileSystem,
+			FileSystem.makeNoop({
+				exists: (path) => Effect.succeed(path === "/etc/alpine-release"),
+				makeTempDirectory: () => Effect.succeed("/tmp/download"),
+				sink: () => Sink.drain,
+				readFile: () => Effect.succeed(ARCHIVE_BYTES),
+			}),
+		);
+
+		const muslTestDescriptor: RuntimeDescriptor = {
+			...nodeTestDescriptor,
+			getDownloadUrl: (version, platform, arch, _baseUrl, libc) =>
+				`https://example.test/node-v${version}-${platform}-${arch}${libc === "musl" ? "-musl" : ""}.tar.gz`,
+		};
+
+		it("installs the musl build under its own tool cache name, ignoring cached glibc builds", async () => {
+			const toolState = ToolInstallerTest.empty();
+			toolState.cached.add("node@24.11.0");
+			const testLayer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.empty(),
+				makeOutputsLayer(toolState),
+				AlpineFileSystem,
+			);
+
+			const result = await runInstall("24.11.0", muslTestDescriptor, testLayer as Layer.Layer<never>);
+
+			expect(result.source).toBe("download");
+			expect(result.path).toBe("/tools/node-musl/24.11.0/bin");
+			expect(toolState.installed).toEqual([
+				{ name: "node-musl", version: "24.11.0", path: "/tools/node-musl/24.11.0" },
+			]);
+		});
+
+		it("downloads Node.js musl builds from node-musl-mirror, never from node-mirror", async () => {
+			const muslFile = `node-v24.11.0-linux-${process.arch}-musl.tar.gz`;
+			const archiveHash = createHash("sha256").update("archive").digest("hex");
+			const installFrom = async (inputs: Record<string, string>) => {
+				const requested: Array<string> = [];
+				const toolState = ToolInstallerTest.empty();
+				const layer = Layer.mergeAll(
+					ToolInstallerTest.layer(toolState),
+					CommandRunnerTest.empty(),
+					makeOutputsLayer(toolState),
+					AlpineFileSystem,
+					Layer.succeed(
+						HttpClient.HttpClient,
+						HttpClient.make((request) => {
+							requested.push(request.url);
+							return Effect.succeed(HttpClientResponse.fromWeb(request, new Response(`${archiveHash}  ${muslFile}\n`)));
+						}),
+					),
+					Layer.setConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(inputs)))),
+				);
+				await runInstall("24.11.0", node, layer as Layer.Layer<never>);
+				return requested;
+			};
+
+			expect(await installFrom({ "node-mirror": "https://artifactory.example/nodejs" })).toEqual([
+				`https://unofficial-builds.nodejs.org/download/release/v24.11.0/${muslFile}`,
+				"https://unofficial-builds.nodejs.org/download/release/v24.11.0/SHASUMS256.txt",
+			]);
+			expect(
+				await installFrom({
+					"node-mirror": "https://artifactory.example/nodejs",
+					"node-musl-mirror": "https://artifactory.example/nodejs-unofficial",
+				}),
+			).toEqual([
+				`https://artifactory.example/nodejs-unofficial/v24.11.0/${muslFile}`,
+				"https://artifactory.example/nodejs-unofficial/v24.11.0/SHASUMS256.txt",
+			]);
+		});
+
+		it("fails with a clear error for runtimes without a musl build", async () => {
+			const toolState = ToolInstallerTest.empty();
+			const testLayer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.empty(),
+				makeOutputsLayer(toolState),
+				AlpineFileSystem,
+			);
+
+			const exit = await runInstallExit("2.5.6", deno, testLayer as Layer.Layer<never>);
+
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+				const error = exit.cause.error as RuntimeInstallError;
+				expect(error).toBeInstanceOf(RuntimeInstallError);
+				expect(error.reason).toContain("Deno publishes no musl builds");
+			}
+		});
+	});
+
+	describe("install with a build variant", () => {
+		it("renames the variant's executable and caches it under its own name", async () => {
+			const toolState = ToolInstallerTest.empty();
+			toolState.cached.add("bun@1.3.3");
+			const renamed: Array<[string, string]> = [];
+			const variantDescriptor: RuntimeDescriptor = {
+				name: "bun",
+				getDownloadUrl: (version, _platform, _arch, _baseUrl, _libc, variant) =>
+					`https://example.test/bun-v${version}/bun-linux-x64-${variant}.zip`,
+				getToolInstallOptions: (_version, _platform, _arch, _libc, variant) => ({
+					archiveType: "zip",
+					binSubPath: `bun-linux-x64-${variant}`,
+					renameExecutable: { from: "bun-profile", to: "bun" },
+				}),
+				resolveVariant: () => Effect.succeed("profile"),
+				verifyCommand: ["bun", "--version"],
+			};
+			const testLayer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.empty(),
+				makeOutputsLayer(toolState),
+				Layer.succeed(
+					FileSystem.FileSystem,
+					FileSystem.makeNoop({
+						makeTempDirectory: () => Effect.succeed("/tmp/download"),
+						sink: () => Sink.drain,
+						readFile: () => Effect.succeed(ARCHIVE_BYTES),
+						rename: (from, to) => {
+							renamed.push([from, to]);
+							return Effect.void;
+						},
+					}),
+				),
+			);
+
+			const result = await runInstall("1.3.3", variantDescriptor, testLayer as Layer.Layer<never>);
+
+			expect(renamed).toEqual([
+				["/tmp/extracted/bun-linux-x64-profile/bun-profile", "/tmp/extracted/bun-linux-x64-profile/bun"],
+			]);
+			expect(result.source).toBe("download");
+			expect(result.path).toBe("/tools/bun-profile/1.3.3/bun-linux-x64-profile");
+		});
+	});
+
+	describe("install reuses tool cache hits", () => {
+		it("skips download and extraction but still adds to PATH and verifies", async () => {
+			const toolState = ToolInstallerTest.empty();
+			toolState.cached.add("node@24.11.0");
+			const cmdResponses = new Map<string, CommandResponse>([
+				["node --version", { exitCode: 0, stdout: "v24.11.0", stderr: "" }],
+			]);
+			const testLayer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.layer(cmdResponses),
+				makeOutputsLayer(toolState),
+			);
+
+			const result = await runInstall("24.11.0", nodeTestDescriptor, testLayer as Layer.Layer<never>);
+
+			expect(result).toEqual({
+				name: "node",
+				version: "24.11.0",
+				path: "/tools/node/24.11.0/bin",
+				source: "tool-cache",
+			});
+			expect(toolState.installed).toHaveLength(0);
+			expect(toolState.addedToPaths).toEqual(["/tools/node/24.11.0/bin"]);
+		});
+
+		it("fails when the cached runtime does not run", async () => {
+			const toolState = ToolInstallerTest.empty();
+			toolState.cached.add("node@24.11.0");
+			const testLayer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.layer(new Map([["node --version", { exitCode: 1, stdout: "", stderr: "broken" }]])),
+				makeOutputsLayer(toolState),
+			);
+
+			const exit = await runInstallExit("24.11.0", nodeTestDescriptor, testLayer as Layer.Layer<never>);
+
+			expect(Exit.isFailure(exit)).toBe(true);
+		});
+
+		it("downloads when the tool cache lookup fails", async () => {
+			const toolState = ToolInstallerTest.empty();
+			const testLayer = Layer.mergeAll(
+				Layer.succeed(ToolInstaller, {
+					...makeTestToolInstaller(toolState),
+					find: () =>
+						Effect.fail(
+							new ToolInstallerError({ tool: "node", version: "24.11.0", operation: "path", reason: "boom" }),
+						),
+				} as unknown as Context.Tag.Service<typeof ToolInstaller>),
+				CommandRunnerTest.empty(),
+				makeOutputsLayer(toolState),
+			);
+
+			const result = await runInstall("24.11.0", nodeTestDescriptor, testLayer as Layer.Layer<never>);
+
+			expect(result.source).toBe("download");
+			expect(toolState.installed).toHaveLength(1);
+		});
+	});
+
 	describe("install wraps ToolInstallerError as RuntimeInstallError", () => {
-		it("fails with RuntimeInstallError when ToolInstaller.download fails", async () => {
+		it("fails with RuntimeInstallError when ToolInstaller.extractTar fails", async () => {
 			const toolState = ToolInstallerTest.empty();
 			const failingToolInstaller = {
 				find: () => Effect.succeed(Option.none()),
-				download: () =>
+				extractTar: () =>
 					Effect.fail(
 						new ToolInstallerError({
 							tool: "node",
 							version: "24.11.0",
-							operation: "download",
-							reason: "Network error",
+							operation: "extract",
+							reason: "Corrupt archive",
 						}),
 					),
-				extractTar: () => Effect.succeed("/tmp/extracted"),
 				extractZip: () => Effect.succeed("/tmp/extracted"),
 				cacheDir: () => Effect.succeed("/tools/node/24.11.0"),
 				cacheFile: () => Effect.succeed("/tools/node/24.11.0"),
@@ -298,8 +627,35 @@ describe("makeRuntimeInstaller", () => {
 				expect(err).toBeInstanceOf(RuntimeInstallError);
 				expect(err.runtime).toBe("node");
 				expect(err.version).toBe("24.11.0");
-				expect(err.reason).toContain("Network error");
+				expect(err.reason).toContain("Corrupt archive");
+			}
+		});
+	});
+
+	describe("install fails fast when the version does not exist", () => {
+		it("fails with RuntimeInstallError carrying the 404 hint", async () => {
+			const toolState = ToolInstallerTest.empty();
+			const testLayer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.empty(),
+				makeOutputsLayer(toolState),
+				Layer.succeed(
+					HttpClient.HttpClient,
+					HttpClient.make((request) =>
+						Effect.succeed(HttpClientResponse.fromWeb(request, new Response(null, { status: 404 }))),
+					),
+				),
+			);
+
+			const exit = await runInstallExit("99.0.0", nodeTestDescriptor, testLayer as Layer.Layer<never>);
+
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+				const err = exit.cause.error as RuntimeInstallError;
+				expect(err).toBeInstanceOf(RuntimeInstallError);
+				expect(err.reason).toContain("node 99.0.0 does not exist");
 			}
+			expect(toolState.installed).toHaveLength(0);
 		});
 	});
 
@@ -327,6 +683,137 @@ describe("makeRuntimeInstaller", () => {
 		});
 	});
 
+	describe("install verifies checksums when the descriptor provides getChecksumUrl", () => {
+		const checksumDescriptor: RuntimeDescriptor = {
+			...nodeTestDescriptor,
+			getChecksumUrl: (version) => `https://nodejs.org/dist/v${version}/SHASUMS256.txt`,
+		};
+
+		const archiveHash = createHash("sha256").update("archive").digest("hex");
+
+		const makeChecksumLayer = (body: string) => {
+			const toolState = ToolInstallerTest.empty();
+			const layer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.empty(),
+				makeOutputsLayer(toolState),
+				Layer.succeed(
+					HttpClient.HttpClient,
+					HttpClient.make((request) => Effect.succeed(HttpClientResponse.fromWeb(request, new Response(body)))),
+				),
+			);
+			return { toolState, layer: layer as Layer.Layer<never> };
+		};
+
+		const fileName = `node-v24.11.0-${process.platform}-${process.arch}.tar.gz`;
+
+		it("installs when the archive matches", async () => {
+			const { toolState, layer } = makeChecksumLayer(`${archiveHash}  ${fileName}\n`);
+
+			await runInstall("24.11.0", checksumDescriptor, layer);
+
+			expect(toolState.installed).toHaveLength(1);
+		});
+
+		it("fails with ChecksumMismatchError before extracting a mismatching archive", async () => {
+			const { toolState, layer } = makeChecksumLayer(`${"0".repeat(64)}  ${fileName}\n`);
+
+			const exit = await runInstallExit("24.11.0", checksumDescriptor, layer);
+
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+				const err = exit.cause.error as ChecksumMismatchError;
+				expect(err).toBeInstanceOf(ChecksumMismatchError);
+				expect(err.tool).toBe("node");
+				expect(err.expected).toBe("0".repeat(64));
+				expect(err.actual).toBe(archiveHash);
+			}
+			expect(toolState.installed).toHaveLength(0);
+		});
+
+		it("falls back to checksums only when verify-signatures is set but no signatures are published", async () => {
+			const { toolState, layer } = makeChecksumLayer(`${archiveHash}  ${fileName}\n`);
+
+			const config = Layer.setConfigProvider(ConfigProvider.fromMap(new Map([["verify-signatures", "true"]])));
+			const installed = await runInstall("24.11.0", checksumDescriptor, Layer.merge(layer, config));
+
+			expect(toolState.installed).toHaveLength(1);
+			expect(installed.signatureFingerprint).toBeUndefined();
+		});
+
+		it("downloads the archive and checksums from the mirror when node-mirror is set", async () => {
+			const requested: Array<string> = [];
+			const toolState = ToolInstallerTest.empty();
+			const layer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.empty(),
+				makeOutputsLayer(toolState),
+				Layer.succeed(
+					HttpClient.HttpClient,
+					HttpClient.make((request) => {
+						requested.push(request.url);
+						return Effect.succeed(HttpClientResponse.fromWeb(request, new Response(`${archiveHash}  ${fileName}\n`)));
+					}),
+				),
+				Layer.setConfigProvider(
+					ConfigProvider.fromMap(new Map([["node-mirror", "https://artifactory.example/nodejs/"]])),
+				),
+			);
+
+			await runInstall("24.11.0", node, layer as Layer.Layer<never>);
+
+			expect(requested).toEqual([
+				`https://artifactory.example/nodejs/v24.11.0/${fileName}`,
+				"https://artifactory.example/nodejs/v24.11.0/SHASUMS256.txt",
+			]);
+			expect(toolState.installed).toHaveLength(1);
+		});
+
+		it("downloads channel builds from upstream even when a mirror is set", async () => {
+			const nightly = "26.0.0-nightly20251019a1b2c3d4e5";
+			const nightlyFile = `node-v${nightly}-${process.platform}-${process.arch}.tar.gz`;
+			const requested: Array<string> = [];
+			const toolState = ToolInstallerTest.empty();
+			const layer = Layer.mergeAll(
+				ToolInstallerTest.layer(toolState),
+				CommandRunnerTest.empty(),
+				makeOutputsLayer(toolState),
+				Layer.succeed(
+					HttpClient.HttpClient,
+					HttpClient.make((request) => {
+						requested.push(request.url);
+						return Effect.succeed(
+							HttpClientResponse.fromWeb(request, new Response(`${archiveHash}  ${nightlyFile}\n`)),
+						);
+					}),
+				),
+				Layer.setConfigProvider(
+					ConfigProvider.fromMap(new Map([["node-mirror", "https://artifactory.example/nodejs/"]])),
+				),
+			);
+
+			await runInstall(nightly, node, layer as Layer.Layer<never>);
+
+			expect(requested).toEqual([
+				`https://nodejs.org/download/nightly/v${nightly}/${nightlyFile}`,
+				`https://nodejs.org/download/nightly/v${nightly}/SHASUMS256.txt`,
+			]);
+		});
+
+		it("fails with RuntimeInstallError when the archive is not listed", async () => {
+			const { layer } = makeChecksumLayer(`${archiveHash}  some-other-file.tar.gz\n`);
+
+			const exit = await runInstallExit("24.11.0", checksumDescriptor, layer);
+
+			expect(Exit.isFailure(exit)).toBe(true);
+			if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+				const err = exit.cause.error as RuntimeInstallError;
+				expect(err).toBeInstanceOf(RuntimeInstallError);
+				expect(err.reason).toContain(`No checksum for ${fileName}`);
+			}
+		});
+	});
+
 	describe("installerLayerFor", () => {
 		it("fails with RuntimeInstallError for unknown runtime name", async () => {
 			const mod = await import("../src/runtime-installer.js");
@@ -368,6 +855,358 @@ describe("makeRuntimeInstaller", () => {
 // extractErrorReason tests
 // ---------------------------------------------------------------------------
 
+describe("makeRawBinaryInstaller", () => {
+	const binaryHash = createHash("sha256").update("archive").digest("hex");
+
+	const rawTestDescriptor: RawBinaryDescriptor = {
+		name: "tool",
+		baseUrl: "https://example.test/releases",
+		urlTemplate: "{baseUrl}/v{version}/{binary}",
+		binaries: { [process.platform]: { [process.arch]: "tool-bin" } },
+		muslSuffix: "-musl",
+		getChecksumUrl: (version) => `https://example.test/releases/v${version}/SHASUMS256.txt`,
+		verifyCommand: ["tool", "--version"],
+		parseVersionOutput: (stdout) => stdout.match(/^tool (\S+)/m)?.[1],
+	};
+
+	const runRaw = (
+		descriptor: RawBinaryDescriptor,
+		toolState: ToolInstallerTestState,
+		responses: ReadonlyMap<string, CommandResponse> = new Map(),
+		inputs: Record<string, string> = {},
+	) => {
+		const requested: Array<string> = [];
+		const chmodded: Array<string> = [];
+		const written: Record<string, string> = {};
+		const cwds: Record<string, string | undefined> = {};
+		const runner = makeTestRunner(responses);
+		const layer = Layer.mergeAll(
+			ToolInstallerTest.layer(toolState),
+			Layer.succeed(CommandRunner, {
+				...runner,
+				execCapture: (command: string, args: ReadonlyArray<string> = [], options?: { readonly cwd?: string }) => {
+					cwds[makeKey(command, args)] = options?.cwd;
+					return runner.execCapture(command, args);
+				},
+			} as unknown as Context.Tag.Service<typeof CommandRunner>),
+			makeOutputsLayer(toolState),
+			Layer.succeed(
+				HttpClient.HttpClient,
+				HttpClient.make((request) => {
+					requested.push(request.url);
+					// A host the runner cannot reach, e.g. the GitHub API behind a proxy
+					if (request.url.startsWith("https://unreachable.example.test/")) {
+						return Effect.succeed(HttpClientResponse.fromWeb(request, new Response(null, { status: 404 })));
+					}
+					const body = request.url.endsWith("SHASUMS256.txt") ? `${binaryHash}  tool-bin\n` : ARCHIVE_BYTES;
+					return Effect.succeed(HttpClientResponse.fromWeb(request, new Response(body)));
+				}),
+			),
+			Layer.succeed(
+				FileSystem.FileSystem,
+				FileSystem.makeNoop({
+					makeTempDirectory: () => Effect.succeed("/tmp/download"),
+					sink: () => Sink.drain,
+					readFile: () => Effect.succeed(ARCHIVE_BYTES),
+					chmod: (path) => {
+						chmodded.push(path);
+						return Effect.void;
+					},
+					writeFileString: (path, content) => {
+						written[path] = content;
+						return Effect.void;
+					},
+				}),
+			),
+			Layer.setConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(inputs)))),
+		);
+		const run = Effect.runPromise(
+			Effect.exit(
+				makeRawBinaryInstaller(descriptor)
+					.install("1.2.3")
+					.pipe(
+						Effect.provide(
+							layer as unknown as Layer.Layer<
+								| Context.Tag.Identifier<typeof ToolInstaller>
+								| Context.Tag.Identifier<typeof CommandRunner>
+								| Context.Tag.Identifier<typeof ActionOutputs>
+								| HttpClient.HttpClient
+								| FileSystem.FileSystem
+							>,
+						),
+						Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+					),
+			),
+		);
+		return run.then((exit) => ({ exit, requested, chmodded, written, cwds }));
+	};
+
+	it("downloads, verifies, caches and activates the binary", async () => {
+		const toolState = ToolInstallerTest.empty();
+
+		const { exit, requested, chmodded } = await runRaw(
+			rawTestDescriptor,
+			toolState,
+			new Map([["tool --version", { exitCode: 0, stdout: "tool 1.2.3\n", stderr: "" }]]),
+		);
+
+		expect(exit).toEqual(
+			Exit.succeed({ name: "tool", version: "1.2.3", path: "/tools/tool/1.2.3", source: "download" }),
+		);
+		expect(requested).toEqual([
+			"https://example.test/releases/v1.2.3/tool-bin",
+			"https://example.test/releases/v1.2.3/SHASUMS256.txt",
+		]);
+		expect(toolState.installed).toEqual([{ name: "tool", version: "1.2.3", path: "/tools/tool/1.2.3" }]);
+		expect(toolState.addedToPaths).toEqual(["/tools/tool/1.2.3"]);
+		if (process.platform !== "win32") {
+			expect(chmodded).toEqual(["/tools/tool/1.2.3/tool"]);
+		}
+	});
+
+	it("reuses a tool cache hit without downloading", async () => {
+		const toolState = ToolInstallerTest.empty();
+		toolState.cached.add("tool@1.2.3");
+
+		const { exit, requested } = await runRaw(rawTestDescriptor, toolState);
+
+		expect(Exit.isSuccess(exit) && exit.value.source).toBe("tool-cache");
+		expect(requested).toEqual([]);
+		expect(toolState.addedToPaths).toEqual(["/tools/tool/1.2.3"]);
+	});
+
+	it("downloads from the <tool>-mirror base URL", async () => {
+		const { requested } = await runRaw({ ...rawTestDescriptor, name: "biome" }, ToolInstallerTest.empty(), new Map(), {
+			"biome-mirror": "https://artifactory.example/biome",
+		});
+
+		expect(requested[0]).toBe("https://artifactory.example/biome/v1.2.3/tool-bin");
+	});
+
+	it("ignores mirrors for tools without a mirror input or a {baseUrl} template", async () => {
+		const inputs = {
+			"tool-mirror": "https://artifactory.example/tool",
+			"biome-mirror": "https://artifactory.example/biome",
+		};
+
+		const undeclared = await runRaw(rawTestDescriptor, ToolInstallerTest.empty(), new Map(), inputs);
+		expect(undeclared.requested[0]).toBe("https://example.test/releases/v1.2.3/tool-bin");
+
+		const urlTool = { ...rawTestDescriptor, name: "biome", urlTemplate: "https://example.test/dl/{version}/{binary}" };
+		const url = await runRaw(urlTool, ToolInstallerTest.empty(), new Map(), inputs);
+		expect(url.requested[0]).toBe("https://example.test/dl/1.2.3/tool-bin");
+	});
+
+	it("verifies mirrored downloads against the upstream checksums", async () => {
+		const descriptor: RawBinaryDescriptor = {
+			...rawTestDescriptor,
+			name: "biome",
+			parseChecksum: () => "0".repeat(64),
+		};
+
+		const { exit, requested } = await runRaw(descriptor, ToolInstallerTest.empty(), new Map(), {
+			"biome-mirror": "https://artifactory.example/biome",
+		});
+
+		expect(requested).toEqual([
+			"https://artifactory.example/biome/v1.2.3/tool-bin",
+			"https://example.test/releases/v1.2.3/SHASUMS256.txt",
+		]);
+		expect(Exit.isFailure(exit) && exit.cause._tag === "Fail" && exit.cause.error).toBeInstanceOf(
+			ChecksumMismatchError,
+		);
+	});
+
+	it("installs unverified when the upstream checksums cannot be fetched behind a mirror", async () => {
+		const toolState = ToolInstallerTest.empty();
+		const descriptor: RawBinaryDescriptor = {
+			...rawTestDescriptor,
+			name: "biome",
+			getChecksumUrl: (version) => `https://unreachable.example.test/v${version}/SHASUMS256.txt`,
+		};
+
+		const { exit } = await runRaw(
+			descriptor,
+			toolState,
+			new Map([["tool --version", { exitCode: 0, stdout: "tool 1.2.3\n", stderr: "" }]]),
+			{ "biome-mirror": "https://artifactory.example/biome" },
+		);
+		const direct = await runRaw(descriptor, ToolInstallerTest.empty());
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(toolState.installed).toEqual([{ name: "biome", version: "1.2.3", path: "/tools/biome/1.2.3" }]);
+		expect(Exit.isFailure(direct.exit)).toBe(true);
+	});
+
+	it("extracts an archive and puts its binSubPath on PATH", async () => {
+		const toolState = ToolInstallerTest.empty();
+		const descriptor: RawBinaryDescriptor = { ...rawTestDescriptor, archiveType: "tar.gz", binSubPath: "bin" };
+
+		const { exit, chmodded } = await runRaw(
+			descriptor,
+			toolState,
+			new Map([["tool --version", { exitCode: 0, stdout: "tool 1.2.3\n", stderr: "" }]]),
+		);
+
+		expect(exit).toEqual(
+			Exit.succeed({ name: "tool", version: "1.2.3", path: join("/tools/tool/1.2.3", "bin"), source: "download" }),
+		);
+		expect(toolState.installed).toEqual([{ name: "tool", version: "1.2.3", path: "/tools/tool/1.2.3" }]);
+		expect(toolState.addedToPaths).toEqual([join("/tools/tool/1.2.3", "bin")]);
+		expect(chmodded).toEqual([]);
+
+		const cached = await runRaw(descriptor, toolState);
+		expect(Exit.isSuccess(cached.exit) && cached.exit.value.path).toBe(join("/tools/tool/1.2.3", "bin"));
+	});
+
+	it("fails with ChecksumMismatchError before caching a mismatching binary", async () => {
+		const toolState = ToolInstallerTest.empty();
+		const descriptor: RawBinaryDescriptor = {
+			...rawTestDescriptor,
+			parseChecksum: () => "0".repeat(64),
+		};
+
+		const { exit } = await runRaw(descriptor, toolState);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ChecksumMismatchError);
+		}
+		expect(toolState.installed).toEqual([]);
+	});
+
+	it("fails with RuntimeInstallError on platforms without a binary", async () => {
+		const { exit } = await runRaw({ ...rawTestDescriptor, binaries: {} }, ToolInstallerTest.empty());
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			const error = exit.cause.error as RuntimeInstallError;
+			expect(error).toBeInstanceOf(RuntimeInstallError);
+			expect(error.reason).toBe(`Unsupported platform for tool: ${process.platform}-${process.arch}`);
+		}
+	});
+
+	it("caches a script next to a launcher that runs it with node", async () => {
+		const toolState = ToolInstallerTest.empty();
+		const descriptor: RawBinaryDescriptor = {
+			...rawTestDescriptor,
+			binaries: {},
+			script: true,
+			getChecksumUrl: undefined,
+		};
+
+		const { exit, requested, written } = await runRaw(
+			descriptor,
+			toolState,
+			new Map([["tool --version", { exitCode: 0, stdout: "tool 1.2.3\n", stderr: "" }]]),
+		);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		expect(requested[0]).toBe("https://example.test/releases/v1.2.3/tool.js");
+		expect(toolState.addedToPaths).toEqual(["/tools/tool/1.2.3"]);
+		if (process.platform === "win32") {
+			expect(written).toEqual({ [join("/tools/tool/1.2.3", "tool.cmd")]: '@node "%~dp0tool.js" %*\r\n' });
+		} else {
+			expect(written).toEqual({ "/tools/tool/1.2.3/tool": '#!/bin/sh\nexec node "$(dirname "$0")/tool.js" "$@"\n' });
+		}
+	});
+
+	it("fails when the binary on PATH reports another version", async () => {
+		const { exit } = await runRaw(
+			rawTestDescriptor,
+			ToolInstallerTest.empty(),
+			new Map([["tool --version", { exitCode: 0, stdout: "tool 1.0.0\n", stderr: "" }]]),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect((exit.cause.error as RuntimeInstallError).reason).toContain('"tool" reports version 1.0.0');
+		}
+	});
+
+	it("runs the verify command from tmpdir when verifyFromTmpdir is set", async () => {
+		const responses = new Map([["tool --version", { exitCode: 0, stdout: "tool 1.2.3\n", stderr: "" }]]);
+
+		const project = await runRaw(rawTestDescriptor, ToolInstallerTest.empty(), responses);
+		const isolated = await runRaw(
+			{ ...rawTestDescriptor, verifyFromTmpdir: true },
+			ToolInstallerTest.empty(),
+			responses,
+		);
+
+		expect(project.cwds["tool --version"]).toBeUndefined();
+		expect(Exit.isSuccess(isolated.exit)).toBe(true);
+		expect(isolated.cwds["tool --version"]).toBe(tmpdir());
+	});
+});
+
+describe("standaloneDescriptor", () => {
+	it("installs pnpm's standalone executables", () => {
+		expect(standaloneDescriptor("pnpm", "10.20.0").name).toBe("pnpm");
+		expect(standaloneDescriptor("pnpm", "10.20.0").script).toBeUndefined();
+		expect(standaloneDescriptor("pnpm", "10.20.0").verifyFromTmpdir).toBe(true);
+	});
+
+	it("picks the Yarn release bundle of the version's generation", () => {
+		const berry = standaloneDescriptor("yarn", "4.10.3");
+		const classic = standaloneDescriptor("yarn", "1.22.22");
+
+		expect(berry.script).toBe(true);
+		expect(expandUrlTemplate(berry.urlTemplate, { baseUrl: berry.baseUrl, version: "4.10.3" })).toBe(
+			"https://repo.yarnpkg.com/4.10.3/packages/yarnpkg-cli/bin/yarn.js",
+		);
+		expect(expandUrlTemplate(classic.urlTemplate, { baseUrl: classic.baseUrl, version: "1.22.22" })).toBe(
+			"https://github.com/yarnpkg/yarn/releases/download/v1.22.22/yarn-1.22.22.js",
+		);
+	});
+});
+
+describe("toolDescriptor", () => {
+	it("returns the built-in descriptor for a tool without a url", () => {
+		expect(toolDescriptor({ name: "biome", version: "2.3.8" })).toBe(rawBinaryDescriptors.biome);
+		expect(toolDescriptor({ name: "typos", version: "1.38.1" })).toBeUndefined();
+	});
+
+	it("builds a descriptor from the url, binaries and checksumUrl templates", () => {
+		const descriptor = toolDescriptor({
+			name: "shfmt",
+			version: "3.12.0",
+			url: "https://example.test/v{version}/{binary}",
+			binaries: { [process.platform]: { [process.arch]: "shfmt-asset" } },
+			checksumUrl: "https://example.test/v{version}/{binary}.sha256",
+		});
+
+		expect(descriptor?.urlTemplate).toBe("https://example.test/v{version}/{binary}");
+		expect(descriptor?.binaries[process.platform]?.[process.arch]).toBe("shfmt-asset");
+		expect(descriptor?.getChecksumUrl?.("3.12.0")).toBe("https://example.test/v3.12.0/shfmt-asset.sha256");
+		expect(descriptor?.verifyCommand).toEqual(["shfmt", "--version"]);
+		expect(descriptor?.parseVersionOutput?.("v3.12.0\n")).toBe("3.12.0");
+	});
+
+	it("passes the archive type, binSubPath and verifyCommand through", () => {
+		const descriptor = toolDescriptor({
+			name: "typos",
+			version: "1.38.1",
+			url: "https://example.test/v{version}/{binary}",
+			binaries: { [process.platform]: { [process.arch]: "typos-v1.38.1.tar.gz" } },
+			archive: "tar.gz",
+			binSubPath: "typos-{version}",
+			verifyCommand: ["typos", "-V"],
+		});
+
+		expect(descriptor?.archiveType).toBe("tar.gz");
+		expect(descriptor?.binSubPath).toBe("typos-1.38.1");
+		expect(descriptor?.verifyCommand).toEqual(["typos", "-V"]);
+	});
+
+	it("uses the tool name as {binary} without a binaries map", () => {
+		const descriptor = toolDescriptor({ name: "dprint", version: "0.50.2", url: "https://example.test/{binary}" });
+
+		expect(descriptor?.binaries[process.platform]?.[process.arch]).toBe("dprint");
+		expect(descriptor?.getChecksumUrl).toBeUndefined();
+	});
+});
+
 describe("extractErrorReason", () => {
 	it("extracts reason from object with reason field", async () => {
 		const mod = await import("../src/runtime-installer.js");
@@ -440,3 +1279,22 @@ describe("formatCauseDetail", () => {
 		expect(mod.formatCauseDetail({ cause: undefined })).toBeUndefined();
 	});
 });
+
+// ---------------------------------------------------------------------------
+// versionMatches
+// ---------------------------------------------------------------------------
+
+describe("versionMatches", () => {
+	it("compares the release part and ignores build metadata", () => {
+		expect(versionMatches("1.3.3", "1.3.3+b1c2d3e4f")).toBe(true);
+		expect(versionMatches("26.0.0-rc.1", "26.0.0-rc.1")).toBe(true);
+		expect(versionMatches("24.11.0", "24.10.0")).toBe(false);
+	});
+
+	it("matches canary build ids by commit prefix", () => {
+		const canary = "canary-3f8d2c1b9a7e6d5c4b3a29180f7e6d5c4b3a2918";
+		expect(versionMatches(canary, "1.3.4-canary.45+3f8d2c1b9")).toBe(true);
+		expect(versionMatches(canary, "1.3.4-canary.44+0a1b2c3d4")).toBe(false);
+		expect(versionMatches(canary, "1.3.3")).toBe(false);
+	});
+});
@@ -1,8 +1,17 @@
 import { Either, Schema } from "effect";
 import { describe, expect, it } from "vitest";
-import { AbsoluteVersion, CacheStateSchema, DevEngineEntry, DevEngines } from "../src/schemas.js";
+import {
+	AbsoluteVersion,
+	CacheStateSchema,
+	DevEngineEntry,
+	DevEngines,
+	Integrity,
+	UrlTemplate,
+	VersionSpec,
+} from "../src/schemas.js";
 
 const decodeAbsoluteVersion = Schema.decodeUnknownEither(AbsoluteVersion);
+const decodeVersionSpec = Schema.decodeUnknownEither(VersionSpec);
 const decodeDevEngineEntry = Schema.decodeUnknownEither(DevEngineEntry);
 const decodeDevEngines = Schema.decodeUnknownEither(DevEngines);
 const decodeCacheState = Schema.decodeUnknownEither(CacheStateSchema);
@@ -53,6 +62,65 @@ describe("AbsoluteVersion", () => {
 	});
 });
 
+describe("VersionSpec", () => {
+	it("accepts absolute versions", () => {
+		expect(Either.isRight(decodeVersionSpec("24.11.0"))).toBe(true);
+	});
+
+	it("accepts semver ranges", () => {
+		for (const range of ["^24", "~24.1.0", ">=22 <25", "24.x", "*"]) {
+			expect(Either.isRight(decodeVersionSpec(range))).toBe(true);
+		}
+	});
+
+	it("accepts version aliases", () => {
+		for (const alias of ["latest", "lts/*", "lts/jod"]) {
+			expect(Either.isRight(decodeVersionSpec(alias))).toBe(true);
+		}
+	});
+
+	it("rejects empty and invalid specs", () => {
+		expect(Either.isLeft(decodeVersionSpec(""))).toBe(true);
+		expect(Either.isLeft(decodeVersionSpec("not-a-version"))).toBe(true);
+		expect(Either.isLeft(decodeVersionSpec("lts/"))).toBe(true);
+	});
+});
+
+describe("Integrity", () => {
+	it("accepts corepack hashes", () => {
+		for (const hash of ["sha512.cf9998222162dd85", "sha224.953c8233f7a9288460"]) {
+			expect(Schema.is(Integrity)(hash)).toBe(true);
+		}
+	});
+
+	it("rejects other formats", () => {
+		for (const hash of [
+			"cf9998222162dd85",
+			"md5.cf9998",
+			"sha512-z4PhNX7vuL3xVChQ1m2AB9Yg5AULVxXcg/SpIdNs6c5H0NE8XYXysP+DGNKHfuwvY7kxvUdBeoGlODJ6+SfaPg==",
+		]) {
+			expect(Schema.is(Integrity)(hash)).toBe(false);
+		}
+	});
+});
+
+describe("UrlTemplate", () => {
+	it("accepts absolute URL templates", () => {
+		for (const template of [
+			"https://github.com/rhysd/actionlint/releases/download/v{version}/{binary}",
+			"https://dl.example.com/{platform}-{arch}/tool-{version}",
+		]) {
+			expect(Schema.is(UrlTemplate)(template)).toBe(true);
+		}
+	});
+
+	it("rejects relative and malformed URLs", () => {
+		for (const template of ["releases/v{version}/{binary}", "/v{version}/{binary}", "https://[github.com/{binary}"]) {
+			expect(Schema.is(UrlTemplate)(template)).toBe(false);
+		}
+	});
+});
+
 describe("DevEngineEntry", () => {
 	describe("valid entries", () => {
 		it("accepts minimal entry with name and version", () => {
@@ -72,8 +140,13 @@ describe("DevEngineEntry", () => {
 	});
 
 	describe("invalid entries", () => {
-		it("rejects entry with semver range version", () => {
-			const result = decodeDevEngineEntry({ name: "node", version: "^24.0.0" });
+		it("rejects entry with invalid version", () => {
+			const result = decodeDevEngineEntry({ name: "node", version: "twenty-four" });
+			expect(Either.isLeft(result)).toBe(true);
+		});
+
+		it("rejects entry with unknown onFail value", () => {
+			const result = decodeDevEngineEntry({ name: "node", version: "24.11.0", onFail: "explode" });
 			expect(Either.isLeft(result)).toBe(true);
 		});
 
@@ -115,6 +188,17 @@ describe("DevEngines", () => {
 			expect(Either.isRight(result)).toBe(true);
 		});
 
+		it("accepts version ranges and aliases", () => {
+			const result = decodeDevEngines({
+				runtime: [
+					{ name: "node", version: "lts/*" },
+					{ name: "bun", version: "^1.3" },
+				],
+				packageManager: { name: "pnpm", version: "10.x" },
+			});
+			expect(Either.isRight(result)).toBe(true);
+		});
+
 		it("accepts entries with onFail field", () => {
 			const result = decodeDevEngines({
 				runtime: { name: "node", version: "24.11.0", onFail: "error" },
@@ -142,14 +226,14 @@ describe("DevEngines", () => {
 		it("rejects invalid version in packageManager", () => {
 			const result = decodeDevEngines({
 				runtime: { name: "node", version: "24.11.0" },
-				packageManager: { name: "pnpm", version: "^10.0.0" },
+				packageManager: { name: "pnpm", version: "ten" },
 			});
 			expect(Either.isLeft(result)).toBe(true);
 		});
 
 		it("rejects invalid version in runtime", () => {
 			const result = decodeDevEngines({
-				runtime: { name: "node", version: "~24.0.0" },
+				runtime: { name: "node", version: "lts/" },
 				packageManager: { name: "pnpm", version: "10.20.0" },
 			});
 			expect(Either.isLeft(result)).toBe(true);
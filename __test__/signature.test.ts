@@ -0,0 +1,202 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { HttpClient, HttpClientResponse } from "@effect/platform";
+import { Effect, Exit, Layer, Logger } from "effect";
+import type { PrivateKey } from "openpgp";
+import { createMessage, generateKey, readKey, readPrivateKey, sign } from "openpgp";
+import { beforeAll, describe, expect, it } from "vitest";
+import { SignatureVerificationError } from "../src/errors.js";
+import { NODE_RELEASE_KEY_BLOCKS } from "../src/node-release-key-blocks.js";
+import { NODE_RELEASE_KEYRING } from "../src/node-release-keys.js";
+import type { SigningKeyring } from "../src/signature.js";
+import { candidateFingerprints, normalizeFingerprint, verifyChecksumSignature } from "../src/signature.js";
+
+// ---------------------------------------------------------------------------
+// Throwaway release keys and an HttpClient stand-in serving signatures
+// ---------------------------------------------------------------------------
+
+interface TestKey {
+	readonly privateKey: PrivateKey;
+	readonly armoredPublicKey: string;
+	readonly fingerprint: string;
+}
+
+const makeKey = async (name: string): Promise<TestKey> => {
+	const { privateKey, publicKey } = await generateKey({
+		type: "ecc",
+		curve: "curve25519Legacy",
+		userIDs: [{ name }],
+		format: "armored",
+	});
+	const key = await readPrivateKey({ armoredKey: privateKey });
+	return { privateKey: key, armoredPublicKey: publicKey, fingerprint: normalizeFingerprint(key.getFingerprint()) };
+};
+
+const signDetached = async (data: Uint8Array, key: TestKey): Promise<Uint8Array> =>
+	(await sign({
+		message: await createMessage({ binary: data }),
+		signingKeys: key.privateKey,
+		detached: true,
+		format: "binary",
+	})) as Uint8Array;
+
+const SHASUMS = new TextEncoder().encode("0eb3e36b  node-v24.11.0-linux-x64.tar.gz\n");
+const SIGNATURE_URL = "https://nodejs.org/dist/v24.11.0/SHASUMS256.txt.sig";
+
+const makeHttpLayer = (files: Record<string, Uint8Array | string>) =>
+	Layer.succeed(
+		HttpClient.HttpClient,
+		HttpClient.make((request) => {
+			const body = files[request.url];
+			return Effect.succeed(
+				HttpClientResponse.fromWeb(
+					request,
+					body === undefined ? new Response(null, { status: 404 }) : new Response(body),
+				),
+			);
+		}),
+	);
+
+const runVerify = (keyring: SigningKeyring, files: Record<string, Uint8Array | string>, data = SHASUMS) =>
+	Effect.runPromise(
+		Effect.exit(
+			verifyChecksumSignature({
+				tool: "node",
+				version: "24.11.0",
+				data,
+				source: { url: SIGNATURE_URL, keyring },
+			}).pipe(Effect.provide(makeHttpLayer(files)), Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none))),
+		),
+	);
+
+let releaser: TestKey;
+let stranger: TestKey;
+
+beforeAll(async () => {
+	releaser = await makeKey("Releaser");
+	stranger = await makeKey("Stranger");
+});
+
+// ---------------------------------------------------------------------------
+// candidateFingerprints
+// ---------------------------------------------------------------------------
+
+describe("candidateFingerprints", () => {
+	const pins = ["C0D6248439F1D5604AAFFB4021D900FFDB233756", "8FCCA13FEF1D0C2E91008E09770F7A9A5AE15600"];
+
+	it("keeps the pins whose long key ID issued the signature", () => {
+		expect(candidateFingerprints(pins, ["21d900ffdb233756"])).toEqual([pins[0]]);
+	});
+
+	it("falls back to every pin for subkey signatures", () => {
+		expect(candidateFingerprints(pins, ["0123456789abcdef"])).toEqual(pins);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// verifyChecksumSignature
+// ---------------------------------------------------------------------------
+
+describe("verifyChecksumSignature", () => {
+	it("returns the fingerprint of the pinned key that signed the document", async () => {
+		const keyring = {
+			fingerprints: [stranger.fingerprint, releaser.fingerprint],
+			armoredKeys: [releaser.armoredPublicKey],
+		};
+		const exit = await runVerify(keyring, { [SIGNATURE_URL]: await signDetached(SHASUMS, releaser) });
+
+		expect(exit).toEqual(Exit.succeed(releaser.fingerprint));
+	});
+
+	it("fails when the document was modified after signing", async () => {
+		const keyring = { fingerprints: [releaser.fingerprint], armoredKeys: [releaser.armoredPublicKey] };
+		const exit = await runVerify(
+			keyring,
+			{ [SIGNATURE_URL]: await signDetached(SHASUMS, releaser) },
+			new TextEncoder().encode("ffffffff  node-v24.11.0-linux-x64.tar.gz\n"),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(SignatureVerificationError);
+			expect(exit.cause.error.reason).toContain("was not made by a pinned release key");
+		}
+	});
+
+	it("fails when the signer is not pinned", async () => {
+		const keyring = { fingerprints: [releaser.fingerprint], armoredKeys: [releaser.armoredPublicKey] };
+		const exit = await runVerify(keyring, { [SIGNATURE_URL]: await signDetached(SHASUMS, stranger) });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.reason).toContain(stranger.fingerprint.slice(-16));
+		}
+	});
+
+	it("does not trust a bundled key that is not pinned", async () => {
+		const keyring = {
+			fingerprints: [releaser.fingerprint],
+			armoredKeys: ["not a key", stranger.armoredPublicKey, releaser.armoredPublicKey],
+		};
+		const exit = await runVerify(keyring, { [SIGNATURE_URL]: await signDetached(SHASUMS, stranger) });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(SignatureVerificationError);
+		}
+	});
+
+	it("fails when no key is bundled for the pin", async () => {
+		const keyring = { fingerprints: [releaser.fingerprint], armoredKeys: [] };
+		const exit = await runVerify(keyring, { [SIGNATURE_URL]: await signDetached(SHASUMS, releaser) });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.reason).toContain("was not made by a pinned release key");
+		}
+	});
+
+	it("fails when the signature cannot be fetched", async () => {
+		const exit = await runVerify(
+			{ fingerprints: [releaser.fingerprint], armoredKeys: [releaser.armoredPublicKey] },
+			{},
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.reason).toContain("Failed to fetch signature");
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Bundled Node.js release keyring
+// ---------------------------------------------------------------------------
+
+const SIGNATURE_FIXTURES_DIR = join(import.meta.dirname, "..", "__fixtures__", "node-release-signature");
+
+// The keys and the signature fixture are written by .github/scripts/update-node-release-keys.sh
+describe.runIf(NODE_RELEASE_KEY_BLOCKS.length > 0)("NODE_RELEASE_KEYRING", () => {
+	it("bundles one key per pinned fingerprint", async () => {
+		const fingerprints = await Promise.all(
+			NODE_RELEASE_KEYRING.armoredKeys.map(async (armoredKey) =>
+				normalizeFingerprint((await readKey({ armoredKey })).getFingerprint()),
+			),
+		);
+
+		expect(fingerprints).toEqual(NODE_RELEASE_KEYRING.fingerprints.map(normalizeFingerprint));
+	});
+
+	it("verifies a real SHASUMS256.txt signature", async () => {
+		const exit = await runVerify(
+			NODE_RELEASE_KEYRING,
+			{ [SIGNATURE_URL]: new Uint8Array(readFileSync(join(SIGNATURE_FIXTURES_DIR, "SHASUMS256.txt.sig"))) },
+			new Uint8Array(readFileSync(join(SIGNATURE_FIXTURES_DIR, "SHASUMS256.txt"))),
+		);
+
+		expect(Exit.isSuccess(exit)).toBe(true);
+		if (Exit.isSuccess(exit)) {
+			expect(NODE_RELEASE_KEYRING.fingerprints).toContain(exit.value);
+		}
+	});
+});
@@ -0,0 +1,345 @@
+import { access, readFile } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import { join } from "node:path";
+import type { HttpClient } from "@effect/platform";
+import { FetchHttpClient } from "@effect/platform";
+import { Effect, Exit, Logger, Option } from "effect";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { descriptor as bun } from "../src/descriptors/bun.js";
+import { descriptor as deno } from "../src/descriptors/deno.js";
+import { descriptor as node } from "../src/descriptors/node.js";
+import { VersionResolutionError } from "../src/errors.js";
+import type { ReleaseIndex } from "../src/version-resolver.js";
+import {
+	isExactVersion,
+	nextPageUrl,
+	packageManagerReleaseIndex,
+	parsePackument,
+	pickVersion,
+	resolveChannel,
+	resolvePackageManagerEntry,
+	resolveRuntimeEntry,
+	resolveVersion,
+	runtimeReleaseIndex,
+} from "../src/version-resolver.js";
+
+// ---------------------------------------------------------------------------
+// Stand-in HTTP server serving release index fixtures
+// ---------------------------------------------------------------------------
+
+const FIXTURES_DIR = join(import.meta.dirname, "..", "__fixtures__", "release-indexes");
+
+let server: Server;
+let baseUrl: string;
+const requestedPaths: string[] = [];
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		requestedPaths.push(req.url ?? "");
+		const path = (req.url ?? "").replace(/^\//, "");
+		// `<name>-page-<n>.json` fixtures link to the next page when it exists, like the GitHub API
+		const nextPage = path.replace(/-page-(\d+)\.json$/, (_, n) => `-page-${Number(n) + 1}.json`);
+		readFile(join(FIXTURES_DIR, path), "utf-8")
+			.then(async (body) => {
+				const hasNext =
+					nextPage !== path &&
+					(await access(join(FIXTURES_DIR, nextPage)).then(
+						() => true,
+						() => false,
+					));
+				res.writeHead(200, {
+					"Content-Type": "application/json",
+					...(hasNext ? { Link: `<${baseUrl}/${nextPage}>; rel="next", <${baseUrl}/${nextPage}>; rel="last"` } : {}),
+				});
+				res.end(body);
+			})
+			.catch(() => {
+				res.writeHead(404);
+				res.end();
+			});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const runResolve = (tool: string, spec: string, index: ReleaseIndex) =>
+	Effect.runPromise(
+		Effect.exit(
+			resolveVersion(tool, spec, index).pipe(
+				Effect.provide(FetchHttpClient.layer),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	);
+
+const runChannel = (tool: string, spec: string, path: string, parse: (body: string) => string | undefined) =>
+	Effect.runPromise(
+		Effect.exit(
+			resolveChannel(tool, spec, { url: `${baseUrl}/${path}`, parse }).pipe(
+				Effect.provide(FetchHttpClient.layer),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		),
+	);
+
+const nodeIndex = (): ReleaseIndex => ({ urls: [`${baseUrl}/node-index.json`], parse: node.parseReleaseIndex });
+
+// ---------------------------------------------------------------------------
+// pickVersion
+// ---------------------------------------------------------------------------
+
+describe("pickVersion", () => {
+	const releases = node.parseReleaseIndex([
+		{ version: "v25.1.0", lts: false },
+		{ version: "v24.11.1", lts: "Krypton" },
+		{ version: "v24.10.0", lts: false },
+		{ version: "v22.21.1", lts: "Jod" },
+		{ version: "v26.0.0-rc.1", lts: false },
+	]);
+
+	it("resolves caret ranges to the highest match", () => {
+		expect(pickVersion("^24", releases)).toEqual(Option.some("24.11.1"));
+	});
+
+	it("resolves compound ranges", () => {
+		expect(pickVersion(">=22 <25", releases)).toEqual(Option.some("24.11.1"));
+	});
+
+	it("resolves x-ranges", () => {
+		expect(pickVersion("24.10.x", releases)).toEqual(Option.some("24.10.0"));
+	});
+
+	it("resolves latest to the highest stable release", () => {
+		expect(pickVersion("latest", releases)).toEqual(Option.some("25.1.0"));
+	});
+
+	it("resolves lts/* to the highest LTS release", () => {
+		expect(pickVersion("lts/*", releases)).toEqual(Option.some("24.11.1"));
+	});
+
+	it("resolves lts/<codename> case-insensitively", () => {
+		expect(pickVersion("lts/jod", releases)).toEqual(Option.some("22.21.1"));
+	});
+
+	it("returns None when nothing satisfies the range", () => {
+		expect(Option.isNone(pickVersion("^18", releases))).toBe(true);
+	});
+
+	it("returns None for lts/* when the index has no LTS data", () => {
+		expect(Option.isNone(pickVersion("lts/*", [{ version: "1.3.3" }]))).toBe(true);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// isExactVersion / parsePackument
+// ---------------------------------------------------------------------------
+
+describe("nextPageUrl", () => {
+	it("reads the next page from a GitHub Link header", () => {
+		const link =
+			'<https://api.github.com/repositories/1/releases?per_page=100&page=1>; rel="prev", <https://api.github.com/repositories/1/releases?per_page=100&page=3>; rel="next"';
+
+		expect(nextPageUrl(link)).toBe("https://api.github.com/repositories/1/releases?per_page=100&page=3");
+		expect(nextPageUrl('<https://api.github.com/x?page=1>; rel="first"')).toBeUndefined();
+		expect(nextPageUrl(undefined)).toBeUndefined();
+	});
+});
+
+describe("isExactVersion", () => {
+	it("is true for absolute versions", () => {
+		expect(isExactVersion("24.11.0")).toBe(true);
+	});
+
+	it("is false for ranges and aliases", () => {
+		expect(isExactVersion("^24")).toBe(false);
+		expect(isExactVersion("lts/*")).toBe(false);
+	});
+});
+
+describe("parsePackument", () => {
+	it("lists the keys of the versions object", () => {
+		expect(parsePackument({ versions: { "1.0.0": {}, "2.0.0": {} } })).toEqual([
+			{ version: "1.0.0" },
+			{ version: "2.0.0" },
+		]);
+	});
+
+	it("returns an empty list for malformed documents", () => {
+		expect(parsePackument(null)).toEqual([]);
+		expect(parsePackument({ versions: "nope" })).toEqual([]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Release index selection
+// ---------------------------------------------------------------------------
+
+describe("release index selection", () => {
+	it("uses the descriptor index for runtimes", () => {
+		expect(runtimeReleaseIndex("node").urls).toEqual(["https://nodejs.org/dist/index.json"]);
+	});
+
+	it("uses the runtime index for bun and deno package managers", () => {
+		expect(packageManagerReleaseIndex("bun").urls).toEqual(runtimeReleaseIndex("bun").urls);
+		expect(packageManagerReleaseIndex("deno").urls).toEqual(runtimeReleaseIndex("deno").urls);
+	});
+
+	it("uses the npm registry for pnpm", () => {
+		expect(packageManagerReleaseIndex("pnpm").urls).toEqual(["https://registry.npmjs.org/pnpm"]);
+	});
+
+	it("merges Yarn Classic and Berry packages", () => {
+		expect(packageManagerReleaseIndex("yarn").urls).toEqual([
+			"https://registry.npmjs.org/yarn",
+			"https://registry.npmjs.org/@yarnpkg%2Fcli-dist",
+		]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// resolveVersion against the stand-in server
+// ---------------------------------------------------------------------------
+
+describe("resolveVersion", () => {
+	it("returns exact versions without fetching the index", async () => {
+		const before = requestedPaths.length;
+		const exit = await runResolve("node", "24.11.0", nodeIndex());
+
+		expect(exit).toEqual(Exit.succeed("24.11.0"));
+		expect(requestedPaths.length).toBe(before);
+	});
+
+	it("resolves a Node range from index.json", async () => {
+		expect(await runResolve("node", "^24", nodeIndex())).toEqual(Exit.succeed("24.11.1"));
+	});
+
+	it("resolves a Node lts alias from index.json", async () => {
+		expect(await runResolve("node", "lts/iron", nodeIndex())).toEqual(Exit.succeed("20.19.5"));
+	});
+
+	it("resolves a Bun range from the release list, skipping drafts and canary", async () => {
+		const index = { urls: [`${baseUrl}/bun-releases.json`], parse: bun.parseReleaseIndex };
+		expect(await runResolve("bun", "^1.3", index)).toEqual(Exit.succeed("1.3.3"));
+	});
+
+	it("resolves Deno latest from the release list", async () => {
+		const index = { urls: [`${baseUrl}/deno-releases.json`], parse: deno.parseReleaseIndex };
+		expect(await runResolve("deno", "latest", index)).toEqual(Exit.succeed("2.5.6"));
+	});
+
+	it("follows Link pages until a release satisfies the range", async () => {
+		const index = { urls: [`${baseUrl}/deno-paged-page-1.json`], parse: deno.parseReleaseIndex };
+		const before = requestedPaths.length;
+
+		expect(await runResolve("deno", "^1", index)).toEqual(Exit.succeed("1.46.3"));
+		expect(requestedPaths.slice(before)).toEqual(["/deno-paged-page-1.json", "/deno-paged-page-2.json"]);
+	});
+
+	it("stops at the last page when nothing satisfies the range", async () => {
+		const index = { urls: [`${baseUrl}/deno-paged-page-1.json`], parse: deno.parseReleaseIndex };
+		const exit = await runResolve("deno", "^0.1", index);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.reason).toContain("(6 releases checked)");
+		}
+	});
+
+	it("resolves a package manager range from a registry packument", async () => {
+		const index = { urls: [`${baseUrl}/pnpm-packument.json`], parse: parsePackument };
+		expect(await runResolve("pnpm", "10", index)).toEqual(Exit.succeed("10.20.0"));
+	});
+
+	it("fails with VersionResolutionError when nothing satisfies the range", async () => {
+		const exit = await runResolve("node", "^30", nodeIndex());
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(VersionResolutionError);
+			expect(exit.cause.error.reason).toContain('No node release satisfies "^30"');
+		}
+	});
+
+	it("fails with VersionResolutionError when the index cannot be fetched", async () => {
+		const exit = await runResolve("node", "^24", { urls: [`${baseUrl}/missing.json`], parse: node.parseReleaseIndex });
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(VersionResolutionError);
+			expect(exit.cause.error.reason).toContain("Failed to fetch node release index");
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Release channels
+// ---------------------------------------------------------------------------
+
+describe("resolveChannel", () => {
+	it("resolves Node nightly to the newest nightly build", async () => {
+		const exit = await runChannel("node", "nightly", "node-nightly-index.json", node.channels.nightly.parse);
+
+		expect(exit).toEqual(Exit.succeed("26.0.0-nightly20251019a1b2c3d4e5"));
+	});
+
+	it("resolves Bun canary to the commit of the canary tag", async () => {
+		const exit = await runChannel("bun", "canary", "bun-canary-ref.json", bun.channels.canary.parse);
+
+		expect(exit).toEqual(Exit.succeed("canary-3f8d2c1b9a7e6d5c4b3a29180f7e6d5c4b3a2918"));
+	});
+
+	it("resolves Deno canary from canary-latest.txt", async () => {
+		const exit = await runChannel("deno", "canary", "deno-canary-latest.txt", deno.channels.canary.parse);
+
+		expect(exit).toEqual(Exit.succeed("canary-9b1c0e4f2d8a7b6c5d4e3f2a1b0c9d8e7f6a5b4c"));
+	});
+
+	it("fails with VersionResolutionError when the build id cannot be read", async () => {
+		const exit = await runChannel("deno", "canary", "node-nightly-index.json", deno.channels.canary.parse);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(VersionResolutionError);
+			expect(exit.cause.error.reason).toContain("Could not read the current deno canary build");
+		}
+	});
+
+	it("fails with VersionResolutionError when the channel cannot be fetched", async () => {
+		const exit = await runChannel("bun", "canary", "missing.json", bun.channels.canary.parse);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.reason).toContain("Failed to fetch bun canary channel");
+		}
+	});
+});
+
+describe("channel specs", () => {
+	const run = <A>(effect: Effect.Effect<A, VersionResolutionError, HttpClient.HttpClient>) =>
+		Effect.runPromise(Effect.exit(effect.pipe(Effect.provide(FetchHttpClient.layer))));
+
+	it("rejects a channel the runtime does not publish, listing those it does", async () => {
+		const exit = await run(resolveRuntimeEntry({ name: "bun", version: "nightly" }));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(VersionResolutionError);
+			expect(exit.cause.error.reason).toBe("bun has no nightly channel; available: canary");
+		}
+	});
+
+	it("rejects channels for package managers without any", async () => {
+		const exit = await run(resolvePackageManagerEntry({ name: "pnpm", version: "canary" }));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error.reason).toBe("pnpm has no canary channel");
+		}
+	});
+});
@@ -0,0 +1,248 @@
+import { readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { FileSystem } from "@effect/platform";
+import { Effect, Exit, Layer, Option } from "effect";
+import { describe, expect, it } from "vitest";
+import { detectDevEngines } from "../src/config.js";
+import { ConfigError } from "../src/errors.js";
+import { BUNDLED_VERSION } from "../src/schemas.js";
+import {
+	normalizeVersion,
+	parseCorepackSpec,
+	parseMiseToml,
+	parseToolVersions,
+	parseVersionFile,
+} from "../src/version-sources.js";
+
+// ---------------------------------------------------------------------------
+// Fixture-backed FileSystem: serves the files of __fixtures__/version-sources/<name>
+// ---------------------------------------------------------------------------
+
+const FIXTURES_DIR = join(import.meta.dirname, "..", "__fixtures__", "version-sources");
+
+const makeFixtureLayer = (fixture: string): Layer.Layer<FileSystem.FileSystem> => {
+	const dir = join(FIXTURES_DIR, fixture);
+	const files = Object.fromEntries(readdirSync(dir).map((file) => [file, readFileSync(join(dir, file), "utf-8")]));
+
+	return Layer.succeed(
+		FileSystem.FileSystem,
+		FileSystem.makeNoop({
+			readFileString: (path) => {
+				const content = files[path];
+				if (content === undefined) {
+					return Effect.fail(
+						new (class extends Error {
+							readonly _tag = "SystemError";
+							readonly reason = "NotFound";
+						})() as never,
+					);
+				}
+				return Effect.succeed(content);
+			},
+		}),
+	);
+};
+
+const detect = (fixture: string) => Effect.runPromise(Effect.provide(detectDevEngines(), makeFixtureLayer(fixture)));
+
+// ---------------------------------------------------------------------------
+// Parsers
+// ---------------------------------------------------------------------------
+
+describe("normalizeVersion", () => {
+	it("strips a leading v", () => {
+		expect(normalizeVersion("v24.11.0")).toBe("24.11.0");
+	});
+
+	it("maps nvm aliases", () => {
+		expect(normalizeVersion("node")).toBe("latest");
+		expect(normalizeVersion("stable")).toBe("latest");
+		expect(normalizeVersion("lts")).toBe("lts/*");
+	});
+
+	it("keeps ranges and lts codenames", () => {
+		expect(normalizeVersion(" >=22 ")).toBe(">=22");
+		expect(normalizeVersion("lts/jod")).toBe("lts/jod");
+	});
+});
+
+describe("parseCorepackSpec", () => {
+	it("splits off the integrity hash", () => {
+		expect(parseCorepackSpec("pnpm@10.20.0+sha512.abc")).toEqual(
+			Option.some({ name: "pnpm", version: "10.20.0", integrity: "sha512.abc" }),
+		);
+	});
+
+	it("parses specs without a hash", () => {
+		expect(parseCorepackSpec("yarn@4.6.0")).toEqual(Option.some({ name: "yarn", version: "4.6.0" }));
+	});
+
+	it("rejects unknown package managers and malformed specs", () => {
+		expect(Option.isNone(parseCorepackSpec("cnpm@1.0.0"))).toBe(true);
+		expect(Option.isNone(parseCorepackSpec("pnpm"))).toBe(true);
+	});
+});
+
+describe("parseVersionFile", () => {
+	it("returns the first non-comment line", () => {
+		expect(parseVersionFile("# pinned\n\n24.11.0\n")).toEqual(Option.some("24.11.0"));
+	});
+
+	it("returns None for empty files", () => {
+		expect(Option.isNone(parseVersionFile("\n# nothing\n"))).toBe(true);
+	});
+});
+
+describe("parseToolVersions", () => {
+	it("maps asdf tool names and takes the first version", () => {
+		expect(parseToolVersions("nodejs 24.11.0 22.21.1\npython 3.12.0\npnpm 10.20.0 # pinned\n")).toEqual({
+			node: "24.11.0",
+			pnpm: "10.20.0",
+		});
+	});
+});
+
+describe("parseMiseToml", () => {
+	it("reads strings, arrays and inline tables from [tools]", () => {
+		const toml = [
+			"[env]",
+			'node = "ignored"',
+			"[tools]",
+			'node = "24"',
+			'yarn = { version = "4.6.0" }',
+			'bun = ["1.3.3", "1.2.0"]',
+			'python = "3.12"',
+		].join("\n");
+
+		expect(parseMiseToml(toml)).toEqual({ node: "24", yarn: "4.6.0", bun: "1.3.3" });
+	});
+});
+
+// ---------------------------------------------------------------------------
+// detectDevEngines against fixtures
+// ---------------------------------------------------------------------------
+
+describe("detectDevEngines fallback chain", () => {
+	it("uses the corepack packageManager field and engines.node", async () => {
+		const result = await detect("package-manager-field");
+
+		expect(result.devEngines.packageManager).toEqual({
+			name: "pnpm",
+			version: "10.20.0",
+			integrity:
+				"sha512.cf9998222162dd85864d0a8102e7892e7ba4ceadebbf5a31f9c2fce48dfce317a9c53b9f6464d1ef9042cba2e02ae02a9f7c143a2b438cd93c91840f0192b9dd",
+		});
+		expect(result.devEngines.runtime).toEqual([{ name: "node", version: ">=24" }]);
+		expect(result.sources).toEqual({ node: "engines.node", pnpm: "packageManager" });
+	});
+
+	it("reads .nvmrc and falls back to the bundled npm", async () => {
+		const result = await detect("nvmrc");
+
+		expect(result.devEngines.runtime).toEqual([{ name: "node", version: "24.11.0" }]);
+		expect(result.devEngines.packageManager).toEqual({ name: "npm", version: BUNDLED_VERSION });
+		expect(result.sources).toEqual({ node: ".nvmrc", npm: "bundled" });
+	});
+
+	it("reads .node-version", async () => {
+		const result = await detect("node-version");
+
+		expect(result.devEngines.runtime).toEqual([{ name: "node", version: "lts/jod" }]);
+		expect(result.sources.node).toBe(".node-version");
+	});
+
+	it("reads runtimes and package managers from .tool-versions", async () => {
+		const result = await detect("tool-versions");
+
+		expect(result.devEngines.runtime).toEqual([{ name: "node", version: "24.11.0" }]);
+		expect(result.devEngines.packageManager).toEqual({ name: "pnpm", version: "10.20.0" });
+		expect(result.sources).toEqual({ node: ".tool-versions", pnpm: ".tool-versions" });
+	});
+
+	it("uses Bun as its own package manager for .bun-version", async () => {
+		const result = await detect("bun-version");
+
+		expect(result.devEngines.runtime).toEqual([{ name: "bun", version: "1.3.3" }]);
+		expect(result.devEngines.packageManager).toEqual({ name: "bun", version: "1.3.3" });
+		expect(result.sources).toEqual({ bun: ".bun-version" });
+	});
+
+	it("uses Deno as its own package manager for .dvmrc", async () => {
+		const result = await detect("dvmrc");
+
+		expect(result.devEngines.runtime).toEqual([{ name: "deno", version: "2.5.6" }]);
+		expect(result.devEngines.packageManager).toEqual({ name: "deno", version: "2.5.6" });
+	});
+
+	it("reads mise.toml", async () => {
+		const result = await detect("mise");
+
+		expect(result.devEngines.runtime).toEqual([
+			{ name: "node", version: "24" },
+			{ name: "bun", version: "1.3.3" },
+		]);
+		expect(result.devEngines.packageManager).toEqual({ name: "yarn", version: "4.6.0" });
+		expect(result.sources).toEqual({ node: "mise.toml", bun: "mise.toml", yarn: "mise.toml" });
+	});
+
+	it("applies precedence per tool", async () => {
+		const result = await detect("precedence");
+
+		expect(result.devEngines.runtime).toEqual([
+			{ name: "node", version: "^24" },
+			{ name: "deno", version: "2.5.6" },
+		]);
+		expect(result.devEngines.packageManager).toEqual({ name: "pnpm", version: "10.20.0" });
+		expect(result.sources).toEqual({ node: "engines.node", deno: ".dvmrc", pnpm: ".tool-versions" });
+	});
+
+	it("sets up the Bun runtime for a bun packageManager field", async () => {
+		const result = await detect("bun-package-manager");
+
+		expect(result.devEngines.runtime).toEqual([{ name: "bun", version: "1.3.3" }]);
+		expect(result.devEngines.packageManager).toEqual({ name: "bun", version: "1.3.3" });
+		expect(result.sources).toEqual({ bun: "packageManager" });
+	});
+
+	it("fails with ConfigError naming the sources when no runtime is declared", async () => {
+		const exit = await Effect.runPromise(Effect.exit(Effect.provide(detectDevEngines(), makeFixtureLayer("none"))));
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.reason).toContain("No runtime version found");
+			expect(exit.cause.error.reason).toContain(".nvmrc");
+		}
+	});
+});
+
+describe("detectDevEngines for Deno-first projects", () => {
+	it("reads devEngines.runtime from deno.json and uses Deno as the package manager", async () => {
+		const result = await detect("deno-json");
+
+		expect(result.devEngines.runtime).toEqual({ name: "deno", version: "^2.5", onFail: "error" });
+		expect(result.devEngines.packageManager).toEqual({ name: "deno", version: "^2.5", onFail: "error" });
+		expect(result.sources).toEqual({ deno: "deno.json" });
+	});
+
+	it("falls back to .dvmrc next to a deno.jsonc", async () => {
+		const result = await detect("deno-jsonc");
+
+		expect(result.devEngines.runtime).toEqual([{ name: "deno", version: "2.5.6" }]);
+		expect(result.devEngines.packageManager).toEqual({ name: "deno", version: "2.5.6" });
+		expect(result.sources).toEqual({ deno: ".dvmrc" });
+	});
+
+	it("fails with ConfigError when deno.json declares no Deno version", async () => {
+		const exit = await Effect.runPromise(
+			Effect.exit(Effect.provide(detectDevEngines(), makeFixtureLayer("deno-no-version"))),
+		);
+
+		expect(Exit.isFailure(exit)).toBe(true);
+		if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+			expect(exit.cause.error).toBeInstanceOf(ConfigError);
+			expect(exit.cause.error.reason).toContain("No Deno version found");
+			expect(exit.cause.error.file).toBe("deno.json");
+		}
+	});
+});
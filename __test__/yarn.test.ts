@@ -0,0 +1,81 @@
+import { FileSystem } from "@effect/platform";
+import { Effect, Layer, Logger } from "effect";
+import { describe, expect, it } from "vitest";
+import { detectYarnProject, parseNodeLinker } from "../src/yarn.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const detect = (version: string, files: Record<string, string> = {}, directory = ".") => {
+	const warnings: Array<string> = [];
+	const logger = Logger.make(({ logLevel, message }) => {
+		if (logLevel._tag === "Warning") warnings.push(String(Array.isArray(message) ? message[0] : message));
+	});
+	return Effect.runPromise(
+		detectYarnProject(version, directory).pipe(
+			Effect.provide(
+				Layer.succeed(
+					FileSystem.FileSystem,
+					FileSystem.makeNoop({
+						readFileString: (path) =>
+							path in files ? Effect.succeed(files[path]) : Effect.fail({ _tag: "SystemError" } as never),
+					}),
+				),
+			),
+			Effect.provide(Logger.replace(Logger.defaultLogger, logger)),
+		),
+	).then((project) => ({ project, warnings }));
+};
+
+// ---------------------------------------------------------------------------
+// parseNodeLinker
+// ---------------------------------------------------------------------------
+
+describe("parseNodeLinker", () => {
+	it("reads the top-level nodeLinker setting", () => {
+		expect(parseNodeLinker("enableTelemetry: false\nnodeLinker: node-modules\n")).toBe("node-modules");
+		expect(parseNodeLinker('nodeLinker: "pnpm" # hoisting\n')).toBe("pnpm");
+	});
+
+	it("returns undefined without the setting", () => {
+		expect(parseNodeLinker("yarnPath: .yarn/releases/yarn-4.10.3.cjs\n")).toBeUndefined();
+		expect(parseNodeLinker("packageExtensions:\n  nodeLinker: pnp\n")).toBeUndefined();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// detectYarnProject
+// ---------------------------------------------------------------------------
+
+describe("detectYarnProject", () => {
+	it("detects Berry from the version, defaulting to Plug'n'Play", async () => {
+		expect((await detect("4.10.3")).project).toEqual({ flavor: "berry", nodeLinker: "pnp" });
+	});
+
+	it("reads nodeLinker from .yarnrc.yml in the project directory", async () => {
+		const { project } = await detect("4.10.3", { "web/.yarnrc.yml": "nodeLinker: node-modules\n" }, "web");
+
+		expect(project).toEqual({ flavor: "berry", nodeLinker: "node-modules" });
+	});
+
+	it("detects Classic from a 1.x version", async () => {
+		const { project, warnings } = await detect("1.22.22");
+
+		expect(project).toEqual({ flavor: "classic", nodeLinker: "node-modules" });
+		expect(warnings).toEqual([]);
+	});
+
+	it("warns that Classic ignores .yarnrc.yml", async () => {
+		const { project, warnings } = await detect("1.22.22", { ".yarnrc.yml": "nodeLinker: pnp\n" });
+
+		expect(project.flavor).toBe("classic");
+		expect(warnings).toHaveLength(1);
+		expect(warnings[0]).toContain("ignored by Yarn 1.22.22");
+	});
+
+	it("falls back to .yarnrc.yml when the version has no major number", async () => {
+		expect((await detect("canary", { ".yarnrc.yml": "" })).project.flavor).toBe("berry");
+		expect((await detect("canary")).project.flavor).toBe("classic");
+	});
+});
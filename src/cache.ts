@@ -1,12 +1,15 @@
 import { createHash } from "node:crypto";
 import { homedir, platform, tmpdir } from "node:os";
-import { join } from "node:path";
+import { isAbsolute, join } from "node:path";
 import { FileSystem } from "@effect/platform";
 import { ActionCache, ActionEnvironment, ActionState, CommandRunner } from "@savvy-web/github-action-effects";
 import { Effect, Option } from "effect";
 import { CacheError } from "./errors.js";
+import { detectLibc, toolCacheName } from "./libc.js";
+import { runtimeDescriptors } from "./runtime-installer.js";
 import type { PackageManagerName } from "./schemas.js";
 import { CacheStateSchema } from "./schemas.js";
+import type { YarnProject } from "./yarn.js";
 
 /**
  * Supported package managers for caching.
@@ -72,15 +75,19 @@ export const getDefaultCachePaths = (pm: PackageManager): string[] => {
 /* v8 ignore stop */
 
 /**
- * Lockfile glob patterns per package manager.
+ * Lockfile glob patterns per package manager. For a Yarn project of known
+ * flavor, only the files that flavor reads: Classic has just `yarn.lock`,
+ * Berry also `.yarnrc.yml`, whose `nodeLinker` decides what gets installed.
  */
-export const getLockfilePatterns = (pm: PackageManager): string[] => {
+export const getLockfilePatterns = (pm: PackageManager, yarn?: YarnProject): string[] => {
 	switch (pm) {
 		case "npm":
 			return ["**/package-lock.json", "**/npm-shrinkwrap.json"];
 		case "pnpm":
 			return ["**/pnpm-lock.yaml", "**/pnpm-workspace.yaml", "**/.pnpmfile.cjs"];
 		case "yarn":
+			if (yarn?.flavor === "classic") return ["**/yarn.lock"];
+			if (yarn?.flavor === "berry") return ["**/yarn.lock", "**/.yarnrc.yml"];
 			return ["**/yarn.lock", "**/.pnp.cjs", "**/.yarn/install-state.gz"];
 		case "bun":
 			return ["**/bun.lock", "**/bun.lockb"];
@@ -91,13 +98,22 @@ export const getLockfilePatterns = (pm: PackageManager): string[] => {
 
 /**
  * Gets additional dependency paths beyond the global cache directory.
+ * For a Yarn project of known flavor, only what its linker writes: Classic and
+ * Berry's `node-modules` / `pnpm` linkers fill `node_modules`, while Plug'n'Play
+ * keeps packages in `.yarn/cache` and `.yarn/unplugged`.
  */
-const getAdditionalPaths = (pm: PackageManager): string[] => {
+export const getAdditionalPaths = (pm: PackageManager, yarn?: YarnProject): string[] => {
 	switch (pm) {
 		case "npm":
 		case "pnpm":
 			return ["**/node_modules"];
 		case "yarn":
+			if (yarn?.flavor === "classic") return ["**/node_modules"];
+			if (yarn?.flavor === "berry") {
+				return yarn.nodeLinker === "pnp"
+					? ["**/.yarn/cache", "**/.yarn/unplugged", "**/.yarn/install-state.gz"]
+					: ["**/node_modules", "**/.yarn/cache", "**/.yarn/install-state.gz"];
+			}
 			return ["**/node_modules", "**/.yarn/cache", "**/.yarn/unplugged", "**/.yarn/install-state.gz"];
 		case "bun":
 			return ["**/node_modules"];
@@ -107,23 +123,37 @@ const getAdditionalPaths = (pm: PackageManager): string[] => {
 };
 
 /**
- * Gets tool cache paths for specific runtimes.
+ * Gets tool cache paths for runtimes and raw binary tools, under the same names
+ * (libc and build variant included) the installers cache them with.
  * Tool cache is at /opt/hostedtoolcache on Linux/macOS, C:\\hostedtoolcache on Windows.
  */
-const getToolCachePaths = (runtimes: ReadonlyArray<{ name: string; version: string }>): string[] => {
-	const plat = platform();
-	const toolCacheBase =
-		process.env.RUNNER_TOOL_CACHE ?? (plat === "win32" ? "C:\\hostedtoolcache" : "/opt/hostedtoolcache");
-	const paths: string[] = [];
-
-	for (const { name, version } of runtimes) {
-		if (name === "node" || name === "bun" || name === "deno" || name === "biome") {
-			paths.push(join(toolCacheBase, name, version));
+const getToolCachePaths = (runtimes: ReadonlyArray<{ name: string; version: string }>) =>
+	Effect.gen(function* () {
+		const plat = platform();
+		const toolCacheBase =
+			process.env.RUNNER_TOOL_CACHE ?? (plat === "win32" ? "C:\\hostedtoolcache" : "/opt/hostedtoolcache");
+		const libc = yield* detectLibc;
+		const paths: string[] = [];
+
+		for (const { name, version } of runtimes) {
+			// Runtimes may have build variants; Biome and workflowRuntime.tools are raw binaries without any
+			const resolveVariant =
+				name === "node" || name === "bun" || name === "deno" ? runtimeDescriptors[name].resolveVariant : undefined;
+			const variant = resolveVariant
+				? yield* resolveVariant(plat, process.arch).pipe(Effect.orElseSucceed(() => "default"))
+				: "default";
+			paths.push(join(toolCacheBase, toolCacheName(name, libc, variant), version));
 		}
-	}
 
-	return paths;
-};
+		return paths;
+	});
+
+/**
+ * Resolves relative cache paths and globs against the working directory.
+ * Absolute paths (global caches, tool cache) are returned unchanged.
+ */
+export const resolveWorkingPaths = (paths: ReadonlyArray<string>, workingDirectory: string): string[] =>
+	paths.map((p) => (isAbsolute(p) || p.startsWith("~") ? p : join(workingDirectory, p)));
 
 /**
  * Sorts paths with absolute paths first, then glob patterns, for readability.
@@ -203,15 +233,17 @@ export const detectCachePath = (pm: PackageManager) =>
 
 /**
  * Gets cache config (paths + lockfile patterns) for a single package manager.
+ * `yarn` lists the detected Yarn projects; their paths and patterns are combined.
  */
-export const getCacheConfig = (pm: PackageManager) =>
+export const getCacheConfig = (pm: PackageManager, yarn: ReadonlyArray<YarnProject> = []) =>
 	Effect.gen(function* () {
 		const detected = yield* detectCachePath(pm).pipe(Effect.orElse(() => Effect.succeed(null)));
+		const yarnProjects = pm === "yarn" && yarn.length > 0 ? yarn : [undefined];
 
 		const globalCachePaths = detected ? [detected] : getDefaultCachePaths(pm);
-		const additionalPaths = getAdditionalPaths(pm);
+		const additionalPaths = new Set(yarnProjects.flatMap((project) => getAdditionalPaths(pm, project)));
 		const cachePaths = [...globalCachePaths, ...additionalPaths];
-		const lockfilePatterns = getLockfilePatterns(pm);
+		const lockfilePatterns = [...new Set(yarnProjects.flatMap((project) => getLockfilePatterns(pm, project)))];
 
 		return { cachePaths, lockfilePatterns } satisfies CacheConfig;
 	});
@@ -223,19 +255,20 @@ export const getCacheConfig = (pm: PackageManager) =>
 export const getCombinedCacheConfig = (
 	pms: PackageManager[],
 	runtimes: ReadonlyArray<{ name: string; version: string }> = [],
+	yarn: ReadonlyArray<YarnProject> = [],
 ) =>
 	Effect.gen(function* () {
 		const cachePathsSet = new Set<string>();
 		const lockfilePatternsSet = new Set<string>();
 
 		for (const pm of pms) {
-			const config = yield* getCacheConfig(pm);
+			const config = yield* getCacheConfig(pm, yarn);
 			for (const p of config.cachePaths) cachePathsSet.add(p);
 			for (const p of config.lockfilePatterns) lockfilePatternsSet.add(p);
 		}
 
 		// Add tool cache paths for runtimes
-		for (const p of getToolCachePaths(runtimes)) {
+		for (const p of yield* getToolCachePaths(runtimes)) {
 			cachePathsSet.add(p);
 		}
 
@@ -248,16 +281,18 @@ export const getCombinedCacheConfig = (
 /**
  * Finds lockfiles matching glob patterns using fast-glob.
  * Supports simple filenames and glob patterns. Excludes node_modules and .git.
+ * Patterns are matched inside `workingDirectory`; results are prefixed with it.
  */
-export const findLockFiles = (patterns: string[]) =>
+export const findLockFiles = (patterns: string[], workingDirectory = ".") =>
 	Effect.tryPromise({
 		try: async () => {
 			const fg = await import("fast-glob");
 			const matches = await fg.default(patterns, {
+				cwd: workingDirectory,
 				ignore: ["**/node_modules/**", "**/.git/**"],
 				dot: false,
 			});
-			return matches.sort();
+			return matches.map((match) => join(workingDirectory, match)).sort();
 		},
 		catch: () => [] as string[],
 	}).pipe(Effect.catchAll(() => Effect.succeed([] as string[])));
@@ -302,32 +337,50 @@ const getBranchName = Effect.gen(function* () {
 });
 
 /**
- * Builds a deterministic version hash from runtime versions and package manager.
- * Optionally prefixes with cacheBust for test cache isolation.
+ * Package manager(s) hashed into the cache key. Multi-project setups pass one per project.
+ */
+type PackageManagerVersions = { name: string; version: string } | ReadonlyArray<{ name: string; version: string }>;
+
+/**
+ * Builds a deterministic version hash from runtime versions and package manager(s).
+ * Optionally prefixes with cacheBust for test cache isolation. A working directory
+ * other than the workspace root is hashed in so per-directory caches don't collide.
  */
 const buildVersionHash = (
 	runtimes: ReadonlyArray<{ name: string; version: string }>,
-	packageManager: { name: string; version: string },
+	packageManager: PackageManagerVersions,
 	cacheBust?: string,
+	workingDirectory = ".",
 ): string => {
 	const hasher = createHash("sha256");
 	if (cacheBust) hasher.update(cacheBust);
+	if (workingDirectory !== ".") hasher.update(`dir:${workingDirectory}`);
 	for (const rt of [...runtimes].sort((a, b) => a.name.localeCompare(b.name))) {
 		hasher.update(`${rt.name}:${rt.version}`);
 	}
-	hasher.update(`${packageManager.name}:${packageManager.version}`);
+	const packageManagers = "name" in packageManager ? [packageManager] : packageManager;
+	for (const pm of new Set(packageManagers.map((p) => `${p.name}:${p.version}`))) {
+		hasher.update(pm);
+	}
 	return hasher.digest("hex").substring(0, 8);
 };
 
+/**
+ * Platform segment of cache keys. musl systems get their own (`linux-musl`) so
+ * caches holding glibc binaries are never restored on Alpine and vice versa.
+ */
+const cachePlatform = detectLibc.pipe(Effect.map((libc) => (libc === "musl" ? `${platform()}-musl` : platform())));
+
 export const generateCacheKey = (
 	runtimes: ReadonlyArray<{ name: string; version: string }>,
-	packageManager: { name: string; version: string },
+	packageManager: PackageManagerVersions,
 	lockfiles: string[],
 	cacheBust?: string,
+	workingDirectory = ".",
 ) =>
 	Effect.gen(function* () {
-		const plat = platform();
-		const versionHash = buildVersionHash(runtimes, packageManager, cacheBust);
+		const plat = yield* cachePlatform;
+		const versionHash = buildVersionHash(runtimes, packageManager, cacheBust, workingDirectory);
 		const branch = yield* getBranchName;
 		const branchHash = hashString(branch || "null");
 		const lockfileHash = yield* hashFiles(lockfiles);
@@ -341,14 +394,15 @@ export const generateCacheKey = (
  */
 export const generateRestoreKeys = (
 	runtimes: ReadonlyArray<{ name: string; version: string }>,
-	packageManager: { name: string; version: string },
+	packageManager: PackageManagerVersions,
 	cacheBust?: string,
+	workingDirectory = ".",
 ) =>
 	Effect.gen(function* () {
 		if (cacheBust) return [];
 
-		const plat = platform();
-		const versionHash = buildVersionHash(runtimes, packageManager);
+		const plat = yield* cachePlatform;
+		const versionHash = buildVersionHash(runtimes, packageManager, undefined, workingDirectory);
 		const branch = yield* getBranchName;
 		const branchHash = hashString(branch || "null");
 
@@ -365,22 +419,39 @@ export const generateRestoreKeys = (
 export const restoreCache = (config: {
 	readonly cachePaths: string[];
 	readonly runtimes: ReadonlyArray<{ name: string; version: string }>;
-	readonly packageManager: { name: string; version: string };
+	readonly packageManager: PackageManagerVersions;
 	readonly lockfiles: string[];
 	readonly cacheBust?: string;
+	readonly workingDirectory?: string;
+	/** Packages from the `global-packages` input, hashed into the key next to the runtimes */
+	readonly globalPackages?: ReadonlyArray<{ name: string; version: string }>;
+	/** Install options that change what gets installed (see installCacheSignature), hashed the same way */
+	readonly installOptions?: string;
 }) =>
 	Effect.gen(function* () {
 		const cache = yield* ActionCache;
 		const state = yield* ActionState;
 
+		const versions = [
+			...config.runtimes,
+			...(config.globalPackages ?? []).map((p) => ({ name: `global:${p.name}`, version: p.version })),
+			...(config.installOptions ? [{ name: "install", version: config.installOptions }] : []),
+		];
+
 		const primaryKey = yield* generateCacheKey(
-			config.runtimes,
+			versions,
 			config.packageManager,
 			config.lockfiles,
 			config.cacheBust,
+			config.workingDirectory,
 		);
 
-		const restoreKeys = yield* generateRestoreKeys(config.runtimes, config.packageManager, config.cacheBust);
+		const restoreKeys = yield* generateRestoreKeys(
+			versions,
+			config.packageManager,
+			config.cacheBust,
+			config.workingDirectory,
+		);
 
 		// Log cache key details for debugging (debug level — visible with RUNNER_DEBUG=1)
 		yield* Effect.logDebug(`Cache primary key: ${primaryKey}`);
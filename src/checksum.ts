@@ -0,0 +1,154 @@
+import { createHash } from "node:crypto";
+import { FileSystem, HttpClient, HttpClientRequest } from "@effect/platform";
+import { Config, Effect, Either, Option } from "effect";
+import type { SignatureVerificationError } from "./errors.js";
+import { ChecksumMismatchError } from "./errors.js";
+import type { SignatureSource } from "./signature.js";
+import { verifyChecksumSignature } from "./signature.js";
+
+/**
+ * Where to fetch a download's published checksum and how to read it.
+ * `parse` returns the lowercase hex SHA-256 for `fileName`, or undefined when not listed.
+ * With `signature`, the document itself must carry a valid detached signature.
+ * `headers` are sent with the request, e.g. to authenticate against a mirror.
+ * With `optional`, a document that cannot be fetched leaves the file unverified,
+ * with a warning, instead of failing.
+ */
+export interface ChecksumSource {
+	readonly url: string;
+	readonly parse: (body: string, fileName: string) => string | undefined;
+	readonly signature?: SignatureSource;
+	readonly headers?: Readonly<Record<string, string>>;
+	readonly optional?: boolean;
+}
+
+/**
+ * Reads the hash for `fileName` from a `sha256sum`-style listing
+ * (`<hash>  <file>` per line, `*` binary marker allowed), such as
+ * Node.js' and Bun's `SHASUMS256.txt`.
+ */
+export const parseShasums = (body: string, fileName: string): string | undefined => {
+	for (const line of body.split("\n")) {
+		const match = line.trim().match(/^([a-f0-9]{64})\s+\*?(.+)$/i);
+		if (match && match[2].trim() === fileName) {
+			return match[1].toLowerCase();
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Reads the hash from a checksum file covering a single download, such as Deno's
+ * `<archive>.sha256sum`. Accepts both `sha256sum` output and PowerShell `Get-FileHash` tables.
+ */
+export const parseSingleChecksum = (body: string): string | undefined =>
+	body.match(/\b[a-f0-9]{64}\b/i)?.[0].toLowerCase();
+
+/**
+ * The file name a download URL points to (last path segment, URL-decoded).
+ */
+export const fileNameFromUrl = (url: string): string =>
+	decodeURIComponent(new URL(url).pathname.split("/").pop() ?? "");
+
+/**
+ * Computes the lowercase hex digest of a file with a Node.js hash algorithm (e.g. `sha512`).
+ */
+export const hashFile = (path: string, algorithm: string) =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const bytes = yield* fs.readFile(path);
+		return createHash(algorithm).update(bytes).digest("hex");
+	});
+
+/**
+ * Computes the lowercase hex SHA-256 of a file.
+ */
+export const sha256File = (path: string) => hashFile(path, "sha256");
+
+/**
+ * Fetches a checksum document as text. Requests to the GitHub API are
+ * authenticated with the `github-token` input when set.
+ */
+const fetchText = (url: string, headers: Readonly<Record<string, string>> = {}) =>
+	Effect.gen(function* () {
+		const client = (yield* HttpClient.HttpClient).pipe(HttpClient.filterStatusOk);
+		const token = yield* Config.string("github-token").pipe(Config.withDefault(""));
+
+		let request = HttpClientRequest.get(url).pipe(HttpClientRequest.setHeaders(headers));
+		if (token !== "" && new URL(url).hostname === "api.github.com") {
+			request = request.pipe(HttpClientRequest.bearerToken(token));
+		}
+
+		const response = yield* client.execute(request);
+		return yield* response.text;
+	});
+
+/**
+ * Verifies a downloaded file against its published SHA-256 checksum.
+ *
+ * Fails with ChecksumMismatchError when the hashes differ, and with a plain
+ * Error when the checksum cannot be fetched (unless the source is `optional`)
+ * or does not list the file.
+ *
+ * When the source carries a signature, the checksum document is verified first
+ * and the signing key's fingerprint is returned.
+ */
+export const verifyChecksum = (options: {
+	readonly tool: string;
+	readonly version: string;
+	readonly file: string;
+	readonly fileName: string;
+	readonly source: ChecksumSource;
+}): Effect.Effect<
+	Option.Option<string>,
+	ChecksumMismatchError | SignatureVerificationError | Error,
+	HttpClient.HttpClient | FileSystem.FileSystem
+> =>
+	Effect.gen(function* () {
+		const { tool, version, file, fileName, source } = options;
+
+		const fetched = yield* Effect.either(fetchText(source.url, source.headers));
+		if (Either.isLeft(fetched)) {
+			const reason = `Failed to fetch checksums from ${source.url}: ${fetched.left.message}`;
+			if (!source.optional) {
+				return yield* Effect.fail(new Error(reason));
+			}
+			yield* Effect.logWarning(`${reason}; installing ${fileName} without checksum verification`);
+			return Option.none<string>();
+		}
+		const body = fetched.right;
+		const fingerprint = source.signature
+			? Option.some(
+					yield* verifyChecksumSignature({
+						tool,
+						version,
+						data: new TextEncoder().encode(body),
+						source: source.signature,
+					}),
+				)
+			: Option.none<string>();
+
+		const expected = source.parse(body, fileName);
+		if (!expected) {
+			return yield* Effect.fail(new Error(`No checksum for ${fileName} in ${source.url}`));
+		}
+
+		const actual = yield* sha256File(file).pipe(
+			Effect.mapError((cause) => new Error(`Failed to hash ${file}: ${cause.message}`)),
+		);
+		if (actual !== expected) {
+			return yield* Effect.fail(
+				new ChecksumMismatchError({
+					tool,
+					version,
+					file: fileName,
+					expected,
+					actual,
+					reason: `SHA-256 mismatch for ${fileName}: expected ${expected}, got ${actual}`,
+				}),
+			);
+		}
+
+		yield* Effect.log(`Verified SHA-256 checksum of ${fileName}`);
+		return fingerprint;
+	});
@@ -1,52 +1,325 @@
+import { join, normalize } from "node:path";
 import { FileSystem } from "@effect/platform";
 import { Config, Effect, Option, Schema } from "effect";
 import { parse as parseJsonc } from "jsonc-effect";
 import { ConfigError } from "./errors.js";
-import { DevEngines } from "./schemas.js";
+import { rawBinaryDescriptors, toolDescriptor } from "./runtime-installer.js";
+import type { PackageManagerEntry, ToolEntry } from "./schemas.js";
+import { DevEngines, Integrity, PackageManagerInstall, RuntimeEntry, WorkflowRuntimeConfig } from "./schemas.js";
+import type { PackageJsonFields } from "./version-sources.js";
+import { detectVersions, normalizeVersion, parseCorepackSpec, toDevEngines } from "./version-sources.js";
 
 /**
- * Reads and parses package.json, decoding the devEngines field.
+ * Normalizes the `working-directory` input: empty means the workspace root (`.`),
+ * trailing separators are dropped.
+ */
+export const normalizeWorkingDirectory = (raw: string): string => {
+	const trimmed = raw.trim();
+	if (trimmed === "") return ".";
+	return normalize(trimmed).replace(/(.)[/\\]+$/, "$1");
+};
+
+/**
+ * Reads the `working-directory` input. All project files (package.json, version files,
+ * Biome/Turbo config, lockfiles) are resolved against it.
+ */
+export const getWorkingDirectory = Config.string("working-directory").pipe(
+	Config.withDefault(""),
+	Config.map(normalizeWorkingDirectory),
+);
+
+/**
+ * Reads the `package-manager-install` input (`corepack` when empty).
+ */
+export const getPackageManagerInstall = Effect.gen(function* () {
+	const input = (yield* Config.string("package-manager-install").pipe(Config.withDefault(""))).trim().toLowerCase();
+	const mode = input === "" ? "corepack" : input;
+	if (!Schema.is(PackageManagerInstall)(mode)) {
+		return yield* Effect.fail(
+			new ConfigError({ reason: `Invalid package-manager-install "${input}"; expected corepack or standalone` }),
+		);
+	}
+	return mode;
+});
+
+/**
+ * Reads package.json and parses it as JSON.
  * Wraps all failures in ConfigError.
  */
-export const loadPackageJson = Effect.gen(function* () {
-	const fs = yield* FileSystem.FileSystem;
+const readPackageJson = (workingDirectory: string) =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const file = join(workingDirectory, "package.json");
 
-	const content = yield* fs.readFileString("package.json", "utf-8").pipe(
-		Effect.mapError(
-			(cause) =>
+		const content = yield* fs.readFileString(file, "utf-8").pipe(
+			Effect.mapError(
+				(cause) =>
+					new ConfigError({
+						reason: `${file} not found. This action requires a package.json with devEngines.packageManager and devEngines.runtime fields, or a deno.json / deno.jsonc for Deno projects.`,
+						file,
+						cause,
+					}),
+			),
+		);
+
+		return yield* Effect.try({
+			try: () => JSON.parse(content) as unknown,
+			catch: (cause) =>
 				new ConfigError({
-					reason:
-						"package.json not found. This action requires a package.json with devEngines.packageManager and devEngines.runtime fields.",
-					file: "package.json",
+					reason: `Failed to parse ${file}: Invalid JSON`,
+					file,
 					cause,
 				}),
-		),
-	);
-
-	const raw = yield* Effect.try({
-		try: () => JSON.parse(content) as unknown,
-		catch: (cause) =>
-			new ConfigError({
-				reason: `Failed to parse package.json: Invalid JSON`,
-				file: "package.json",
-				cause,
-			}),
+		});
 	});
 
-	const packageJson = yield* Schema.decodeUnknown(Schema.Struct({ devEngines: DevEngines }))(raw).pipe(
+const decodeDevEngines = (raw: unknown, file: string) =>
+	Schema.decodeUnknown(Schema.Struct({ devEngines: DevEngines }))(raw).pipe(
+		Effect.map((packageJson) => packageJson.devEngines),
 		Effect.mapError(
 			(cause) =>
 				new ConfigError({
-					reason: `package.json has invalid or missing devEngines field`,
-					file: "package.json",
+					reason: `${file} has invalid or missing devEngines field`,
+					file,
 					cause,
 				}),
 		),
 	);
 
-	return packageJson.devEngines;
+/**
+ * Reads and parses package.json in the working directory, decoding the devEngines field.
+ * Wraps all failures in ConfigError.
+ */
+export const loadPackageJson = (workingDirectory = ".") =>
+	Effect.flatMap(readPackageJson(workingDirectory), (raw) =>
+		decodeDevEngines(raw, join(workingDirectory, "package.json")),
+	);
+
+/**
+ * Deno configuration files, in lookup order.
+ */
+const DENO_CONFIG_FILES = ["deno.json", "deno.jsonc"] as const;
+
+/**
+ * The part of deno.json consulted for runtime requirements: a `devEngines.runtime`
+ * field shaped like package.json's.
+ */
+const DenoConfig = Schema.Struct({
+	devEngines: Schema.optional(
+		Schema.Struct({
+			runtime: Schema.Union(RuntimeEntry, Schema.Array(RuntimeEntry)),
+		}),
+	),
 });
 
+/**
+ * Reads and parses `deno.json` / `deno.jsonc` in the working directory.
+ * Returns Option.none() when neither exists.
+ */
+const readDenoConfig = (workingDirectory: string) =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+
+		for (const name of DENO_CONFIG_FILES) {
+			const file = join(workingDirectory, name);
+			const content = yield* fs.readFileString(file, "utf-8").pipe(Effect.option);
+			if (Option.isNone(content)) continue;
+
+			const parsed = yield* parseJsonc(content.value).pipe(
+				Effect.mapError(
+					(cause) =>
+						new ConfigError({
+							reason: `Failed to parse ${file}: Invalid JSONC`,
+							file,
+							cause,
+						}),
+				),
+			);
+			const config = yield* Schema.decodeUnknown(DenoConfig)(parsed).pipe(
+				Effect.mapError(
+					(cause) =>
+						new ConfigError({
+							reason: `${file} has an invalid devEngines field`,
+							file,
+							cause,
+						}),
+				),
+			);
+			return Option.some({ name, file, config });
+		}
+
+		return Option.none();
+	});
+
+/**
+ * Detects the configuration of a Deno-first project (deno.json, no package.json).
+ * Deno is both the runtime and the package manager.
+ *
+ * Uses `devEngines.runtime` from deno.json when present, otherwise the fallback
+ * version files (`.dvmrc`, `.tool-versions`, `mise.toml`).
+ */
+const detectDenoDevEngines = (
+	deno: { readonly name: string; readonly file: string; readonly config: typeof DenoConfig.Type },
+	workingDirectory: string,
+) =>
+	Effect.gen(function* () {
+		if (deno.config.devEngines) {
+			const { runtime } = deno.config.devEngines;
+			const runtimes = Array.isArray(runtime) ? runtime : [runtime];
+			const denoRuntime = runtimes.find((rt) => rt.name === "deno");
+			if (!denoRuntime) {
+				return yield* Effect.fail(
+					new ConfigError({
+						reason: `${deno.file} devEngines.runtime must include deno`,
+						file: deno.file,
+					}),
+				);
+			}
+			return {
+				devEngines: {
+					runtime,
+					packageManager: {
+						name: "deno" as const,
+						version: denoRuntime.version,
+						...(denoRuntime.onFail ? { onFail: denoRuntime.onFail } : {}),
+					},
+				},
+				sources: Object.fromEntries(runtimes.map((rt) => [rt.name, deno.name])) as Record<string, string>,
+			};
+		}
+
+		const detected = yield* detectVersions({}, workingDirectory);
+		if (!detected.deno) {
+			return yield* Effect.fail(
+				new ConfigError({
+					reason: `No Deno version found. Add devEngines.runtime to ${deno.name} or create a .dvmrc`,
+					file: deno.file,
+				}),
+			);
+		}
+
+		const fallback = yield* toDevEngines(detected, workingDirectory);
+		return {
+			devEngines: {
+				runtime: fallback.runtime,
+				packageManager: { name: "deno" as const, version: detected.deno.version },
+			},
+			sources: Object.fromEntries(
+				Object.entries(fallback.sources).filter(([tool]) => fallback.runtime.some((rt) => rt.name === tool)),
+			),
+		};
+	});
+
+/**
+ * Carries the integrity hash of the corepack `packageManager` field
+ * (`pnpm@10.20.0+sha512.…`) over to the package manager entry, when the field
+ * pins the same package manager and version. Fails with ConfigError for a hash
+ * that is not `<algorithm>.<hex digest>`.
+ */
+const withCorepackIntegrity = (entry: PackageManagerEntry, raw: unknown, file: string) =>
+	Effect.gen(function* () {
+		const field = raw !== null && typeof raw === "object" ? (raw as PackageJsonFields).packageManager : undefined;
+		const spec = typeof field === "string" ? parseCorepackSpec(field) : Option.none();
+		if (Option.isNone(spec) || spec.value.integrity === undefined) return entry;
+		if (spec.value.name !== entry.name || normalizeVersion(spec.value.version) !== entry.version) return entry;
+		if (!Schema.is(Integrity)(spec.value.integrity)) {
+			return yield* Effect.fail(
+				new ConfigError({
+					reason: `Invalid integrity hash in packageManager "${field}": expected <algorithm>.<hex digest> (e.g., sha512.…)`,
+					file,
+				}),
+			);
+		}
+		return { ...entry, integrity: spec.value.integrity };
+	});
+
+/**
+ * Detects the runtime and package manager configuration.
+ *
+ * Uses package.json `devEngines` when present. Otherwise falls back to the
+ * corepack `packageManager` field, `engines.node`, `.nvmrc`, `.node-version`,
+ * `.tool-versions`, `.bun-version`, `.dvmrc` and `mise.toml`, in that order;
+ * the first source declaring a tool wins.
+ *
+ * Without a package.json, a `deno.json` / `deno.jsonc` marks a Deno-first project.
+ * An integrity hash in the `packageManager` field is kept on the package manager
+ * entry when the field pins the version in use.
+ *
+ * `sources` maps each detected tool to the source its version came from.
+ */
+export const detectDevEngines = (workingDirectory = ".") =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const hasPackageJson = yield* fs.access(join(workingDirectory, "package.json")).pipe(
+			Effect.map(() => true),
+			Effect.orElse(() => Effect.succeed(false)),
+		);
+		if (!hasPackageJson) {
+			const deno = yield* readDenoConfig(workingDirectory);
+			if (Option.isSome(deno)) {
+				return yield* detectDenoDevEngines(deno.value, workingDirectory);
+			}
+		}
+
+		const raw = yield* readPackageJson(workingDirectory);
+		const file = join(workingDirectory, "package.json");
+
+		if (raw !== null && typeof raw === "object" && "devEngines" in raw) {
+			const devEngines = yield* decodeDevEngines(raw, file);
+			const parsed = parseDevEngines(devEngines);
+			const sources: Record<string, string> = {};
+			for (const rt of parsed.runtime) sources[rt.name] = "devEngines";
+			sources[parsed.packageManager.name] = "devEngines";
+			const packageManager = yield* withCorepackIntegrity(devEngines.packageManager, raw, file);
+			return { devEngines: { ...devEngines, packageManager }, sources };
+		}
+
+		const detected = yield* detectVersions((raw ?? {}) as PackageJsonFields, workingDirectory);
+		const fallback = yield* toDevEngines(detected, workingDirectory);
+		const packageManager = yield* withCorepackIntegrity(fallback.packageManager, raw, file);
+		return {
+			devEngines: { runtime: fallback.runtime, packageManager },
+			sources: fallback.sources,
+		};
+	});
+
+/**
+ * Reads the extra tools listed under `workflowRuntime.tools` in package.json.
+ * Projects without a package.json or without the block have none. Entries
+ * without a `url` must name a built-in tool.
+ */
+export const detectTools = (workingDirectory = ".") =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const file = join(workingDirectory, "package.json");
+		const hasPackageJson = yield* fs.access(file).pipe(
+			Effect.map(() => true),
+			Effect.orElse(() => Effect.succeed(false)),
+		);
+		if (!hasPackageJson) return [] as ReadonlyArray<ToolEntry>;
+
+		const raw = yield* readPackageJson(workingDirectory);
+		if (raw === null || typeof raw !== "object" || !("workflowRuntime" in raw)) {
+			return [] as ReadonlyArray<ToolEntry>;
+		}
+
+		const { tools } = yield* Schema.decodeUnknown(WorkflowRuntimeConfig)(raw.workflowRuntime).pipe(
+			Effect.mapError(
+				(cause) => new ConfigError({ reason: `${file} has an invalid workflowRuntime field`, file, cause }),
+			),
+		);
+		const unknown = tools.filter((tool) => toolDescriptor(tool) === undefined).map((tool) => tool.name);
+		if (unknown.length > 0) {
+			return yield* Effect.fail(
+				new ConfigError({
+					reason: `${file} lists tools without a url that are not built in: ${unknown.join(", ")} (built-in: ${Object.keys(rawBinaryDescriptors).join(", ")})`,
+					file,
+				}),
+			);
+		}
+		return tools;
+	});
+
 /**
  * Normalizes devEngines.runtime from a single object or array into always-array form.
  */
@@ -57,69 +330,71 @@ export const parseDevEngines = (devEngines: typeof DevEngines.Type) => {
 
 /**
  * Detects Biome version from the `biome-version` input override,
- * or by reading `biome.jsonc` / `biome.json` and extracting the version
+ * or by reading `biome.jsonc` / `biome.json` in the working directory and extracting the version
  * from the `$schema` URL.
  *
  * Returns Option.none() if no Biome config is detected and no override is given.
  */
-export const detectBiome = Effect.gen(function* () {
-	// 1. Check explicit input override first
-	const override = yield* Config.string("biome-version").pipe(Config.withDefault(""));
-	if (override !== "") {
-		return Option.some(override);
-	}
+export const detectBiome = (workingDirectory = ".") =>
+	Effect.gen(function* () {
+		// 1. Check explicit input override first
+		const override = yield* Config.string("biome-version").pipe(Config.withDefault(""));
+		if (override !== "") {
+			return Option.some(override);
+		}
 
-	const fs = yield* FileSystem.FileSystem;
+		const fs = yield* FileSystem.FileSystem;
 
-	// 2. Try biome.jsonc, then biome.json
-	const configFile = yield* Effect.gen(function* () {
-		const hasJsonc = yield* fs.access("biome.jsonc").pipe(
-			Effect.map(() => true),
-			Effect.orElse(() => Effect.succeed(false)),
-		);
-		if (hasJsonc) return Option.some("biome.jsonc");
+		// 2. Try biome.jsonc, then biome.json
+		const configFile = yield* Effect.gen(function* () {
+			const hasJsonc = yield* fs.access(join(workingDirectory, "biome.jsonc")).pipe(
+				Effect.map(() => true),
+				Effect.orElse(() => Effect.succeed(false)),
+			);
+			if (hasJsonc) return Option.some("biome.jsonc");
 
-		const hasJson = yield* fs.access("biome.json").pipe(
-			Effect.map(() => true),
-			Effect.orElse(() => Effect.succeed(false)),
-		);
-		if (hasJson) return Option.some("biome.json");
+			const hasJson = yield* fs.access(join(workingDirectory, "biome.json")).pipe(
+				Effect.map(() => true),
+				Effect.orElse(() => Effect.succeed(false)),
+			);
+			if (hasJson) return Option.some("biome.json");
 
-		return Option.none<string>();
-	});
+			return Option.none<string>();
+		});
 
-	if (Option.isNone(configFile)) {
-		return Option.none<string>();
-	}
+		if (Option.isNone(configFile)) {
+			return Option.none<string>();
+		}
 
-	// 3. Read the config file and extract version from $schema URL
-	const configContent = yield* fs
-		.readFileString(configFile.value, "utf-8")
-		.pipe(Effect.orElse(() => Effect.succeed("{}")));
+		// 3. Read the config file and extract version from $schema URL
+		const configContent = yield* fs
+			.readFileString(join(workingDirectory, configFile.value), "utf-8")
+			.pipe(Effect.orElse(() => Effect.succeed("{}")));
 
-	const parsed = yield* parseJsonc(configContent).pipe(Effect.orElse(() => Effect.succeed({} as unknown)));
-	const schema = (parsed as { $schema?: string }).$schema;
-	if (!schema) {
-		return Option.none<string>();
-	}
+		const parsed = yield* parseJsonc(configContent).pipe(Effect.orElse(() => Effect.succeed({} as unknown)));
+		const schema = (parsed as { $schema?: string }).$schema;
+		if (!schema) {
+			return Option.none<string>();
+		}
 
-	const match = schema.match(/schemas\/([^/]+)\/schema\.json/);
-	if (match?.[1]) {
-		return Option.some(match[1]);
-	}
+		const match = schema.match(/schemas\/([^/]+)\/schema\.json/);
+		if (match?.[1]) {
+			return Option.some(match[1]);
+		}
 
-	return Option.none<string>();
-});
+		return Option.none<string>();
+	});
 
 /**
- * Detects Turborepo configuration by checking if `turbo.json` exists.
+ * Detects Turborepo configuration by checking if `turbo.json` exists in the working directory.
  * Returns true if found, false otherwise.
  */
-export const detectTurbo = Effect.gen(function* () {
-	const fs = yield* FileSystem.FileSystem;
-	const exists = yield* fs.access("turbo.json").pipe(
-		Effect.map(() => true),
-		Effect.orElse(() => Effect.succeed(false)),
-	);
-	return exists;
-});
+export const detectTurbo = (workingDirectory = ".") =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const exists = yield* fs.access(join(workingDirectory, "turbo.json")).pipe(
+			Effect.map(() => true),
+			Effect.orElse(() => Effect.succeed(false)),
+		);
+		return exists;
+	});
@@ -0,0 +1,19 @@
+import { FileSystem } from "@effect/platform";
+import { Effect, Option } from "effect";
+
+/**
+ * Whether the CPU supports AVX2, read from the `flags` line of `/proc/cpuinfo`.
+ * Returns undefined when that cannot be told (outside Linux, or without a
+ * readable `/proc/cpuinfo`), so callers keep their default.
+ */
+export const hasAvx2: Effect.Effect<boolean | undefined, never, FileSystem.FileSystem> = Effect.gen(function* () {
+	if (process.platform !== "linux") return undefined;
+
+	const fs = yield* FileSystem.FileSystem;
+	const cpuinfo = yield* fs.readFileString("/proc/cpuinfo").pipe(Effect.option);
+	if (Option.isNone(cpuinfo)) return undefined;
+
+	const flags = cpuinfo.value.match(/^flags\s*:(.*)$/m);
+	if (!flags) return undefined;
+	return flags[1].trim().split(/\s+/).includes("avx2");
+});
@@ -1,14 +1,18 @@
 /**
- * Biome CLI binary name map.
+ * Biome CLI raw binary descriptor.
  *
- * Biome is a single binary download (not an archive), so it doesn't use
- * the RuntimeInstaller pattern. This map is imported by installBiome()
- * in main.ts to construct the download URL.
+ * Biome is a single binary download (not an archive), installed by the
+ * RawBinaryInstaller rather than the RuntimeInstaller.
  *
  * URL format: https://github.com/biomejs/biome/releases/download/%40biomejs%2Fbiome%40{version}/{binaryName}
+ *   (or {baseUrl}/%40biomejs%2Fbiome%40{version}/{binaryName} for a mirror)
+ * Checksums: SHA-256 `digest` of each asset in the GitHub release API response,
+ *   also for mirrored downloads (installed unverified when the API is unreachable)
+ * musl (Alpine): the Linux binaries have a `-musl` variant, e.g. biome-linux-x64-musl
+ * Verify: `biome --version` prints "Version: {version}"
  */
 
-export const binaryMap: Record<string, Record<string, string>> = {
+const binaries: Record<string, Record<string, string>> = {
 	linux: {
 		x64: "biome-linux-x64",
 		arm64: "biome-linux-arm64",
@@ -22,3 +26,46 @@ export const binaryMap: Record<string, Record<string, string>> = {
 		arm64: "biome-win32-arm64.exe",
 	},
 };
+
+/**
+ * GitHub API URL of the release for a Biome version, which lists each asset's SHA-256 digest.
+ */
+const getChecksumUrl = (version: string): string =>
+	`https://api.github.com/repos/biomejs/biome/releases/tags/%40biomejs%2Fbiome%40${version}`;
+
+/**
+ * Reads the SHA-256 digest (`sha256:<hex>`) of the named asset from a GitHub release API response.
+ */
+const parseChecksum = (body: string, fileName: string): string | undefined => {
+	let release: { assets?: Array<{ name?: unknown; digest?: unknown }> };
+	try {
+		release = JSON.parse(body) as typeof release;
+	} catch {
+		return undefined;
+	}
+	const digest = release.assets?.find((asset) => asset.name === fileName)?.digest;
+	const match = typeof digest === "string" ? digest.match(/^sha256:([a-f0-9]{64})$/i) : null;
+	return match?.[1].toLowerCase();
+};
+
+export const descriptor = {
+	name: "biome",
+
+	baseUrl: "https://github.com/biomejs/biome/releases/download",
+
+	urlTemplate: "{baseUrl}/%40biomejs%2Fbiome%40{version}/{binary}",
+
+	binaries,
+
+	muslSuffix: "-musl",
+
+	getChecksumUrl,
+
+	parseChecksum,
+
+	verifyCommand: ["biome", "--version"] as [string, ...string[]],
+
+	parseVersionOutput(stdout: string): string | undefined {
+		return stdout.match(/^Version: (\S+)/m)?.[1];
+	},
+};
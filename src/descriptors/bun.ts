@@ -2,35 +2,148 @@
  * Bun runtime descriptor.
  *
  * Downloads from https://github.com/oven-sh/bun/releases/download/bun-v{version}/
+ *   (or {baseUrl}/bun-v{version}/ for a mirror)
  * Archive format: always zip
  * Arch mapping: arm64 -> aarch64
  * Platform mapping: win32 -> windows (in archive name)
+ * Release index: GitHub releases API, tags formatted as bun-v{version}
+ * Checksums: SHASUMS256.txt release asset
+ * musl (Alpine): bun-linux-{x64,aarch64}-musl.zip from the same release
+ * Variants (`bun-variant` input): -baseline builds (x64 only) for CPUs without AVX2,
+ *   picked automatically from /proc/cpuinfo, and -profile builds whose binary is bun-profile
+ * Channels: `canary` resolves to canary-{sha}, the commit the moving `canary` release tag points at,
+ *   and downloads from the `canary` release ({baseUrl}/canary/)
+ * Verify: `bun --revision` prints {version}+{short sha}, e.g. 1.3.3+b1c2d3e4f
  */
 
+import type { FileSystem } from "@effect/platform";
+import { Config, Effect } from "effect";
+import { hasAvx2 } from "../cpu.js";
+import { ConfigError } from "../errors.js";
+import type { Libc } from "../libc.js";
+
+/** Values of the `bun-variant` input; `auto` resolves to `default` or `baseline`. */
+const BUN_VARIANTS = ["auto", "default", "baseline", "profile"];
+
 /** Resolve Bun's arch string — arm64 becomes aarch64, Windows always x64. */
 const resolveBunArch = (platform: string, arch: string): string => {
 	if (platform === "win32") return "x64";
 	return arch === "arm64" ? "aarch64" : arch;
 };
 
+/** Archive (and extracted directory) name, e.g. bun-linux-x64-musl-baseline. */
+const resolveBunTarget = (platform: string, arch: string, libc: Libc, variant: string): string => {
+	const bunPlatform = platform === "win32" ? "windows" : platform;
+	const bunArch = resolveBunArch(platform, arch);
+	if (variant === "baseline" && bunArch !== "x64") {
+		throw new Error(`Bun publishes baseline builds for x64 only, not ${bunPlatform}-${bunArch}`);
+	}
+	const musl = platform === "linux" && libc === "musl" ? "-musl" : "";
+	const suffix = variant === "baseline" || variant === "profile" ? `-${variant}` : "";
+	return `bun-${bunPlatform}-${bunArch}${musl}${suffix}`;
+};
+
+/** Upstream base URL; mirrors replace it with one following the same layout. */
+const RELEASES_URL = "https://github.com/oven-sh/bun/releases/download";
+
+/** Build ids of the canary channel are `canary-<sha>`. */
+const releaseChannel = (version: string): string | undefined => (version.startsWith("canary-") ? "canary" : undefined);
+
+/** Release tag a version is published under. */
+const releaseTag = (version: string): string => (releaseChannel(version) ? "canary" : `bun-v${version}`);
+
+/** Reads the commit of the `canary` tag from a GitHub git ref response. */
+const parseCanaryRef = (body: string): string | undefined => {
+	try {
+		const sha = (JSON.parse(body) as { object?: { sha?: unknown } }).object?.sha;
+		return typeof sha === "string" && /^[0-9a-f]{40}$/.test(sha) ? `canary-${sha}` : undefined;
+	} catch {
+		return undefined;
+	}
+};
+
 export const descriptor = {
 	name: "bun",
 
-	getDownloadUrl(version: string, platform: string, arch: string): string {
-		const bunArch = resolveBunArch(platform, arch);
-		const bunPlatform = platform === "win32" ? "windows" : platform;
-		return `https://github.com/oven-sh/bun/releases/download/bun-v${version}/bun-${bunPlatform}-${bunArch}.zip`;
+	getDownloadUrl(
+		version: string,
+		platform: string,
+		arch: string,
+		baseUrl = RELEASES_URL,
+		libc: Libc = "glibc",
+		variant = "default",
+	): string {
+		return `${baseUrl}/${releaseTag(version)}/${resolveBunTarget(platform, arch, libc, variant)}.zip`;
 	},
 
 	getToolInstallOptions(
 		_version: string,
 		platform: string,
 		arch: string,
-	): { archiveType?: "tar.gz" | "tar.xz" | "zip"; binSubPath?: string } {
-		const bunArch = resolveBunArch(platform, arch);
-		const bunPlatform = platform === "win32" ? "windows" : platform;
-		return { archiveType: "zip", binSubPath: `bun-${bunPlatform}-${bunArch}` };
+		libc: Libc = "glibc",
+		variant = "default",
+	): {
+		archiveType?: "tar.gz" | "tar.xz" | "zip";
+		binSubPath?: string;
+		renameExecutable?: { from: string; to: string };
+	} {
+		const binSubPath = resolveBunTarget(platform, arch, libc, variant);
+		if (variant !== "profile") return { archiveType: "zip", binSubPath };
+		const ext = platform === "win32" ? ".exe" : "";
+		return { archiveType: "zip", binSubPath, renameExecutable: { from: `bun-profile${ext}`, to: `bun${ext}` } };
 	},
 
-	verifyCommand: ["bun", "--version"] as [string, ...string[]],
+	/**
+	 * Resolves the `bun-variant` input. `auto` picks the baseline build on x64
+	 * CPUs without AVX2, where the default build crashes with an illegal instruction.
+	 */
+	resolveVariant(platform: string, arch: string): Effect.Effect<string, ConfigError, FileSystem.FileSystem> {
+		return Effect.gen(function* () {
+			const input = (yield* Config.string("bun-variant").pipe(
+				Config.withDefault("auto"),
+				Effect.orElseSucceed(() => "auto"),
+			))
+				.trim()
+				.toLowerCase();
+			const variant = input === "" ? "auto" : input;
+			if (!BUN_VARIANTS.includes(variant)) {
+				return yield* Effect.fail(
+					new ConfigError({ reason: `Invalid bun-variant "${input}"; expected auto, default, baseline or profile` }),
+				);
+			}
+			if (variant !== "auto") return variant;
+
+			if (resolveBunArch(platform, arch) !== "x64" || (yield* hasAvx2) !== false) return "default";
+			yield* Effect.log("CPU does not support AVX2, using the Bun baseline build");
+			return "baseline";
+		});
+	},
+
+	getReleaseIndexUrl(): string {
+		return "https://api.github.com/repos/oven-sh/bun/releases?per_page=100";
+	},
+
+	parseReleaseIndex(body: unknown): Array<{ version: string }> {
+		if (!Array.isArray(body)) return [];
+		return body.flatMap((release: { tag_name?: unknown; draft?: unknown }) => {
+			const match = typeof release?.tag_name === "string" ? release.tag_name.match(/^bun-v(.+)$/) : null;
+			return match && release.draft !== true ? [{ version: match[1] }] : [];
+		});
+	},
+
+	getChecksumUrl(version: string, _platform: string, _arch: string, baseUrl = RELEASES_URL): string {
+		return `${baseUrl}/${releaseTag(version)}/SHASUMS256.txt`;
+	},
+
+	channels: {
+		canary: { url: "https://api.github.com/repos/oven-sh/bun/git/ref/tags/canary", parse: parseCanaryRef },
+	},
+
+	releaseChannel,
+
+	verifyCommand: ["bun", "--revision"] as [string, ...string[]],
+
+	parseVersionOutput(stdout: string): string | undefined {
+		return stdout.match(/^(\d+\.\d+\.\d+\S*)/m)?.[1];
+	},
 };
@@ -1,9 +1,20 @@
+import { parseSingleChecksum } from "../checksum.js";
+import type { Libc } from "../libc.js";
+
 /**
  * Deno runtime descriptor.
  *
  * Downloads from https://github.com/denoland/deno/releases/download/v{version}/
+ *   (or {baseUrl}/v{version}/ for a mirror)
  * Archive format: always zip
  * Uses Rust target triples for platform/arch identification
+ * Release index: GitHub releases API, tags formatted as v{version}
+ * Checksums: one {archive}.sha256sum release asset per archive
+ * musl (Alpine): not published; installing fails with a hint to use a glibc-based image
+ * Channels: `canary` resolves to canary-{sha}, the commit in https://dl.deno.land/canary-latest.txt,
+ *   downloaded from https://dl.deno.land/canary/{sha}/ (not covered by mirrors)
+ * Verify: `deno --version` starts with "deno {version} (stable, release, {target})";
+ *   canary builds print {version}+{short sha}
  */
 
 const targetMap: Record<string, Record<string, string>> = {
@@ -20,26 +31,98 @@ const targetMap: Record<string, Record<string, string>> = {
 	},
 };
 
+/** Rust target triple for a platform, e.g. x86_64-unknown-linux-gnu. */
+const resolveTarget = (platform: string, arch: string, libc: Libc): string => {
+	if (platform === "linux" && libc === "musl") {
+		throw new Error(
+			"Deno publishes no musl builds, so it cannot be installed on Alpine or other musl-based images. " +
+				"Use a glibc-based container image (e.g. debian or ubuntu) for Deno jobs",
+		);
+	}
+	const target = targetMap[platform]?.[arch];
+	if (!target) {
+		throw new Error(`Unsupported platform for Deno: ${platform}-${arch}`);
+	}
+	return target;
+};
+
+/** Upstream base URL; mirrors replace it with one following the same layout. */
+const RELEASES_URL = "https://github.com/denoland/deno/releases/download";
+
+/** Canary builds live under their commit here. */
+const CANARY_URL = "https://dl.deno.land/canary";
+
+/** Build ids of the canary channel are `canary-<sha>`. */
+const releaseChannel = (version: string): string | undefined => (version.startsWith("canary-") ? "canary" : undefined);
+
+/** Reads the commit out of canary-latest.txt. */
+const parseCanaryLatest = (body: string): string | undefined => {
+	const sha = body.trim();
+	return /^[0-9a-f]{40}$/.test(sha) ? `canary-${sha}` : undefined;
+};
+
 export const descriptor = {
 	name: "deno",
 
-	getDownloadUrl(version: string, platform: string, arch: string): string {
-		const target = targetMap[platform]?.[arch];
-		if (!target) {
-			throw new Error(`Unsupported platform for Deno: ${platform}-${arch}`);
+	getDownloadUrl(
+		version: string,
+		platform: string,
+		arch: string,
+		baseUrl = RELEASES_URL,
+		libc: Libc = "glibc",
+	): string {
+		const archiveName = `deno-${resolveTarget(platform, arch, libc)}.zip`;
+		if (releaseChannel(version)) {
+			return `${CANARY_URL}/${version.slice("canary-".length)}/${archiveName}`;
 		}
-
-		const archiveName = `deno-${target}.zip`;
-		return `https://github.com/denoland/deno/releases/download/v${version}/${archiveName}`;
+		return `${baseUrl}/v${version}/${archiveName}`;
 	},
 
 	getToolInstallOptions(
 		_version: string,
-		_platform: string,
-		_arch: string,
+		platform: string,
+		arch: string,
+		libc: Libc = "glibc",
 	): { archiveType?: "tar.gz" | "tar.xz" | "zip"; binSubPath?: string } {
+		resolveTarget(platform, arch, libc);
 		return { archiveType: "zip" };
 	},
 
+	getReleaseIndexUrl(): string {
+		return "https://api.github.com/repos/denoland/deno/releases?per_page=100";
+	},
+
+	parseReleaseIndex(body: unknown): Array<{ version: string }> {
+		if (!Array.isArray(body)) return [];
+		return body.flatMap((release: { tag_name?: unknown; draft?: unknown }) => {
+			const match = typeof release?.tag_name === "string" ? release.tag_name.match(/^v(\d.*)$/) : null;
+			return match && release.draft !== true ? [{ version: match[1] }] : [];
+		});
+	},
+
+	getChecksumUrl(
+		version: string,
+		platform: string,
+		arch: string,
+		baseUrl = RELEASES_URL,
+		libc: Libc = "glibc",
+	): string {
+		return `${descriptor.getDownloadUrl(version, platform, arch, baseUrl, libc)}.sha256sum`;
+	},
+
+	parseChecksum(body: string, _fileName: string): string | undefined {
+		return parseSingleChecksum(body);
+	},
+
+	channels: {
+		canary: { url: "https://dl.deno.land/canary-latest.txt", parse: parseCanaryLatest },
+	},
+
+	releaseChannel,
+
 	verifyCommand: ["deno", "--version"] as [string, ...string[]],
+
+	parseVersionOutput(stdout: string): string | undefined {
+		return stdout.match(/^deno (\d+\.\d+\.\d+\S*)/m)?.[1];
+	},
 };
@@ -1,28 +1,81 @@
+import type { Libc } from "../libc.js";
+import { NODE_RELEASE_KEYRING } from "../node-release-keys.js";
+
 /**
  * Node.js runtime descriptor.
  *
- * Downloads from https://nodejs.org/dist/v{version}/
+ * Downloads from https://nodejs.org/dist/v{version}/ (or {baseUrl}/v{version}/ for a mirror)
  * Archive format: tar.gz on Unix, zip on Windows
+ * Release index: https://nodejs.org/dist/index.json (carries LTS codenames)
+ * Checksums: https://nodejs.org/dist/v{version}/SHASUMS256.txt, signed by a release key
+ *   (SHASUMS256.txt.sig) checked against NODE_RELEASE_KEYRING with `verify-signatures`
+ * musl (Alpine): linux-{x64,arm64}-musl archives from the unofficial-builds project,
+ *   https://unofficial-builds.nodejs.org/download/release/v{version}/, whose SHASUMS256.txt is unsigned,
+ *   mirrored by `node-musl-mirror` only (dist mirrors such as `node-mirror` do not carry them)
+ * Channels: `nightly` and `rc` resolve to the newest entry of
+ *   https://nodejs.org/download/{nightly,rc}/index.json (e.g. 26.0.0-nightly20251019a1b2c3d4e5),
+ *   downloaded from https://nodejs.org/download/{channel}/v{version}/ with unsigned checksums
  *
  * Package manager setup (corepack/npm) is handled separately in main.ts
  * after all runtimes are installed, matching the old imperative approach.
  */
 
+/** Upstream base URLs; mirrors replace them with one following the same layout. */
+const DIST_URL = "https://nodejs.org/dist";
+const UNOFFICIAL_URL = "https://unofficial-builds.nodejs.org/download/release";
+
+/** Parent of the nightly and rc channel directories, which mirrors do not cover. */
+const CHANNELS_URL = "https://nodejs.org/download";
+
+/** Architectures unofficial-builds publishes musl archives for. */
+const MUSL_ARCHES = new Set(["x64", "arm64"]);
+
+const isMusl = (platform: string, libc: Libc): boolean => platform === "linux" && libc === "musl";
+
+/** The channel a version was built on: nightly builds carry `-nightly`, release candidates `-rc.`. */
+const releaseChannel = (version: string): string | undefined =>
+	/-nightly/.test(version) ? "nightly" : /-rc\./.test(version) ? "rc" : undefined;
+
+/** Base URL of a version's directory: its channel's, a mirror, unofficial-builds for musl, or dist. */
+const resolveBaseUrl = (version: string, platform: string, libc: Libc, baseUrl?: string): string => {
+	const channel = releaseChannel(version);
+	if (channel) {
+		if (isMusl(platform, libc)) {
+			throw new Error(`Node.js publishes no musl builds on the ${channel} channel`);
+		}
+		return `${CHANNELS_URL}/${channel}`;
+	}
+	return baseUrl ?? (isMusl(platform, libc) ? UNOFFICIAL_URL : DIST_URL);
+};
+
+/** Newest version listed by a channel's index.json, which lists newest first. */
+const latestFromIndex = (body: string): string | undefined => {
+	try {
+		return descriptor.parseReleaseIndex(JSON.parse(body))[0]?.version;
+	} catch {
+		return undefined;
+	}
+};
+
 export const descriptor = {
 	name: "node",
 
-	getDownloadUrl(version: string, platform: string, arch: string): string {
+	getDownloadUrl(version: string, platform: string, arch: string, baseUrl?: string, libc: Libc = "glibc"): string {
 		const archMap: Record<string, string> = {
 			x64: "x64",
 			arm64: "arm64",
 			arm: "armv7l",
 		};
 		const nodeArch = archMap[arch] ?? arch;
+		const musl = isMusl(platform, libc);
+		if (musl && !MUSL_ARCHES.has(nodeArch)) {
+			throw new Error(`Node.js publishes no musl build for linux-${arch}`);
+		}
 		const isWindows = platform === "win32";
 		const platName = isWindows ? "win" : platform;
 		const ext = isWindows ? "zip" : "tar.gz";
-		const fileName = `node-v${version}-${platName}-${nodeArch}.${ext}`;
-		return `https://nodejs.org/dist/v${version}/${fileName}`;
+		const fileName = `node-v${version}-${platName}-${nodeArch}${musl ? "-musl" : ""}.${ext}`;
+		return `${resolveBaseUrl(version, platform, libc, baseUrl)}/v${version}/${fileName}`;
 	},
 
 	getToolInstallOptions(
@@ -37,5 +90,42 @@ export const descriptor = {
 		return { archiveType: "tar.gz", binSubPath: "bin", tarFlags: ["xz", "--strip=1", "-f"] };
 	},
 
+	getReleaseIndexUrl(): string {
+		return "https://nodejs.org/dist/index.json";
+	},
+
+	parseReleaseIndex(body: unknown): Array<{ version: string; lts?: string }> {
+		if (!Array.isArray(body)) return [];
+		return body.flatMap((entry: { version?: unknown; lts?: unknown }) => {
+			if (typeof entry?.version !== "string") return [];
+			const version = entry.version.replace(/^v/, "");
+			return typeof entry.lts === "string" ? [{ version, lts: entry.lts }] : [{ version }];
+		});
+	},
+
+	getChecksumUrl(version: string, platform: string, _arch: string, baseUrl?: string, libc: Libc = "glibc"): string {
+		return `${resolveBaseUrl(version, platform, libc, baseUrl)}/v${version}/SHASUMS256.txt`;
+	},
+
+	getChecksumSignatureUrl(version: string, baseUrl = DIST_URL, libc: Libc = "glibc"): string | undefined {
+		// Neither unofficial-builds nor the nightly and rc channels sign their checksums
+		return libc === "musl" || releaseChannel(version) ? undefined : `${baseUrl}/v${version}/SHASUMS256.txt.sig`;
+	},
+
+	channels: {
+		nightly: { url: `${CHANNELS_URL}/nightly/index.json`, parse: latestFromIndex },
+		rc: { url: `${CHANNELS_URL}/rc/index.json`, parse: latestFromIndex },
+	},
+
+	releaseChannel,
+
+	signingKeyring: NODE_RELEASE_KEYRING,
+
+	muslMirror: "node-musl",
+
 	verifyCommand: ["node", "--version"] as [string, ...string[]],
+
+	parseVersionOutput(stdout: string): string | undefined {
+		return stdout.match(/^v(\d+\.\d+\.\d+\S*)/m)?.[1];
+	},
 };
@@ -0,0 +1,53 @@
+/**
+ * pnpm standalone executable descriptor, for `package-manager-install: standalone`.
+ *
+ * pnpm publishes self-contained executables (Node.js bundled in) with every
+ * GitHub release, installed by the RawBinaryInstaller instead of corepack.
+ *
+ * URL format: https://github.com/pnpm/pnpm/releases/download/v{version}/{binaryName}
+ *   (or {baseUrl}/v{version}/{binaryName} for a mirror)
+ * musl (Alpine): the statically linked `pnpm-linuxstatic-*` builds
+ * Verify: `pnpm --version` prints "{version}", run from tmpdir like the corepack
+ *   path so the project's configDependencies and packageManager are not read
+ */
+
+const binaries: Record<string, Record<string, string>> = {
+	linux: {
+		x64: "pnpm-linux-x64",
+		arm64: "pnpm-linux-arm64",
+	},
+	darwin: {
+		x64: "pnpm-macos-x64",
+		arm64: "pnpm-macos-arm64",
+	},
+	win32: {
+		x64: "pnpm-win-x64.exe",
+	},
+};
+
+const muslBinaries: Record<string, Record<string, string>> = {
+	linux: {
+		x64: "pnpm-linuxstatic-x64",
+		arm64: "pnpm-linuxstatic-arm64",
+	},
+};
+
+export const descriptor = {
+	name: "pnpm",
+
+	baseUrl: "https://github.com/pnpm/pnpm/releases/download",
+
+	urlTemplate: "{baseUrl}/v{version}/{binary}",
+
+	binaries,
+
+	muslBinaries,
+
+	verifyCommand: ["pnpm", "--version"] as [string, ...string[]],
+
+	verifyFromTmpdir: true,
+
+	parseVersionOutput(stdout: string): string | undefined {
+		return stdout.match(/^(\d+\.\d+\.\d+\S*)/m)?.[1];
+	},
+};
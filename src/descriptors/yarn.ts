@@ -0,0 +1,43 @@
+/**
+ * Yarn release bundle descriptors, for `package-manager-install: standalone`.
+ *
+ * Every Yarn release is also published as a single JavaScript file, installed
+ * by the RawBinaryInstaller as a script run with the installed Node.js instead
+ * of through corepack. Yarn 1 (Classic) and Yarn 2+ (Berry) publish them in
+ * different places.
+ *
+ * Classic URL format: https://github.com/yarnpkg/yarn/releases/download/v{version}/yarn-{version}.js
+ * Berry URL format: https://repo.yarnpkg.com/{version}/packages/yarnpkg-cli/bin/yarn.js
+ *   (or {baseUrl}/... for a mirror of either)
+ * Verify: `yarn --version` prints "{version}"
+ */
+
+const common = {
+	name: "yarn",
+
+	binaries: {},
+
+	script: true,
+
+	verifyCommand: ["yarn", "--version"] as [string, ...string[]],
+
+	parseVersionOutput(stdout: string): string | undefined {
+		return stdout.match(/^(\d+\.\d+\.\d+\S*)/m)?.[1];
+	},
+};
+
+export const classicDescriptor = {
+	...common,
+
+	baseUrl: "https://github.com/yarnpkg/yarn/releases/download",
+
+	urlTemplate: "{baseUrl}/v{version}/yarn-{version}.js",
+};
+
+export const berryDescriptor = {
+	...common,
+
+	baseUrl: "https://repo.yarnpkg.com",
+
+	urlTemplate: "{baseUrl}/{version}/packages/yarnpkg-cli/bin/yarn.js",
+};
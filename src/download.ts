@@ -0,0 +1,149 @@
+import { join } from "node:path";
+import { FileSystem, HttpClient, HttpClientRequest } from "@effect/platform";
+import { Config, Data, Duration, Effect, Sink, Stream } from "effect";
+import { fileNameFromUrl } from "./checksum.js";
+import { DownloadError } from "./errors.js";
+
+/**
+ * Options for a single file download.
+ * - `headers`: sent with every request (e.g., mirror authentication)
+ * - `label`: what is being downloaded (e.g., `node 24.11.0`), used in the 404 hint
+ * - `baseDelay`: delay before the first retry; doubles on each further retry
+ */
+export interface DownloadOptions {
+	readonly headers?: Readonly<Record<string, string>>;
+	readonly label?: string;
+	readonly baseDelay?: Duration.DurationInput;
+}
+
+/** Upper bound for the delay between two attempts. */
+const MAX_DELAY = Duration.seconds(30);
+
+/**
+ * A failed attempt. `retryable` is false when another attempt cannot succeed.
+ */
+class AttemptError extends Data.TaggedError("AttemptError")<{
+	readonly reason: string;
+	readonly retryable: boolean;
+	readonly statusCode?: number;
+}> {}
+
+/**
+ * Statuses worth retrying: request timeout, rate limiting and server errors.
+ */
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+/**
+ * Downloads `url` into `path` once. When `path` already holds bytes from an
+ * interrupted attempt, asks for the rest with a Range request and appends on 206;
+ * a full 200 response overwrites the partial file.
+ */
+const attemptDownload = (url: string, path: string, options: DownloadOptions) =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const client = yield* HttpClient.HttpClient;
+
+		const offset = yield* fs.stat(path).pipe(
+			Effect.map((info) => Number(info.size)),
+			Effect.orElseSucceed(() => 0),
+		);
+
+		let request = HttpClientRequest.get(url).pipe(HttpClientRequest.setHeaders(options.headers ?? {}));
+		if (offset > 0) {
+			request = request.pipe(HttpClientRequest.setHeader("Range", `bytes=${offset}-`));
+		}
+
+		const response = yield* client
+			.execute(request)
+			.pipe(Effect.mapError((cause) => new AttemptError({ reason: cause.message, retryable: true })));
+
+		if (response.status === 404) {
+			const subject = options.label ?? fileNameFromUrl(url);
+			return yield* Effect.fail(
+				new AttemptError({
+					reason: `${subject} does not exist: ${url} returned 404. Check that this version is published for ${process.platform}-${process.arch}`,
+					retryable: false,
+					statusCode: 404,
+				}),
+			);
+		}
+		if (response.status !== 200 && response.status !== 206) {
+			return yield* Effect.fail(
+				new AttemptError({
+					reason: `${url} returned ${response.status}`,
+					retryable: isRetryableStatus(response.status),
+					statusCode: response.status,
+				}),
+			);
+		}
+
+		const resume = response.status === 206;
+		if (resume) {
+			yield* Effect.log(`Resuming ${fileNameFromUrl(url)} at byte ${offset}`);
+		}
+
+		yield* response.stream.pipe(
+			Stream.mapError((cause) => new AttemptError({ reason: cause.message, retryable: true })),
+			Stream.run(
+				fs
+					.sink(path, { flag: resume ? "a" : "w" })
+					.pipe(Sink.mapError((cause) => new AttemptError({ reason: cause.message, retryable: false }))),
+			),
+		);
+	});
+
+/**
+ * Downloads a file into a fresh temporary directory and returns its path.
+ *
+ * Network errors, timeouts, 408/429 and 5xx responses are retried with
+ * exponential backoff, resuming partial transfers where the server supports
+ * Range requests. `download-retries` sets the number of retries (default 3) and
+ * `download-timeout` the seconds allowed per attempt (default 300, 0 disables it).
+ * A 404 fails immediately with a hint that the version does not exist.
+ */
+export const downloadFile = (url: string, options: DownloadOptions = {}) =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const retries = Math.max(0, yield* Config.integer("download-retries").pipe(Config.withDefault(3)));
+		const timeout = Math.max(0, yield* Config.integer("download-timeout").pipe(Config.withDefault(300)));
+
+		const fileName = fileNameFromUrl(url);
+		const path = join(yield* fs.makeTempDirectory(), fileName);
+		const attempts = retries + 1;
+
+		let delay = Duration.decode(options.baseDelay ?? "1 second");
+		for (let attempt = 1; ; attempt++) {
+			const once = attemptDownload(url, path, options);
+			const result = yield* Effect.either(
+				timeout > 0
+					? once.pipe(
+							Effect.timeoutFail({
+								duration: Duration.seconds(timeout),
+								onTimeout: () => new AttemptError({ reason: `timed out after ${timeout}s`, retryable: true }),
+							}),
+						)
+					: once,
+			);
+			if (result._tag === "Right") return path;
+
+			const error = result.left;
+			if (!error.retryable || attempt === attempts) {
+				return yield* Effect.fail(
+					new DownloadError({
+						url,
+						attempts: attempt,
+						reason: error.retryable
+							? `Failed to download ${fileName} after ${attempt} attempt(s): ${error.reason}`
+							: error.reason,
+						...(error.statusCode !== undefined ? { statusCode: error.statusCode } : {}),
+					}),
+				);
+			}
+
+			yield* Effect.logWarning(
+				`Download of ${fileName} failed (${error.reason}), retrying in ${Duration.format(delay)} (attempt ${attempt + 1} of ${attempts})`,
+			);
+			yield* Effect.sleep(delay);
+			delay = Duration.min(Duration.times(delay, 2), MAX_DELAY);
+		}
+	});
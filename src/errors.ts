@@ -12,6 +12,17 @@ export class ConfigError extends Data.TaggedError("ConfigError")<{
 	readonly cause?: unknown;
 }> {}
 
+/**
+ * Error thrown when a version range or alias cannot be resolved to a concrete version.
+ * e.g., release index unreachable, no release satisfying the range
+ */
+export class VersionResolutionError extends Data.TaggedError("VersionResolutionError")<{
+	readonly tool: string;
+	readonly spec: string;
+	readonly reason: string;
+	readonly cause?: unknown;
+}> {}
+
 /**
  * Error thrown when a runtime (node, bun, deno) fails to install.
  */
@@ -22,6 +33,40 @@ export class RuntimeInstallError extends Data.TaggedError("RuntimeInstallError")
 	readonly cause?: unknown;
 }> {}
 
+/**
+ * Error thrown when a download fails after all retries, or immediately for
+ * responses that retrying cannot fix (e.g., 404). `statusCode` is the last HTTP status, if any.
+ */
+export class DownloadError extends Data.TaggedError("DownloadError")<{
+	readonly url: string;
+	readonly attempts: number;
+	readonly reason: string;
+	readonly statusCode?: number;
+}> {}
+
+/**
+ * Error thrown when a downloaded archive or binary does not match its published SHA-256 checksum.
+ */
+export class ChecksumMismatchError extends Data.TaggedError("ChecksumMismatchError")<{
+	readonly tool: string;
+	readonly version: string;
+	readonly file: string;
+	readonly expected: string;
+	readonly actual: string;
+	readonly reason: string;
+}> {}
+
+/**
+ * Error thrown when a checksum document's OpenPGP signature cannot be verified
+ * against the pinned release keyring.
+ */
+export class SignatureVerificationError extends Data.TaggedError("SignatureVerificationError")<{
+	readonly tool: string;
+	readonly version: string;
+	readonly reason: string;
+	readonly cause?: unknown;
+}> {}
+
 /**
  * Error thrown when setting up a package manager (pnpm, yarn, npm, bun) fails.
  */
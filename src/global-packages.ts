@@ -0,0 +1,128 @@
+import { homedir, platform, tmpdir } from "node:os";
+import { join } from "node:path";
+import { ActionOutputs, CommandRunner } from "@savvy-web/github-action-effects";
+import { Effect, Schema } from "effect";
+import type { PackageManager } from "./cache.js";
+import { formatSuccess } from "./emoji.js";
+import { ConfigError, DependencyInstallError } from "./errors.js";
+import { extractErrorReason } from "./runtime-installer.js";
+import { GlobalPackage } from "./schemas.js";
+
+/**
+ * Package manager that performs global installs for the project's package manager.
+ * Yarn Berry has no global install, so Yarn projects use npm (Node.js is always present).
+ */
+const globalInstaller = (pm: PackageManager): Exclude<PackageManager, "yarn"> => (pm === "yarn" ? "npm" : pm);
+
+/**
+ * Parses `global-packages` entries of the form `name@version` (scoped names keep
+ * their leading `@`). Versions must be absolute, like devEngines versions: ranges
+ * and dist-tags would make the cache key meaningless.
+ */
+export const parseGlobalPackages = (
+	entries: ReadonlyArray<string>,
+): Effect.Effect<ReadonlyArray<GlobalPackage>, ConfigError> =>
+	Effect.forEach(entries, (entry) => {
+		const at = entry.lastIndexOf("@");
+		const raw = at > 0 ? { name: entry.slice(0, at), version: entry.slice(at + 1) } : { name: entry };
+		return Schema.decodeUnknown(GlobalPackage)(raw).pipe(
+			Effect.mapError(
+				(cause) =>
+					new ConfigError({
+						reason: `Invalid global-packages entry "${entry}": expected name@version with an absolute version (e.g., typescript@5.9.3), not a semver range or dist-tag`,
+						cause,
+					}),
+			),
+		);
+	});
+
+/**
+ * Directory global packages are installed into. A directory of our own (instead
+ * of the package manager's default global prefix) needs no sudo and can be
+ * cached on its own.
+ */
+export const getGlobalPackagesDirectory = (pm: PackageManager): string =>
+	join(homedir(), ".workflow-runtime", "global", globalInstaller(pm));
+
+/**
+ * Directory the installed executables are linked into, added to PATH.
+ */
+/* v8 ignore start -- platform-specific layout, only one branch executes per OS */
+const getGlobalBinDirectory = (pm: PackageManager): string => {
+	const dir = getGlobalPackagesDirectory(pm);
+	switch (globalInstaller(pm)) {
+		case "npm":
+			return platform() === "win32" ? dir : join(dir, "bin");
+		case "pnpm":
+			return dir;
+		case "bun":
+		case "deno":
+			return join(dir, "bin");
+	}
+};
+/* v8 ignore stop */
+
+/**
+ * Installs pinned packages globally with the project's package manager:
+ *   npm  → `npm install --global --prefix <dir>`
+ *   pnpm → `pnpm add --global` with PNPM_HOME=<dir>
+ *   bun  → `bun add --global` with BUN_INSTALL_GLOBAL_DIR and BUN_INSTALL_BIN under <dir>
+ *   deno → `deno install --global --root <dir>`, one `npm:` specifier at a time
+ *
+ * The environment variables and the bin directory are exported so later steps
+ * see the same global location. Commands run from tmpdir so pnpm doesn't read
+ * the project's pnpm-workspace.yaml.
+ */
+export const installGlobalPackages = (pm: PackageManager, packages: ReadonlyArray<GlobalPackage>) =>
+	Effect.gen(function* () {
+		if (packages.length === 0) return;
+
+		const runner = yield* CommandRunner;
+		const outputs = yield* ActionOutputs;
+		const installer = globalInstaller(pm);
+		const dir = getGlobalPackagesDirectory(pm);
+		const specs = packages.map((p) => `${p.name}@${p.version}`);
+		const opts = { cwd: tmpdir(), streaming: true };
+
+		if (installer !== pm) {
+			yield* Effect.log(`${pm} has no global install, using ${installer} for global packages`);
+		}
+		yield* Effect.log(`Installing global packages: ${specs.join(", ")}`);
+		yield* outputs.addPath(getGlobalBinDirectory(pm));
+
+		switch (installer) {
+			case "npm":
+				yield* runner.exec("npm", ["install", "--global", "--prefix", dir, ...specs], opts);
+				break;
+			case "pnpm":
+				yield* outputs.exportVariable("PNPM_HOME", dir);
+				yield* runner.exec("pnpm", ["add", "--global", ...specs], opts);
+				break;
+			case "bun":
+				yield* outputs.exportVariable("BUN_INSTALL_GLOBAL_DIR", join(dir, "install", "global"));
+				yield* outputs.exportVariable("BUN_INSTALL_BIN", join(dir, "bin"));
+				yield* runner.exec("bun", ["add", "--global", ...specs], opts);
+				break;
+			case "deno":
+				// Installed CLIs get all permissions; --force replaces shims restored from cache
+				for (const spec of specs) {
+					yield* runner.exec(
+						"deno",
+						["install", "--global", "--allow-all", "--force", "--root", dir, `npm:${spec}`],
+						opts,
+					);
+				}
+				break;
+		}
+
+		yield* Effect.log(formatSuccess(`Global packages installed with ${installer}`));
+	}).pipe(
+		Effect.mapError(
+			(cause) =>
+				new DependencyInstallError({
+					packageManager: pm,
+					reason: `Failed to install global packages: ${extractErrorReason(cause)}`,
+					cause,
+				}),
+		),
+	);
@@ -0,0 +1,137 @@
+import { Effect, Schema } from "effect";
+import type { PackageManager } from "./cache.js";
+import { ConfigError } from "./errors.js";
+import { InstallMode } from "./schemas.js";
+import type { YarnFlavor } from "./yarn.js";
+
+/**
+ * How dependencies are installed, from the `install-mode` and `install-args` inputs.
+ */
+export interface InstallOptions {
+	readonly modes: ReadonlyArray<InstallMode>;
+	/** Passed through verbatim after the flags for `modes` */
+	readonly args: ReadonlyArray<string>;
+}
+
+/**
+ * Presets that change what lands in `node_modules`, and so are part of the cache key.
+ * `frozen` and `offline-first` only change how the same packages are fetched.
+ */
+const CONTENT_MODES: ReadonlyArray<InstallMode> = ["production", "no-scripts"];
+
+/**
+ * Validates the `install-mode` entries. Fails with ConfigError naming the
+ * first unknown preset.
+ */
+export const parseInstallModes = (entries: ReadonlyArray<string>) =>
+	Effect.forEach(entries, (entry) => {
+		const mode = entry.trim().toLowerCase();
+		return Schema.is(InstallMode)(mode)
+			? Effect.succeed(mode)
+			: Effect.fail(
+					new ConfigError({
+						reason: `Invalid install-mode "${entry}"; expected frozen, offline-first, production or no-scripts`,
+					}),
+				);
+	}).pipe(Effect.map((modes) => Array.from(new Set(modes))));
+
+/**
+ * Splits the `install-args` input into arguments on whitespace. Single or
+ * double quotes keep an argument with spaces together (e.g. `--filter "./apps/*"`);
+ * no shell is involved, so nothing is expanded.
+ */
+export const splitInstallArgs = (raw: string): string[] =>
+	Array.from(raw.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), (match) => match[1] ?? match[2] ?? match[3]);
+
+/**
+ * Flags for one preset, or undefined when the package manager has no
+ * equivalent. Deno never runs npm lifecycle scripts without `--allow-scripts`,
+ * so `no-scripts` needs no flag there. Yarn Berry's `production` is handled by
+ * {@link buildInstallCommand}.
+ */
+const modeFlags = (pm: PackageManager, yarnFlavor: YarnFlavor, mode: InstallMode): string[] | undefined => {
+	const berry = pm === "yarn" && yarnFlavor === "berry";
+	switch (mode) {
+		case "frozen":
+			// The lockfile flags are part of the base command
+			return [];
+		case "offline-first":
+			return pm === "deno" || berry ? undefined : ["--prefer-offline"];
+		case "production":
+			if (pm === "npm") return ["--omit=dev"];
+			if (pm === "pnpm") return ["--prod"];
+			return pm === "deno" ? undefined : ["--production"];
+		case "no-scripts":
+			if (pm === "deno") return [];
+			return berry ? ["--mode=skip-build"] : ["--ignore-scripts"];
+	}
+};
+
+/**
+ * Builds the install command (arguments after the package manager name).
+ *
+ * Without `frozen`, the lockfile flags depend on whether a lockfile exists, as
+ * before; with it, they are always used, so a missing or outdated lockfile fails.
+ * Yarn Berry has no production flag for `yarn install`: `production` runs
+ * `yarn workspaces focus --all --production` instead, which takes no other
+ * preset. `unsupported` lists the presets left out.
+ */
+export const buildInstallCommand = (
+	pm: PackageManager,
+	options: {
+		readonly hasLockfile: boolean;
+		readonly yarnFlavor?: YarnFlavor;
+		readonly install?: InstallOptions;
+	},
+): { command: string[]; unsupported: InstallMode[] } => {
+	const modes = options.install?.modes ?? [];
+	const args = options.install?.args ?? [];
+	const yarnFlavor = options.yarnFlavor ?? "berry";
+	const frozen = options.hasLockfile || modes.includes("frozen");
+
+	if (pm === "yarn" && yarnFlavor === "berry" && modes.includes("production")) {
+		return {
+			command: ["workspaces", "focus", "--all", "--production", ...args],
+			unsupported: modes.filter((mode) => mode !== "production" && mode !== "frozen"),
+		};
+	}
+
+	let command: string[];
+	switch (pm) {
+		case "npm":
+			command = frozen ? ["ci"] : ["install"];
+			break;
+		case "pnpm":
+		case "bun":
+			command = frozen ? ["install", "--frozen-lockfile"] : ["install"];
+			break;
+		case "yarn":
+			if (yarnFlavor === "classic") {
+				command = frozen ? ["install", "--frozen-lockfile"] : ["install"];
+			} else {
+				command = frozen ? ["install", "--immutable"] : ["install", "--no-immutable"];
+			}
+			break;
+		case "deno":
+			command = frozen ? ["install", "--frozen"] : ["install"];
+			break;
+	}
+
+	const unsupported: InstallMode[] = [];
+	for (const mode of modes) {
+		const flags = modeFlags(pm, yarnFlavor, mode);
+		if (flags === undefined) unsupported.push(mode);
+		else command.push(...flags);
+	}
+	return { command: [...command, ...args], unsupported };
+};
+
+/**
+ * The part of the install options hashed into the cache key: the presets that
+ * change what gets installed, and any `install-args` (which may, e.g. `--filter`).
+ * Undefined when neither is set, so default installs keep their keys.
+ */
+export const installCacheSignature = (install: InstallOptions): string | undefined => {
+	const parts = [...CONTENT_MODES.filter((mode) => install.modes.includes(mode)), ...install.args];
+	return parts.length > 0 ? parts.join(" ") : undefined;
+};
@@ -0,0 +1,75 @@
+import { Effect } from "effect";
+import { hashFile } from "./checksum.js";
+import { downloadFile } from "./download.js";
+import { PackageManagerSetupError } from "./errors.js";
+import { extractErrorReason } from "./runtime-installer.js";
+
+/**
+ * Where corepack downloads a pnpm or Yarn version from, which is the file the
+ * `packageManager` integrity hash is computed over: the npm tarball for pnpm and
+ * Yarn 1, the `yarn.js` release bundle for Yarn 2+. `COREPACK_NPM_REGISTRY`
+ * replaces the npm registry, as it does for corepack.
+ */
+export const corepackDownloadUrl = (packageManager: "pnpm" | "yarn", version: string): string => {
+	const registry = (process.env.COREPACK_NPM_REGISTRY || "https://registry.npmjs.org").replace(/\/+$/, "");
+	if (packageManager === "pnpm") return `${registry}/pnpm/-/pnpm-${version}.tgz`;
+	return Number.parseInt(version, 10) >= 2
+		? `https://repo.yarnpkg.com/${version}/packages/yarnpkg-cli/bin/yarn.js`
+		: `${registry}/yarn/-/yarn-${version}.tgz`;
+};
+
+/**
+ * The error for a package manager that does not match its `packageManager`
+ * integrity hash, with how to fix the field.
+ */
+export const integrityMismatchError = (
+	packageManager: string,
+	version: string,
+	expected: string,
+	actual: string,
+	cause?: unknown,
+) =>
+	new PackageManagerSetupError({
+		packageManager,
+		version,
+		reason:
+			`${packageManager}@${version} does not match the integrity hash in the packageManager field: ` +
+			`expected ${expected}, got ${actual}. The hash is stale or wrong, or the download was tampered with; ` +
+			`update it with \`corepack use ${packageManager}@${version}\` or remove it`,
+		cause,
+	});
+
+/**
+ * Reads corepack's hash mismatch failure (`Mismatch hashes. Expected <hex>, got <hex>`).
+ */
+export const parseCorepackMismatch = (output: string): { expected: string; actual: string } | undefined => {
+	const match = output.match(/Mismatch hashes\. Expected (\w+), got (\w+)/);
+	return match ? { expected: match[1], actual: match[2] } : undefined;
+};
+
+/**
+ * Checks a `packageManager` integrity hash without corepack
+ * (`package-manager-install: standalone`): downloads the file corepack would
+ * and compares its digest. Fails with PackageManagerSetupError on a mismatch.
+ */
+export const verifyPackageManagerIntegrity = (packageManager: "pnpm" | "yarn", version: string, integrity: string) =>
+	Effect.gen(function* () {
+		const [algorithm, expected] = integrity.split(".");
+		const url = corepackDownloadUrl(packageManager, version);
+		const actual = yield* downloadFile(url, { label: `${packageManager} ${version}` }).pipe(
+			Effect.flatMap((file) => hashFile(file, algorithm)),
+			Effect.mapError(
+				(cause) =>
+					new PackageManagerSetupError({
+						packageManager,
+						version,
+						reason: `Failed to check the integrity hash against ${url}: ${extractErrorReason(cause)}`,
+						cause,
+					}),
+			),
+		);
+		if (actual !== expected.toLowerCase()) {
+			return yield* Effect.fail(integrityMismatchError(packageManager, version, integrity, `${algorithm}.${actual}`));
+		}
+		yield* Effect.log(`Verified ${packageManager}@${version} against its ${algorithm} integrity hash`);
+	});
@@ -0,0 +1,44 @@
+import { FileSystem } from "@effect/platform";
+import { Effect } from "effect";
+
+/**
+ * The C library runtime binaries must be built against. Only meaningful on
+ * Linux; every other platform reports `glibc`, i.e. the default upstream builds.
+ */
+export type Libc = "glibc" | "musl";
+
+/**
+ * Reads the libc from Node.js's diagnostic report of the action's own process.
+ * The report header carries `glibcVersionRuntime` only on glibc builds of Node.js,
+ * so a report without it means the action itself runs on musl.
+ */
+const fromProcessReport = (): Libc | undefined => {
+	const report = process.report?.getReport() as { header?: { glibcVersionRuntime?: string } } | undefined;
+	if (!report?.header) return undefined;
+	return report.header.glibcVersionRuntime ? "glibc" : "musl";
+};
+
+/**
+ * Detects whether runtimes should be installed as glibc or musl builds.
+ *
+ * `/etc/alpine-release` (present in `alpine` and `node:alpine` container images)
+ * means musl. Otherwise the libc of the action's own Node.js process decides,
+ * falling back to glibc when no report is available.
+ */
+export const detectLibc: Effect.Effect<Libc, never, FileSystem.FileSystem> = Effect.gen(function* () {
+	if (process.platform !== "linux") return "glibc";
+
+	const fs = yield* FileSystem.FileSystem;
+	const alpine = yield* fs.exists("/etc/alpine-release").pipe(Effect.orElseSucceed(() => false));
+	if (alpine) return "musl";
+
+	return fromProcessReport() ?? "glibc";
+});
+
+/**
+ * Tool cache name for a tool, keeping musl builds apart from the glibc builds
+ * a host runner may have cached under the plain name. Non-default build
+ * variants (e.g. Bun's `baseline`) get their own name too.
+ */
+export const toolCacheName = (name: string, libc: Libc, variant = "default"): string =>
+	[name, ...(libc === "musl" ? ["musl"] : []), ...(variant === "default" ? [] : [variant])].join("-");
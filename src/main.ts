@@ -1,7 +1,9 @@
-import { homedir, arch as osArch, platform as osPlatform, tmpdir } from "node:os";
+import { platform as osPlatform, tmpdir } from "node:os";
 import { join } from "node:path";
-import { FileSystem } from "@effect/platform";
+import type { HttpClient } from "@effect/platform";
+import { FetchHttpClient, FileSystem } from "@effect/platform";
 import { NodeFileSystem } from "@effect/platform-node";
+import type { ToolInstaller } from "@savvy-web/github-action-effects";
 import {
 	Action,
 	ActionCacheLive,
@@ -11,20 +13,61 @@ import {
 	ActionStateLive,
 	CommandRunner,
 	CommandRunnerLive,
-	ToolInstaller,
 	ToolInstallerLive,
 } from "@savvy-web/github-action-effects";
-import type { Context } from "effect";
-import { Config, Effect, Layer, Option } from "effect";
+import type { Context, LogLevel } from "effect";
+import { Array as Arr, Config, Duration, Effect, Either, FiberRef, HashSet, Layer, Logger, Option } from "effect";
 import type { PackageManager } from "./cache.js";
-import { findLockFiles, getCombinedCacheConfig, restoreCache } from "./cache.js";
-import { detectBiome, detectTurbo, loadPackageJson, parseDevEngines } from "./config.js";
-import { binaryMap as biomeBinaryMap } from "./descriptors/biome.js";
-import { formatDetection, formatInstallation, formatPackageManager, formatRuntime, formatSuccess } from "./emoji.js";
-import { DependencyInstallError, PackageManagerSetupError } from "./errors.js";
-import type { InstalledRuntime } from "./runtime-installer.js";
-import { RuntimeInstaller, extractErrorReason, formatCauseDetail, installerLayerFor } from "./runtime-installer.js";
-import type { PackageManagerEntry, RuntimeEntry } from "./schemas.js";
+import { findLockFiles, getCombinedCacheConfig, resolveWorkingPaths, restoreCache } from "./cache.js";
+import {
+	detectBiome,
+	detectDevEngines,
+	detectTools,
+	detectTurbo,
+	getPackageManagerInstall,
+	getWorkingDirectory,
+	normalizeWorkingDirectory,
+	parseDevEngines,
+} from "./config.js";
+import {
+	formatDetection,
+	formatFailure,
+	formatInstallation,
+	formatPackageManager,
+	formatRuntime,
+	formatSuccess,
+	formatWarning,
+} from "./emoji.js";
+import {
+	ChecksumMismatchError,
+	ConfigError,
+	DependencyInstallError,
+	PackageManagerSetupError,
+	RuntimeInstallError,
+} from "./errors.js";
+import { getGlobalPackagesDirectory, installGlobalPackages, parseGlobalPackages } from "./global-packages.js";
+import type { InstallOptions } from "./install-options.js";
+import { buildInstallCommand, installCacheSignature, parseInstallModes, splitInstallArgs } from "./install-options.js";
+import { integrityMismatchError, parseCorepackMismatch, verifyPackageManagerIntegrity } from "./integrity.js";
+import { findToolCachedNpm, upgradeNpm } from "./npm-upgrade.js";
+import { configureRegistry, readRegistryConfig } from "./registry.js";
+import type { InstalledRuntime, RuntimeInstallFailure } from "./runtime-installer.js";
+import {
+	BiomeInstallerLive,
+	RawBinaryInstaller,
+	RuntimeInstaller,
+	extractErrorReason,
+	formatCauseDetail,
+	installerLayerFor,
+	makeRawBinaryInstaller,
+	standaloneDescriptor,
+	toolDescriptor,
+} from "./runtime-installer.js";
+import type { OnFail, PackageManagerEntry, RuntimeEntry, ToolEntry } from "./schemas.js";
+import { BUNDLED_VERSION, ProjectsOutput } from "./schemas.js";
+import { resolvePackageManagerEntry, resolveRuntimeEntry } from "./version-resolver.js";
+import type { YarnFlavor, YarnProject } from "./yarn.js";
+import { detectYarnProject } from "./yarn.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -69,43 +112,203 @@ export const parseMultiValueInput = (raw: string): string[] => {
 };
 
 /**
- * Install Biome CLI as a raw binary using ToolInstaller primitives.
+ * Formats the tool → version source map as `node=.nvmrc,pnpm=packageManager`.
  */
-export const installBiome = (
-	version: string,
-): Effect.Effect<void, Error, ToolInstaller | ActionOutputs | FileSystem.FileSystem> =>
+export const formatVersionSources = (sources: Readonly<Record<string, string>>): string =>
+	Object.entries(sources)
+		.map(([tool, source]) => `${tool}=${source}`)
+		.join(",");
+
+/**
+ * Applies devEngines `onFail` semantics to a setup step.
+ * - `error` / `download` / unset: the failure propagates and fails the action
+ * - `warn`: logs a warning and continues with Option.none()
+ * - `ignore`: continues silently with Option.none()
+ */
+export const withOnFail = <A, E, R>(
+	onFail: OnFail | undefined,
+	label: string,
+	effect: Effect.Effect<A, E, R>,
+): Effect.Effect<Option.Option<A>, E, R> => {
+	if (onFail !== "warn" && onFail !== "ignore") {
+		return Effect.map(effect, Option.some);
+	}
+	return effect.pipe(
+		Effect.map(Option.some),
+		Effect.catchAll((error) =>
+			Effect.gen(function* () {
+				const message = `${label} failed (onFail: ${onFail}): ${extractErrorReason(error)}`;
+				if (onFail === "warn") {
+					yield* Effect.logWarning(formatWarning(message));
+				} else {
+					yield* Effect.logDebug(message);
+				}
+				return Option.none<A>();
+			}),
+		),
+	);
+};
+
+/**
+ * How many runtimes are fetched at once.
+ */
+const RUNTIME_INSTALL_CONCURRENCY = 3;
+
+interface BufferedLog {
+	readonly logLevel: LogLevel.LogLevel;
+	readonly message: unknown;
+}
+
+/**
+ * Runs an effect with its log output held back. Returns the effect's exit and
+ * the buffered log lines, so concurrent work can be logged without interleaving.
+ */
+const withBufferedLogs = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
 	Effect.gen(function* () {
-		const toolInstaller = yield* ToolInstaller;
-		const outputs = yield* ActionOutputs;
-		const plat = osPlatform();
-		const architecture = osArch();
-
-		const binaryName = biomeBinaryMap[plat]?.[architecture];
-		if (!binaryName) {
-			yield* Effect.fail(new Error(`Unsupported platform for Biome: ${plat}-${architecture}`));
-			return;
-		}
+		const logs: Array<BufferedLog> = [];
+		const buffer = Logger.make(({ logLevel, message }) => {
+			logs.push({ logLevel, message });
+		});
+		const exit = yield* Effect.exit(effect.pipe(Effect.locally(FiberRef.currentLoggers, HashSet.make(buffer))));
+		return { exit, logs };
+	});
 
-		const url = `https://github.com/biomejs/biome/releases/download/%40biomejs%2Fbiome%40${version}/${binaryName}`;
-		const finalName = plat === "win32" ? "biome.exe" : "biome";
+const replayLogs = (logs: ReadonlyArray<BufferedLog>) =>
+	Effect.forEach(
+		logs,
+		({ logLevel, message }) => Effect.logWithLevel(logLevel, ...(Array.isArray(message) ? message : [message])),
+		{ discard: true },
+	);
 
-		// Download the binary
-		const downloadedPath = yield* toolInstaller.download(url);
+/**
+ * Installs runtimes with bounded concurrency.
+ *
+ * Downloads, verification and extraction run concurrently with each runtime's
+ * logs held back. Then, in the order declared in devEngines, each runtime gets its
+ * own log group, is added to PATH and has its version checked, so PATH order
+ * matches a sequential install.
+ *
+ * `onFail: warn | ignore` runtimes are skipped on failure. Every other failure is
+ * collected, so the action reports all failed runtimes rather than only the first.
+ */
+export const installRuntimes = (runtimes: ReadonlyArray<RuntimeEntry>) =>
+	Effect.gen(function* () {
+		const logger = yield* ActionLogger;
 
-		// Cache the file
-		const cachedDir = yield* toolInstaller.cacheFile(downloadedPath, finalName, "biome", version);
+		const prepared = yield* Effect.forEach(
+			runtimes,
+			(rt) =>
+				withBufferedLogs(
+					RuntimeInstaller.pipe(
+						Effect.flatMap((installer) => installer.prepare(rt.version)),
+						Effect.provide(installerLayerFor(rt.name)),
+						Effect.timed,
+					),
+				),
+			{ concurrency: RUNTIME_INSTALL_CONCURRENCY },
+		);
 
-		// Make executable on non-Windows platforms
-		if (plat !== "win32") {
-			const fs = yield* FileSystem.FileSystem;
-			yield* fs.chmod(join(cachedDir, finalName), 0o755);
+		const installed: Array<InstalledRuntime> = [];
+		const failures: Array<{ readonly entry: RuntimeEntry; readonly error: RuntimeInstallFailure }> = [];
+		for (const [i, rt] of runtimes.entries()) {
+			const { exit, logs } = prepared[i];
+			const label = `${rt.name}@${rt.version} install`;
+			const result = yield* logger.group(
+				formatInstallation(`${formatRuntime(rt.name)} ${rt.version}`),
+				Effect.gen(function* () {
+					yield* replayLogs(logs);
+					return yield* withOnFail(
+						rt.onFail,
+						label,
+						Effect.gen(function* () {
+							const [duration, runtime] = yield* exit;
+							const active = yield* RuntimeInstaller.pipe(
+								Effect.flatMap((installer) => installer.activate(runtime)),
+								Effect.provide(installerLayerFor(rt.name)),
+							);
+							yield* Effect.log(
+								formatSuccess(
+									`${formatRuntime(rt.name)} ${active.version} (${active.source}, ${Duration.format(duration)})`,
+								),
+							);
+							return active;
+						}),
+					);
+				}).pipe(
+					Effect.tapError((error) => Effect.logError(formatFailure(`${label} failed: ${extractErrorReason(error)}`))),
+					Effect.either,
+				),
+			);
+
+			if (Either.isLeft(result)) {
+				failures.push({ entry: rt, error: result.left });
+			} else if (Option.isSome(result.right)) {
+				installed.push(result.right.value);
+			}
 		}
 
-		// Add to PATH
-		yield* outputs.addPath(cachedDir);
+		if (failures.length === 1) {
+			return yield* Effect.fail(failures[0].error);
+		}
+		if (failures.length > 1) {
+			return yield* Effect.fail(
+				new RuntimeInstallError({
+					runtime: failures.map((f) => f.entry.name).join(", "),
+					version: failures.map((f) => f.entry.version).join(", "),
+					reason: `${failures.length} runtimes failed to install:\n${failures
+						.map((f) => `- ${f.entry.name}@${f.entry.version}: ${extractErrorReason(f.error)}`)
+						.join("\n")}`,
+					cause: failures.map((f) => f.error),
+				}),
+			);
+		}
+		return installed;
+	});
 
+/**
+ * Install Biome CLI with the RawBinaryInstaller. The binary is verified against
+ * the release's SHA-256 asset digest before it is cached.
+ */
+export const installBiome = (
+	version: string,
+): Effect.Effect<
+	InstalledRuntime,
+	RuntimeInstallFailure,
+	ToolInstaller | CommandRunner | ActionOutputs | FileSystem.FileSystem | HttpClient.HttpClient
+> =>
+	Effect.gen(function* () {
+		const installer = yield* RawBinaryInstaller;
+		const installed = yield* installer.install(version);
 		yield* Effect.log(formatSuccess(`Biome ${version}`));
-	}).pipe(Effect.catchAll((error) => Effect.fail(new Error(`Biome install failed: ${error}`))));
+		return installed;
+	}).pipe(Effect.provide(BiomeInstallerLive));
+
+/**
+ * Installs the `workflowRuntime.tools` entries one after another, each in its
+ * own log group, honoring the entry's `onFail`. Returns the installed tools.
+ */
+export const installTools = (tools: ReadonlyArray<ToolEntry>) =>
+	Effect.gen(function* () {
+		const logger = yield* ActionLogger;
+		const installed: Array<InstalledRuntime> = [];
+		for (const tool of tools) {
+			const descriptor = toolDescriptor(tool);
+			/* v8 ignore next -- detectTools rejects tools without a descriptor */
+			if (!descriptor) continue;
+			const result = yield* logger.group(
+				formatInstallation(`${tool.name} ${tool.version}`),
+				withOnFail(
+					tool.onFail,
+					`${tool.name}@${tool.version} install`,
+					makeRawBinaryInstaller(descriptor)
+						.install(tool.version)
+						.pipe(Effect.tap(() => Effect.log(formatSuccess(`${tool.name} ${tool.version}`)))),
+				),
+			);
+			if (Option.isSome(result)) installed.push(result.value);
+		}
+		return installed;
+	});
 
 /**
  * Determines active package managers from the set of installed runtimes
@@ -126,55 +329,238 @@ export const getActivePackageManagers = (
 	return Array.from(pms);
 };
 
+/**
+ * Returns the project's package-manager runtime (bun for bun, deno for deno,
+ * node otherwise) when the project declared it but it was not installed
+ * because its install failed under onFail warn/ignore.
+ */
+export const skippedPackageManagerRuntime = (
+	project: Pick<ProjectConfig, "runtimes" | "packageManager">,
+	installed: ReadonlyArray<InstalledRuntime>,
+): Option.Option<RuntimeEntry> => {
+	const pm = project.packageManager.name;
+	const runtime = pm === "bun" || pm === "deno" ? pm : "node";
+	return Arr.findFirst(
+		project.runtimes,
+		(rt) => rt.name === runtime && !installed.some((active) => active.name === runtime),
+	);
+};
+
+/**
+ * Configuration detected for one project (a directory with a package.json),
+ * with version ranges and aliases already resolved.
+ */
+export interface ProjectConfig {
+	readonly directory: string;
+	readonly runtimes: ReadonlyArray<RuntimeEntry>;
+	readonly packageManager: PackageManagerEntry;
+	readonly biome: Option.Option<string>;
+	readonly turbo: boolean;
+	readonly sources: Readonly<Record<string, string>>;
+	readonly tools: ReadonlyArray<ToolEntry>;
+}
+
+/**
+ * Resolves the project directories to set up from the `projects` input.
+ * Entries are relative to the working directory; an empty input means the
+ * working directory is the only project.
+ */
+export const parseProjectDirectories = (rawProjects: string, workingDirectory: string): string[] => {
+	const entries = parseMultiValueInput(rawProjects);
+	if (entries.length === 0) return [workingDirectory];
+	return Array.from(new Set(entries.map((p) => normalizeWorkingDirectory(join(workingDirectory, p)))));
+};
+
+/**
+ * Detects and resolves one project's configuration.
+ * Runtimes with onFail warn/ignore whose version cannot be resolved are dropped.
+ */
+export const detectProject = (directory: string) =>
+	Effect.gen(function* () {
+		if (directory !== ".") {
+			yield* Effect.log(formatDetection(`project: ${directory}`, true));
+		}
+		const { devEngines, sources } = yield* detectDevEngines(directory);
+		const parsed = parseDevEngines(devEngines);
+		// Resolve ranges and aliases (e.g. ^24, lts/*) to concrete versions.
+		const runtimes = yield* Effect.forEach(parsed.runtime, (rt) =>
+			withOnFail(rt.onFail, `Resolving ${rt.name}@${rt.version}`, resolveRuntimeEntry(rt)),
+		).pipe(Effect.map(Arr.getSomes));
+		const packageManager = yield* withOnFail(
+			parsed.packageManager.onFail,
+			`Resolving ${parsed.packageManager.name}@${parsed.packageManager.version}`,
+			resolvePackageManagerEntry(parsed.packageManager),
+		).pipe(Effect.map(Option.getOrElse(() => parsed.packageManager)));
+		const biome = yield* detectBiome(directory);
+		const turbo = yield* detectTurbo(directory);
+		const tools = yield* detectTools(directory);
+
+		yield* Effect.log(formatDetection(`runtime(s): ${runtimes.map((r) => `${r.name}@${r.version}`).join(", ")}`, true));
+		yield* Effect.log(formatDetection(`package manager: ${packageManager.name}@${packageManager.version}`, true));
+		yield* Effect.log(formatDetection(`version source(s): ${formatVersionSources(sources)}`, true));
+		if (Option.isSome(biome)) {
+			yield* Effect.log(formatDetection(`Biome: ${biome.value}`, true));
+		}
+		if (turbo) {
+			yield* Effect.log(formatDetection("Turbo configuration", true));
+		}
+		if (tools.length > 0) {
+			yield* Effect.log(formatDetection(`tool(s): ${tools.map((t) => `${t.name}@${t.version}`).join(", ")}`, true));
+		}
+
+		return { directory, runtimes, packageManager, biome, turbo, sources, tools } satisfies ProjectConfig;
+	});
+
+/**
+ * Unions entries of all projects by name, keeping first-seen order. Only one
+ * version of a tool can be on PATH, so differing versions fail with ConfigError.
+ */
+const mergeProjectEntries = <A extends { readonly name: string; readonly version: string }>(
+	projects: ReadonlyArray<ProjectConfig>,
+	entriesOf: (project: ProjectConfig) => ReadonlyArray<A>,
+	kind: string,
+): Effect.Effect<ReadonlyArray<A>, ConfigError> => {
+	const merged = new Map<string, { readonly entry: A; readonly directory: string }>();
+	const conflicts: string[] = [];
+
+	for (const project of projects) {
+		for (const entry of entriesOf(project)) {
+			const existing = merged.get(entry.name);
+			if (!existing) {
+				merged.set(entry.name, { entry, directory: project.directory });
+			} else if (existing.entry.version !== entry.version) {
+				conflicts.push(
+					`${entry.name} ${existing.entry.version} (${existing.directory}) vs ${entry.version} (${project.directory})`,
+				);
+			}
+		}
+	}
+
+	if (conflicts.length > 0) {
+		return Effect.fail(
+			new ConfigError({
+				reason: `Projects require different ${kind} versions: ${conflicts.join("; ")}. Align the versions or set the projects up in separate steps.`,
+			}),
+		);
+	}
+
+	return Effect.succeed(Array.from(merged.values(), (m) => m.entry));
+};
+
+/**
+ * Unions the runtimes of all projects so each is installed once, keeping
+ * first-seen order. Only one version of a runtime can be on PATH, so projects
+ * requiring different versions of the same runtime fail with ConfigError.
+ */
+export const mergeProjectRuntimes = (
+	projects: ReadonlyArray<ProjectConfig>,
+): Effect.Effect<ReadonlyArray<RuntimeEntry>, ConfigError> =>
+	mergeProjectEntries(projects, (project) => project.runtimes, "runtime");
+
+/**
+ * Unions the `workflowRuntime.tools` of all projects the same way as runtimes.
+ */
+export const mergeProjectTools = (
+	projects: ReadonlyArray<ProjectConfig>,
+): Effect.Effect<ReadonlyArray<ToolEntry>, ConfigError> =>
+	mergeProjectEntries(projects, (project) => project.tools, "tool");
+
+/**
+ * Builds the `projects` output: per-project package manager, runtime versions,
+ * version sources, lockfiles and tool detection, keyed by project directory.
+ */
+export const buildProjectsOutput = (
+	results: ReadonlyArray<{
+		readonly project: ProjectConfig;
+		readonly packageManagerVersion: string;
+		readonly lockfiles: ReadonlyArray<string>;
+	}>,
+	installed: ReadonlyArray<InstalledRuntime>,
+): ProjectsOutput =>
+	Object.fromEntries(
+		results.map(({ project, packageManagerVersion, lockfiles }) => [
+			project.directory,
+			{
+				packageManager: project.packageManager.name,
+				packageManagerVersion,
+				runtimes: Object.fromEntries(
+					installed.filter((rt) => project.runtimes.some((r) => r.name === rt.name)).map((rt) => [rt.name, rt.version]),
+				),
+				versionSources: project.sources,
+				lockfiles,
+				biomeVersion: Option.getOrElse(project.biome, () => ""),
+				turboEnabled: project.turbo,
+			},
+		]),
+	);
+
 /**
  * Install dependencies using the detected package manager.
- * Uses lockfile-aware flags for reproducible installs.
+ * Uses lockfile-aware flags for reproducible installs. Runs in `workingDirectory`.
+ * Deno 2 projects run `deno install`, which caches the deno.json imports (import map)
+ * and any package.json dependencies. Yarn Classic (`yarnFlavor: "classic"`) gets
+ * `--frozen-lockfile` instead of Berry's `--immutable`. `install` adds the
+ * `install-mode` presets and `install-args` (see {@link buildInstallCommand}).
  */
 export const installDependencies = (
 	packageManager: PackageManager,
+	workingDirectory = ".",
+	options: { readonly yarnFlavor?: YarnFlavor; readonly install?: InstallOptions } = {},
 ): Effect.Effect<void, DependencyInstallError, CommandRunner | FileSystem.FileSystem> =>
 	Effect.gen(function* () {
 		const runner = yield* CommandRunner;
 		const fs = yield* FileSystem.FileSystem;
 
 		const fileExists = (path: string) =>
-			fs.access(path).pipe(
+			fs.access(join(workingDirectory, path)).pipe(
 				Effect.map(() => true),
 				Effect.orElse(() => Effect.succeed(false)),
 			);
 
-		if (packageManager === "deno") {
-			yield* Effect.log("Deno caches dependencies automatically, skipping install step");
-			return;
-		}
-
-		let command: string[];
+		let hasLockfile: boolean;
 
 		switch (packageManager) {
-			case "npm": {
-				const hasLock = yield* fileExists("package-lock.json");
-				command = hasLock ? ["ci"] : ["install"];
+			case "deno": {
+				const hasConfig =
+					(yield* fileExists("deno.json")) || (yield* fileExists("deno.jsonc")) || (yield* fileExists("package.json"));
+				if (!hasConfig) {
+					yield* Effect.log("No deno.json or package.json found, skipping install step");
+					return;
+				}
+				// `deno install` without arguments (install from config) requires Deno 2
+				const versionOut = yield* runner
+					.execCapture("deno", ["--version"], { cwd: workingDirectory })
+					.pipe(Effect.orElse(() => Effect.succeed({ exitCode: 1, stdout: "", stderr: "" })));
+				const major = versionOut.stdout.match(/deno (\d+)\./)?.[1];
+				if (major !== undefined && Number(major) < 2) {
+					yield* Effect.log(`Deno ${major}.x caches dependencies on first run, skipping install step`);
+					return;
+				}
+				hasLockfile = yield* fileExists("deno.lock");
 				break;
 			}
-			case "pnpm": {
-				const hasLock = yield* fileExists("pnpm-lock.yaml");
-				command = hasLock ? ["install", "--frozen-lockfile"] : ["install"];
+			case "npm":
+				hasLockfile = yield* fileExists("package-lock.json");
 				break;
-			}
-			case "yarn": {
-				const hasLock = yield* fileExists("yarn.lock");
-				command = hasLock ? ["install", "--immutable"] : ["install", "--no-immutable"];
+			case "pnpm":
+				hasLockfile = yield* fileExists("pnpm-lock.yaml");
 				break;
-			}
-			case "bun": {
-				const hasBunLock = yield* fileExists("bun.lock");
-				const hasBunLockb = yield* fileExists("bun.lockb");
-				command = hasBunLock || hasBunLockb ? ["install", "--frozen-lockfile"] : ["install"];
+			case "yarn":
+				hasLockfile = yield* fileExists("yarn.lock");
 				break;
-			}
+			case "bun":
+				hasLockfile = (yield* fileExists("bun.lock")) || (yield* fileExists("bun.lockb"));
+				break;
+		}
+
+		const { command, unsupported } = buildInstallCommand(packageManager, { hasLockfile, ...options });
+		if (unsupported.length > 0) {
+			const name = packageManager === "yarn" && options.yarnFlavor ? `yarn (${options.yarnFlavor})` : packageManager;
+			yield* Effect.logWarning(`install-mode ${unsupported.join(", ")} has no ${name} equivalent; ignoring`);
 		}
+		yield* Effect.log(`Running: ${[packageManager, ...command].join(" ")}`);
 
-		yield* runner.exec(packageManager, command, { streaming: true }).pipe(
+		yield* runner.exec(packageManager, command, { cwd: workingDirectory, streaming: true }).pipe(
 			/* v8 ignore next 8 -- error path tested via CI fixtures */
 			Effect.mapError((cause) => {
 				const msg = cause instanceof Error ? cause.message : String(cause);
@@ -194,39 +580,45 @@ export const installDependencies = (
 
 /**
  * Setup the package manager version after Node is installed and on PATH.
- * npm: sudo npm install -g on linux/darwin (global prefix is /usr/local)
+ * npm: npm install -g, with sudo only when the global prefix needs it and
+ *   otherwise into the tool cache (see {@link upgradeNpm})
  * pnpm/yarn: corepack prepare --activate (from tmpdir to avoid workspace interference)
  * bun/deno: no setup needed (they ARE their own package manager)
+ *
+ * With an `integrity` hash from the `packageManager` field, corepack checks the
+ * download against it; a mismatch fails with a PackageManagerSetupError saying so.
+ *
+ * Returns the active package manager version. For npm with {@link BUNDLED_VERSION}
+ * this is the version that ships with the installed Node.js.
  */
 export const setupPackageManager = (
 	packageManager: PackageManager,
 	version: string,
-): Effect.Effect<void, PackageManagerSetupError, CommandRunner> =>
+	integrity?: string,
+): Effect.Effect<
+	string,
+	PackageManagerSetupError,
+	CommandRunner | ToolInstaller | ActionOutputs | FileSystem.FileSystem
+> =>
 	Effect.gen(function* () {
 		if (packageManager === "bun" || packageManager === "deno") {
 			yield* Effect.log(`${packageManager} is its own package manager, no additional setup needed`);
-			return;
+			return version;
 		}
 
 		const runner = yield* CommandRunner;
+		let activeVersion = version;
 
 		if (packageManager === "npm") {
-			// npm: install exact version globally via sudo (prefix is /usr/local)
+			// npm: install the exact version globally; upgradeNpm installs directly, with sudo or into the tool cache
 			const currentOut = yield* runner.execCapture("npm", ["--version"]);
 			const currentVersion = currentOut.stdout.trim();
-			if (currentVersion !== version) {
+			if (version === BUNDLED_VERSION) {
+				activeVersion = currentVersion;
+				yield* Effect.log(`No npm version declared, using npm ${currentVersion} bundled with Node.js`);
+			} else if (currentVersion !== version) {
 				yield* Effect.log(`Upgrading npm from ${currentVersion} to ${version}...`);
-				const plat = osPlatform();
-				if (plat === "linux" || plat === "darwin") {
-					yield* runner.exec("sudo", ["npm", "install", "-g", `npm@${version}`], { streaming: true });
-					// Fix npm cache ownership after sudo (sudo creates root-owned files in ~/.npm)
-					const npmCacheDir = join(homedir(), ".npm");
-					yield* runner
-						.exec("sudo", ["chown", "-R", `${process.getuid?.() ?? 1000}:${process.getgid?.() ?? 1000}`, npmCacheDir])
-						.pipe(Effect.catchAll(() => Effect.void));
-				} else {
-					yield* runner.exec("npm", ["install", "-g", `npm@${version}`], { streaming: true });
-				}
+				yield* upgradeNpm(version);
 			} else {
 				yield* Effect.log(`npm ${currentVersion} already matches required version`);
 			}
@@ -273,8 +665,9 @@ export const setupPackageManager = (
 				),
 			);
 
-			yield* Effect.log(`Preparing ${packageManager}@${version}...`);
-			yield* runner.exec("corepack", ["prepare", `${packageManager}@${version}`, "--activate"], {
+			yield* Effect.log(`Preparing ${packageManager}@${version}${integrity ? " (with integrity hash)" : ""}...`);
+			const spec = integrity ? `${packageManager}@${version}+${integrity}` : `${packageManager}@${version}`;
+			yield* runner.exec("corepack", ["prepare", spec, "--activate"], {
 				cwd,
 				streaming: true,
 			});
@@ -283,13 +676,19 @@ export const setupPackageManager = (
 		// Verify — pnpm must run from tmpdir to avoid configDependencies hang
 		const verifyOpts = packageManager === "pnpm" ? { cwd: tmpdir() } : {};
 		yield* runner.exec(packageManager, ["--version"], { ...verifyOpts, streaming: true });
-		yield* Effect.log(formatSuccess(`${packageManager}@${version} activated`));
+		yield* Effect.log(formatSuccess(`${packageManager}@${activeVersion} activated`));
+		return activeVersion;
 	}).pipe(
 		/* v8 ignore next 5 -- error path tested via CI fixtures */
 		Effect.mapError((cause) => {
 			const reason = extractErrorReason(cause);
 			const stderr =
 				cause && typeof cause === "object" && "stderr" in cause ? (cause as { stderr?: string }).stderr : undefined;
+			const mismatch = integrity ? parseCorepackMismatch(`${reason}\n${stderr ?? ""}`) : undefined;
+			if (integrity && mismatch) {
+				const algorithm = integrity.split(".")[0];
+				return integrityMismatchError(packageManager, version, integrity, `${algorithm}.${mismatch.actual}`, cause);
+			}
 			const detail = stderr ? `\n${stderr}` : "";
 			return new PackageManagerSetupError({
 				packageManager,
@@ -300,6 +699,33 @@ export const setupPackageManager = (
 		}),
 	);
 
+/**
+ * Installs pnpm or Yarn without corepack (`package-manager-install: standalone`):
+ * pnpm's standalone executable or Yarn's release bundle, reused from or added to
+ * the tool cache like Biome. An `integrity` hash from the `packageManager` field
+ * is checked first, against the file corepack would have downloaded. Returns the
+ * active version.
+ */
+export const installStandalonePackageManager = (packageManager: "pnpm" | "yarn", version: string, integrity?: string) =>
+	Effect.gen(function* () {
+		if (integrity) yield* verifyPackageManagerIntegrity(packageManager, version, integrity);
+		const installed = yield* makeRawBinaryInstaller(standaloneDescriptor(packageManager, version))
+			.install(version)
+			.pipe(
+				Effect.mapError(
+					(cause) =>
+						new PackageManagerSetupError({
+							packageManager,
+							version,
+							reason: `Standalone ${packageManager} install failed: ${extractErrorReason(cause)}`,
+							cause,
+						}),
+				),
+			);
+		yield* Effect.log(formatSuccess(`${packageManager}@${version} activated from ${installed.path}`));
+		return version;
+	});
+
 /**
  * Sets all action outputs from the pipeline results.
  */
@@ -310,10 +736,13 @@ export const setOutputs = (
 		readonly packageManager: PackageManagerEntry;
 		readonly biome: Option.Option<string>;
 		readonly turbo: boolean;
+		readonly sources?: Readonly<Record<string, string>>;
+		readonly yarnFlavor?: YarnFlavor;
 	},
 	cacheHit: "exact" | "partial" | "none",
 	lockfiles: string[],
 	cachePaths: string[],
+	projects?: ProjectsOutput,
 ) =>
 	Effect.gen(function* () {
 		// Runtime outputs
@@ -323,14 +752,20 @@ export const setOutputs = (
 
 		yield* outputs.set("node-version", nodeRt?.version ?? "");
 		yield* outputs.set("node-enabled", nodeRt ? "true" : "false");
+		yield* outputs.set("node-source", nodeRt?.source ?? "");
+		yield* outputs.set("node-signature-fingerprint", nodeRt?.signatureFingerprint ?? "");
 		yield* outputs.set("bun-version", bunRt?.version ?? "");
 		yield* outputs.set("bun-enabled", bunRt ? "true" : "false");
+		yield* outputs.set("bun-source", bunRt?.source ?? "");
 		yield* outputs.set("deno-version", denoRt?.version ?? "");
 		yield* outputs.set("deno-enabled", denoRt ? "true" : "false");
+		yield* outputs.set("deno-source", denoRt?.source ?? "");
 
 		// Package manager outputs
 		yield* outputs.set("package-manager", config.packageManager.name);
 		yield* outputs.set("package-manager-version", config.packageManager.version);
+		yield* outputs.set("yarn-flavor", config.yarnFlavor ?? "");
+		yield* outputs.set("version-sources", formatVersionSources(config.sources ?? {}));
 
 		// Biome outputs
 		yield* outputs.set("biome-version", Option.isSome(config.biome) ? config.biome.value : "");
@@ -344,6 +779,11 @@ export const setOutputs = (
 		yield* outputs.set("cache-hit", cacheHitOutput);
 		yield* outputs.set("lockfiles", lockfiles.join(","));
 		yield* outputs.set("cache-paths", cachePaths.join(","));
+
+		// Per-project outputs
+		if (projects) {
+			yield* outputs.setJson("projects", projects, ProjectsOutput);
+		}
 	});
 
 // ---------------------------------------------------------------------------
@@ -355,46 +795,72 @@ export const main = Effect.gen(function* () {
 	const outputs = yield* ActionOutputs;
 	const logger = yield* ActionLogger;
 
-	// 1. Parse configuration
-	const config = yield* logger.group(
-		"Detect configuration",
-		Effect.gen(function* () {
-			const devEngines = yield* loadPackageJson;
-			const parsed = parseDevEngines(devEngines);
-			const runtimes = parsed.runtime;
-			const packageManager = parsed.packageManager;
-			const biome = yield* detectBiome;
-			const turbo = yield* detectTurbo;
-
-			yield* Effect.log(
-				formatDetection(`runtime(s): ${runtimes.map((r) => `${r.name}@${r.version}`).join(", ")}`, true),
-			);
-			yield* Effect.log(formatDetection(`package manager: ${packageManager.name}@${packageManager.version}`, true));
-			if (Option.isSome(biome)) {
-				yield* Effect.log(formatDetection(`Biome: ${biome.value}`, true));
-			}
-			if (turbo) {
-				yield* Effect.log(formatDetection("Turbo configuration", true));
-			}
-
-			return { runtimes, packageManager, biome, turbo };
-		}),
-	);
+	// 1. Parse configuration (one or more projects)
+	const workingDirectory = yield* getWorkingDirectory;
+	const rawProjects = yield* Config.string("projects").pipe(Config.withDefault(""));
+	const projectDirectories = parseProjectDirectories(rawProjects, workingDirectory);
+	const projects = yield* logger.group("Detect configuration", Effect.forEach(projectDirectories, detectProject));
+	const [primary] = projects;
+	const runtimes = yield* mergeProjectRuntimes(projects);
+	const tools = yield* mergeProjectTools(projects);
+	const biome = Arr.findFirst(projects, (p) => Option.isSome(p.biome)).pipe(Option.flatMap((p) => p.biome));
+	const turbo = projects.some((p) => p.turbo);
+	const packageManagerInstall = yield* getPackageManagerInstall;
 
 	// 2. Determine active package managers and cache config
-	const pmName: PackageManager = config.packageManager.name;
-	const activePackageManagers = getActivePackageManagers(config.runtimes, pmName);
+	const activePackageManagers = Array.from(
+		new Set(projects.flatMap((p) => getActivePackageManagers(p.runtimes, p.packageManager.name))),
+	);
 
 	// Build runtime version list for tool cache inclusion
-	const runtimeEntries: Array<{ name: string; version: string }> = config.runtimes.map((r) => ({
+	const runtimeEntries: Array<{ name: string; version: string }> = runtimes.map((r) => ({
 		name: r.name,
 		version: r.version,
 	}));
-	if (Option.isSome(config.biome)) {
-		runtimeEntries.push({ name: "biome", version: config.biome.value });
+	if (Option.isSome(biome)) {
+		runtimeEntries.push({ name: "biome", version: biome.value });
 	}
+	for (const tool of tools) {
+		runtimeEntries.push({ name: tool.name, version: tool.version });
+	}
+	// Standalone pnpm and Yarn live in the tool cache too
+	if (packageManagerInstall === "standalone") {
+		for (const { name, version } of projects.map((p) => p.packageManager)) {
+			if (
+				(name === "pnpm" || name === "yarn") &&
+				!runtimeEntries.some((e) => e.name === name && e.version === version)
+			) {
+				runtimeEntries.push({ name, version });
+			}
+		}
+	}
+
+	// An npm upgraded without sudo lives in the tool cache, but only on runners where an
+	// earlier run used the user-prefix strategy: its directory is cached when present. The
+	// cache is looked up by its paths, so they are settled before restore, and the key
+	// already holds the npm version.
+	const declaredNpmVersions = Array.from(
+		new Set(
+			projects
+				.filter((p) => p.packageManager.name === "npm" && p.packageManager.version !== BUNDLED_VERSION)
+				.map((p) => p.packageManager.version),
+		),
+	);
+	const npmToolCachePaths = Arr.getSomes(yield* Effect.forEach(declaredNpmVersions, findToolCachedNpm));
+
+	// Yarn Classic and Berry differ in install flags and in what is worth caching
+	const yarnProjects = yield* Effect.forEach(projects, (p) =>
+		p.packageManager.name === "yarn"
+			? detectYarnProject(p.packageManager.version, p.directory).pipe(
+					Effect.tap((yarn) =>
+						Effect.log(formatDetection(`Yarn ${yarn.flavor} (nodeLinker: ${yarn.nodeLinker}) in ${p.directory}`, true)),
+					),
+					Effect.map(Option.some),
+				)
+			: Effect.succeed(Option.none<YarnProject>()),
+	);
 
-	const cacheConfig = yield* getCombinedCacheConfig(activePackageManagers, runtimeEntries);
+	const cacheConfig = yield* getCombinedCacheConfig(activePackageManagers, runtimeEntries, Arr.getSomes(yarnProjects));
 
 	// Read additional lockfile patterns and cache paths from inputs (optional, may be empty)
 	// Supports: newlines, bullet lists, comma-separated, JSON arrays
@@ -403,22 +869,51 @@ export const main = Effect.gen(function* () {
 	const rawCachePaths = yield* Config.string("additional-cache-paths").pipe(Config.withDefault(""));
 	const additionalCachePaths = rawCachePaths ? parseMultiValueInput(rawCachePaths) : [];
 
+	// Global packages are installed once, with the first project's package manager
+	const rawGlobalPackages = yield* Config.string("global-packages").pipe(Config.withDefault(""));
+	const globalPackages = yield* parseGlobalPackages(parseMultiValueInput(rawGlobalPackages));
+	const registry = yield* readRegistryConfig;
+	const rawInstallModes = yield* Config.string("install-mode").pipe(Config.withDefault(""));
+	const rawInstallArgs = yield* Config.string("install-args").pipe(Config.withDefault(""));
+	const installOptions: InstallOptions = {
+		modes: yield* parseInstallModes(parseMultiValueInput(rawInstallModes)),
+		args: splitInstallArgs(rawInstallArgs),
+	};
+	const installSignature = installCacheSignature(installOptions);
+	const globalPackagePaths = globalPackages.length > 0 ? [getGlobalPackagesDirectory(primary.packageManager.name)] : [];
+
 	const allLockfilePatterns = [...cacheConfig.lockfilePatterns, ...additionalLockfiles];
-	const lockfiles = yield* findLockFiles(allLockfilePatterns);
+	const projectLockfiles = yield* Effect.forEach(projects, (p) => findLockFiles(allLockfilePatterns, p.directory));
+	const lockfiles = Array.from(new Set(projectLockfiles.flat())).sort();
 
 	const cacheBust = yield* Config.string("cache-bust").pipe(Config.withDefault(""));
 	const cacheBustValue = cacheBust && cacheBust !== "false" ? cacheBust : undefined;
 
-	// Build final cache paths: base + additional inputs + turbo
-	const turboPaths = config.turbo ? ["**/.turbo"] : [];
-	const finalCachePaths = [...cacheConfig.cachePaths, ...additionalCachePaths, ...turboPaths];
+	// Build final cache paths: base + additional inputs + turbo, with relative paths
+	// and globs resolved against each project directory
+	const finalCachePaths = Array.from(
+		new Set(
+			projects.flatMap((p) =>
+				resolveWorkingPaths(
+					[
+						...cacheConfig.cachePaths,
+						...globalPackagePaths,
+						...additionalCachePaths,
+						...(p.turbo ? ["**/.turbo"] : []),
+					],
+					p.directory,
+				),
+			),
+		),
+	);
+	finalCachePaths.push(...npmToolCachePaths.filter((p) => !finalCachePaths.includes(p)));
 
 	yield* Effect.logDebug(`Active PMs: ${activePackageManagers.join(", ")}`);
 	yield* Effect.logDebug(`Lockfiles found: ${lockfiles.length > 0 ? lockfiles.join(", ") : "(none)"}`);
 	yield* Effect.logDebug(`Cache paths (${finalCachePaths.length}): ${finalCachePaths.join(", ")}`);
 
 	// Handle turbo env vars
-	if (config.turbo) {
+	if (turbo) {
 		const turboToken = yield* Config.string("turbo-token").pipe(Config.withDefault(""));
 		const turboTeam = yield* Config.string("turbo-team").pipe(Config.withDefault(""));
 		if (turboToken !== "") {
@@ -445,8 +940,11 @@ export const main = Effect.gen(function* () {
 			return yield* restoreCache({
 				cachePaths: finalCachePaths,
 				runtimes: runtimeEntries,
-				packageManager: { name: config.packageManager.name, version: config.packageManager.version },
+				packageManager: projects.map((p) => ({ name: p.packageManager.name, version: p.packageManager.version })),
 				lockfiles,
+				workingDirectory: projectDirectories.join(","),
+				globalPackages,
+				...(installSignature ? { installOptions: installSignature } : {}),
 				...(cacheBustValue ? { cacheBust: cacheBustValue } : {}),
 			});
 		}).pipe(
@@ -463,64 +961,134 @@ export const main = Effect.gen(function* () {
 		),
 	);
 
-	// 4. Install runtimes
-	const installed = yield* logger.group(
-		formatInstallation("runtimes"),
-		Effect.forEach(config.runtimes, (rt) =>
-			RuntimeInstaller.pipe(
-				Effect.flatMap((installer) => installer.install(rt.version)),
-				Effect.provide(installerLayerFor(rt.name)),
-				Effect.tap((result) =>
-					Effect.log(formatSuccess(`${formatRuntime(rt.name as "node" | "bun" | "deno")} ${result.version}`)),
-				),
-			),
-		),
-	);
+	// 4. Install runtimes concurrently (onFail warn/ignore failures are skipped)
+	const installed = yield* installRuntimes(runtimes);
 
-	// 5. Setup package manager (after runtimes are installed and on PATH)
-	yield* logger.group(
-		formatInstallation(`${formatPackageManager(pmName)} via ${pmName === "npm" ? "npm" : "corepack"}`),
-		setupPackageManager(pmName, config.packageManager.version),
-	);
-
-	// 6. Install dependencies
-	const installDeps = yield* Config.boolean("install-deps").pipe(Config.withDefault(true));
-	if (installDeps) {
+	// 4b. Write registry auth config for the projects' package managers (put back by the post action)
+	if (Option.isSome(registry)) {
 		yield* logger.group(
-			formatInstallation(`dependencies with ${formatPackageManager(pmName)}`),
-			installDependencies(pmName),
+			"Configure registry",
+			configureRegistry(
+				registry.value,
+				projects.map((p) => p.packageManager),
+			),
 		);
 	}
 
-	// 7. Install Biome (non-fatal) -- uses direct download since biome is a raw binary, not an archive
-	if (Option.isSome(config.biome)) {
-		const biomeVersion = config.biome.value;
+	// 5–6. Per project: setup package manager (after runtimes are installed and on PATH),
+	// install global packages (first project only), then install dependencies
+	const installDeps = yield* Config.boolean("install-deps").pipe(Config.withDefault(true));
+	const projectResults = yield* Effect.forEach(projects, (project, i) =>
+		Effect.gen(function* () {
+			const pmName: PackageManager = project.packageManager.name;
+			const suffix = projects.length > 1 ? ` (${project.directory})` : "";
+
+			const { version: declared, integrity } = project.packageManager;
+			const skipped = skippedPackageManagerRuntime(project, installed);
+			if (Option.isSome(skipped)) {
+				yield* Effect.logWarning(
+					formatWarning(
+						`Skipping ${pmName} setup and dependency install${suffix}: ${skipped.value.name}@${skipped.value.version} was not installed`,
+					),
+				);
+				return { project, packageManagerVersion: declared, lockfiles: projectLockfiles[i] };
+			}
+
+			const setup =
+				packageManagerInstall === "standalone" && (pmName === "pnpm" || pmName === "yarn")
+					? { via: "standalone download", effect: installStandalonePackageManager(pmName, declared, integrity) }
+					: {
+							via: pmName === "npm" ? "npm" : "corepack",
+							effect: setupPackageManager(pmName, declared, integrity),
+						};
+
+			const pmVersion = yield* logger.group(
+				formatInstallation(`${formatPackageManager(pmName)} via ${setup.via}${suffix}`),
+				withOnFail(project.packageManager.onFail, `${pmName}@${declared} setup`, setup.effect).pipe(
+					Effect.map(Option.getOrElse(() => declared)),
+				),
+			);
+
+			if (i === 0 && globalPackages.length > 0) {
+				yield* logger.group(
+					formatInstallation(`global packages with ${formatPackageManager(pmName)}`),
+					installGlobalPackages(pmName, globalPackages),
+				);
+			}
+
+			if (installDeps) {
+				yield* logger.group(
+					formatInstallation(`dependencies with ${formatPackageManager(pmName)}${suffix}`),
+					installDependencies(pmName, project.directory, {
+						yarnFlavor: Option.getOrUndefined(Option.map(yarnProjects[i], (yarn) => yarn.flavor)),
+						install: installOptions,
+					}),
+				);
+			}
+
+			return { project, packageManagerVersion: pmVersion, lockfiles: projectLockfiles[i] };
+		}),
+	);
+	const primaryPmVersion = projectResults[0].packageManagerVersion;
+
+	// 7. Install Biome (non-fatal, except for a checksum mismatch) -- uses direct download since biome
+	// is a raw binary, not an archive
+	if (Option.isSome(biome)) {
+		const biomeVersion = biome.value;
 		yield* logger.group(
 			formatInstallation("Biome"),
 			installBiome(biomeVersion).pipe(
-				Effect.catchAll((e) =>
-					Effect.logWarning(`Biome installation failed: ${e instanceof Error ? e.message : String(e)}`),
+				Effect.catchIf(
+					(e) => !(e instanceof ChecksumMismatchError),
+					(e) => Effect.logWarning(`Biome installation failed: ${extractErrorReason(e)}`),
 				),
 			),
 		);
 	}
 
+	// 7b. Install the workflowRuntime.tools entries (onFail per tool)
+	const installedTools = yield* installTools(tools);
+
 	// 8. Set outputs
-	yield* setOutputs(outputs, installed, config, cacheResult, lockfiles, finalCachePaths);
+	// Top-level outputs describe the first project; `projects` covers all of them
+	yield* setOutputs(
+		outputs,
+		installed,
+		{
+			...primary,
+			biome,
+			turbo,
+			packageManager: { ...primary.packageManager, version: primaryPmVersion },
+			yarnFlavor: Option.getOrUndefined(Option.map(yarnProjects[0], (yarn) => yarn.flavor)),
+		},
+		cacheResult,
+		lockfiles,
+		finalCachePaths,
+		buildProjectsOutput(projectResults, installed),
+	);
 
 	// 9. Summary
 	yield* logger.group(
 		"Runtime Setup Complete",
 		Effect.gen(function* () {
 			yield* Effect.log(
-				`Runtime(s): ${config.runtimes.map((r) => formatRuntime(r.name as "node" | "bun" | "deno")).join(", ")}`,
+				`Runtime(s): ${runtimes.map((r) => formatRuntime(r.name as "node" | "bun" | "deno")).join(", ")}`,
 			);
 			for (const rt of installed) {
 				yield* Effect.log(`${formatRuntime(rt.name as "node" | "bun" | "deno")}: ${rt.version}`);
 			}
-			yield* Effect.log(`${formatPackageManager(pmName)}: ${config.packageManager.version}`);
-			yield* Effect.log(`Turbo: ${config.turbo ? "enabled" : "disabled"}`);
-			yield* Effect.log(`Biome: ${Option.isSome(config.biome) ? `v${config.biome.value}` : "not installed"}`);
+			for (const { project, packageManagerVersion } of projectResults) {
+				const suffix = projects.length > 1 ? ` (${project.directory})` : "";
+				yield* Effect.log(`${formatPackageManager(project.packageManager.name)}: ${packageManagerVersion}${suffix}`);
+			}
+			yield* Effect.log(`Turbo: ${turbo ? "enabled" : "disabled"}`);
+			yield* Effect.log(`Biome: ${Option.isSome(biome) ? `v${biome.value}` : "not installed"}`);
+			if (installedTools.length > 0) {
+				yield* Effect.log(`Tools: ${installedTools.map((t) => `${t.name}@${t.version}`).join(", ")}`);
+			}
+			if (globalPackages.length > 0) {
+				yield* Effect.log(`Global packages: ${globalPackages.map((p) => `${p.name}@${p.version}`).join(", ")}`);
+			}
 			yield* Effect.log(`Dependencies: ${installDeps ? "installed" : "skipped"}`);
 		}),
 	);
@@ -534,9 +1102,11 @@ export const main = Effect.gen(function* () {
 // Business logic layers — Action.run provides core services (ActionLogger, ActionOutputs, ActionEnvironment, ActionState)
 // NodeFileSystem.layer provides FileSystem for ActionStateLive (which depends on it) and for
 // the program itself (loadPackageJson, detectBiome, etc. use FileSystem directly).
+// FetchHttpClient.layer backs release index lookups when resolving version ranges.
 const FileSystemLive = NodeFileSystem.layer;
 
 export const MainLive = Layer.mergeAll(
+	FetchHttpClient.layer,
 	ActionCacheLive,
 	ToolInstallerLive,
 	CommandRunnerLive,
@@ -0,0 +1,76 @@
+import { ActionOutputs } from "@savvy-web/github-action-effects";
+import { Config, Effect, Option } from "effect";
+import { ConfigError } from "./errors.js";
+
+/**
+ * A download mirror replacing a tool's upstream base URL, plus the headers
+ * (e.g., `Authorization`) sent with every request to it.
+ */
+export interface Mirror {
+	readonly baseUrl: string;
+	readonly headers: Readonly<Record<string, string>>;
+}
+
+/**
+ * Tools with a `<tool>-mirror` input in action.yml; `node-musl` covers Node.js
+ * musl builds from unofficial-builds. Other tools (standalone pnpm and Yarn,
+ * `workflowRuntime.tools` entries) always download from their own URLs.
+ */
+export const MIRRORED_TOOLS: ReadonlyArray<string> = ["node", "node-musl", "bun", "deno", "biome"];
+
+/**
+ * Environment variables consulted, in order, when a tool's `<tool>-mirror` input is empty.
+ * These are the variables node-gyp and nvm already honor.
+ */
+const MIRROR_ENV: Readonly<Record<string, ReadonlyArray<string>>> = {
+	node: ["NODEJS_ORG_MIRROR", "NVM_NODEJS_ORG_MIRROR"],
+};
+
+/**
+ * Parses the `mirror-headers` input: one `Name: value` header per line.
+ * Blank lines are ignored. The error never echoes the value, which is usually a credential.
+ */
+export const parseMirrorHeaders = (input: string): Effect.Effect<Record<string, string>, ConfigError> =>
+	Effect.gen(function* () {
+		const headers: Record<string, string> = {};
+		for (const [index, line] of input.split("\n").entries()) {
+			if (line.trim() === "") continue;
+			const match = line.match(/^\s*([!#$%&'*+.^_`|~\w-]+)\s*:\s*(.*?)\s*$/);
+			if (!match) {
+				return yield* Effect.fail(
+					new ConfigError({ reason: `Invalid mirror-headers entry on line ${index + 1}; expected "Name: value"` }),
+				);
+			}
+			headers[match[1]] = match[2];
+		}
+		return headers;
+	});
+
+/**
+ * Resolves the mirror for a tool from its `<tool>-mirror` input, falling back to
+ * the tool's mirror environment variables. Returns None when downloads should
+ * use the upstream URLs, always for tools outside {@link MIRRORED_TOOLS}.
+ * Header values from `mirror-headers` are masked in logs.
+ */
+export const resolveMirror = (tool: string) =>
+	Effect.gen(function* () {
+		if (!MIRRORED_TOOLS.includes(tool)) return Option.none<Mirror>();
+
+		const input = yield* Config.string(`${tool}-mirror`).pipe(Config.withDefault(""));
+		const fromEnv = (MIRROR_ENV[tool] ?? []).map((name) => process.env[name]?.trim() ?? "").find((v) => v !== "");
+		const baseUrl = (input.trim() || fromEnv || "").replace(/\/+$/, "");
+		if (baseUrl === "") return Option.none<Mirror>();
+
+		if (!URL.canParse(baseUrl)) {
+			return yield* Effect.fail(new ConfigError({ reason: `Invalid ${tool} mirror URL: ${baseUrl}` }));
+		}
+
+		const headers = yield* parseMirrorHeaders(yield* Config.string("mirror-headers").pipe(Config.withDefault("")));
+		const outputs = yield* ActionOutputs;
+		for (const value of Object.values(headers)) {
+			if (value !== "") yield* outputs.setSecret(value);
+		}
+
+		yield* Effect.log(`Downloading ${tool} from mirror ${baseUrl}`);
+		return Option.some<Mirror>({ baseUrl, headers });
+	});
@@ -0,0 +1,7 @@
+// Generated by .github/scripts/update-node-release-keys.sh -- do not edit by hand.
+
+/**
+ * Armored public keys for the fingerprints pinned in NODE_RELEASE_KEYRING,
+ * from the nodejs/release-keys repository.
+ */
+export const NODE_RELEASE_KEY_BLOCKS: ReadonlyArray<string> = [];
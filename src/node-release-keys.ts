@@ -0,0 +1,25 @@
+import { NODE_RELEASE_KEY_BLOCKS } from "./node-release-key-blocks.js";
+import type { SigningKeyring } from "./signature.js";
+
+/**
+ * Node.js release keyring, bundled and pinned by fingerprint.
+ *
+ * Fingerprints of the active releasers listed under "Release keys" in the
+ * nodejs/node README. Update this list when the README changes, then run
+ * `.github/scripts/update-node-release-keys.sh` to regenerate the bundled
+ * armored keys from the nodejs/release-keys repository.
+ */
+export const NODE_RELEASE_KEYRING: SigningKeyring = {
+	fingerprints: [
+		"5BE8A3F6C8A5C01D106C0AD820B1A390B168D356", // Antoine du Hamel
+		"C0D6248439F1D5604AAFFB4021D900FFDB233756", // Antoine du Hamel (previous key)
+		"DD792F5973C6DE52C432CBDAC77ABFA00DDBF2B7", // Juan José Arboleda
+		"CC68F5A3106FF448322E48ED27F5E38D5B0A215F", // Marco Ippolito
+		"8FCCA13FEF1D0C2E91008E09770F7A9A5AE15600", // Michaël Zasso
+		"890C08DB8579162FEE0DF9DB8BEAB4DFCF555EF4", // Rafael Gonzaga
+		"C82FA3AE1CBEDC6BE46B9360C43CEC45C17AB93C", // Richard Lau
+		"108F52B48DB57BB0CC439B2997B01419BD92F80A", // Ruy Adorno
+		"A363A499291CBBC940DD62E41F10027AF002F8B0", // Ulises Gascón
+	],
+	armoredKeys: NODE_RELEASE_KEY_BLOCKS,
+};
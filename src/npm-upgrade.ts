@@ -0,0 +1,113 @@
+import { homedir, platform as osPlatform, tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSystem } from "@effect/platform";
+import { ActionOutputs, CommandRunner, ToolInstaller } from "@savvy-web/github-action-effects";
+import { Effect, Option } from "effect";
+import { detectLibc, toolCacheName } from "./libc.js";
+
+/**
+ * How npm replaces itself with `npm install -g`:
+ * - `direct`: the global prefix is writable by the current user (always on Windows)
+ * - `sudo`: it is not, and passwordless sudo is available (e.g. a system Node.js in `/usr/local`)
+ * - `user-prefix`: neither, as on hardened self-hosted runners and rootless
+ *   containers; npm is installed into the tool cache and put first on PATH
+ */
+export type NpmInstallStrategy = "direct" | "sudo" | "user-prefix";
+
+/**
+ * Directory holding the `npm` / `npx` executables of an npm installed with
+ * `--prefix`. The package's own bin directory is used rather than the
+ * prefix's symlinks, which do not survive being copied into the tool cache.
+ */
+const npmBinDirectory = (prefix: string): string =>
+	osPlatform() === "win32"
+		? join(prefix, "node_modules", "npm", "bin")
+		: join(prefix, "lib", "node_modules", "npm", "bin");
+
+/**
+ * Picks the {@link NpmInstallStrategy}: sudo is only needed when the global
+ * prefix (`npm prefix --global`) is not writable, and only used when
+ * `sudo -n true` shows it works without a password.
+ */
+export const detectNpmInstallStrategy = Effect.gen(function* () {
+	if (osPlatform() === "win32") return "direct" as NpmInstallStrategy;
+
+	const runner = yield* CommandRunner;
+	const fs = yield* FileSystem.FileSystem;
+	const prefix = (yield* runner.execCapture("npm", ["prefix", "--global"], { cwd: tmpdir() })).stdout.trim();
+	const writable = yield* Effect.forEach([join(prefix, "lib", "node_modules"), join(prefix, "bin")], (dir) =>
+		fs.access(dir, { writable: true }).pipe(
+			Effect.as(true),
+			Effect.orElseSucceed(() => false),
+		),
+	);
+	if (writable.every(Boolean)) return "direct" as NpmInstallStrategy;
+
+	const sudo = yield* runner.exec("sudo", ["-n", "true"]).pipe(
+		Effect.as(true),
+		Effect.orElseSucceed(() => false),
+	);
+	yield* Effect.logDebug(`npm global prefix ${prefix} is not writable; sudo ${sudo ? "is" : "is not"} available`);
+	return (sudo ? "sudo" : "user-prefix") as NpmInstallStrategy;
+});
+
+/**
+ * Looks up an npm `version` in the tool cache, where only the `user-prefix`
+ * strategy puts it (under `npm-musl` on musl, like the runtimes).
+ */
+export const findToolCachedNpm = (version: string) =>
+	Effect.gen(function* () {
+		const toolInstaller = yield* ToolInstaller;
+		const cached: Option.Option<string> = yield* toolInstaller
+			.find(toolCacheName("npm", yield* detectLibc), version)
+			.pipe(Effect.orElseSucceed(() => Option.none<string>()));
+		return cached;
+	});
+
+/**
+ * Replaces the active npm with `version`. An npm already in the tool cache is
+ * put on PATH without installing. Otherwise it is installed globally, with sudo
+ * only when needed, or, where sudo is unavailable, into a prefix that is added
+ * to the tool cache and PATH so later runs on the runner can reuse it.
+ */
+export const upgradeNpm = (version: string) =>
+	Effect.gen(function* () {
+		const toolInstaller = yield* ToolInstaller;
+		const outputs = yield* ActionOutputs;
+		const runner = yield* CommandRunner;
+		const cached = yield* findToolCachedNpm(version);
+		if (Option.isSome(cached)) {
+			yield* Effect.log(`Found npm ${version} in the tool cache, skipping install`);
+			yield* outputs.addPath(npmBinDirectory(cached.value));
+			return;
+		}
+
+		const strategy = yield* detectNpmInstallStrategy;
+		switch (strategy) {
+			case "direct":
+				yield* runner.exec("npm", ["install", "-g", `npm@${version}`], { streaming: true });
+				break;
+			case "sudo": {
+				yield* runner.exec("sudo", ["npm", "install", "-g", `npm@${version}`], { streaming: true });
+				// Fix npm cache ownership after sudo (sudo creates root-owned files in ~/.npm)
+				const npmCacheDir = join(homedir(), ".npm");
+				yield* runner
+					.exec("sudo", ["chown", "-R", `${process.getuid?.() ?? 1000}:${process.getgid?.() ?? 1000}`, npmCacheDir])
+					.pipe(Effect.catchAll(() => Effect.void));
+				break;
+			}
+			case "user-prefix": {
+				yield* Effect.log("No write access to the npm global prefix and no sudo, installing npm into the tool cache");
+				const fs = yield* FileSystem.FileSystem;
+				const prefix = yield* fs.makeTempDirectory();
+				yield* runner.exec("npm", ["install", "--global", "--prefix", prefix, `npm@${version}`], {
+					cwd: tmpdir(),
+					streaming: true,
+				});
+				const cacheName = toolCacheName("npm", yield* detectLibc);
+				const cachedPath: string = yield* toolInstaller.cacheDir(prefix, cacheName, version);
+				yield* outputs.addPath(npmBinDirectory(cachedPath));
+				break;
+			}
+		}
+	});
@@ -2,13 +2,26 @@ import { NodeFileSystem } from "@effect/platform-node";
 import { Action, ActionCacheLive, ActionStateLive } from "@savvy-web/github-action-effects";
 import { Effect, Layer } from "effect";
 import { saveCache } from "./cache.js";
+import { restoreRegistryConfig } from "./registry.js";
 import { extractErrorReason, formatCauseDetail } from "./runtime-installer.js";
 
 // ---------------------------------------------------------------------------
-// Post-action: save dependency cache
+// Post-action: restore registry config, save dependency cache
 // ---------------------------------------------------------------------------
 
+/**
+ * Puts back the user-level registry config written for `registry-url`.
+ * Non-fatal, and independent of the cache save.
+ */
+const cleanupRegistryConfig = restoreRegistryConfig().pipe(
+	/* v8 ignore next 2 -- filesystem failure, tested via CI fixtures */
+	Effect.catchAll((error) =>
+		Effect.logWarning(`Post action registry config cleanup failed: ${extractErrorReason(error)}`),
+	),
+);
+
 export const post = Effect.gen(function* () {
+	yield* cleanupRegistryConfig;
 	yield* saveCache();
 }).pipe(
 	// Non-fatal: cache save errors should warn, not fail the action
@@ -26,8 +39,13 @@ export const post = Effect.gen(function* () {
 /* v8 ignore stop */
 
 // Business logic layers for post action — Action.run provides core services
-// ActionStateLive requires FileSystem, so we provide NodeFileSystem.layer.
-export const PostLive = Layer.mergeAll(ActionCacheLive, ActionStateLive.pipe(Layer.provide(NodeFileSystem.layer)));
+// ActionStateLive requires FileSystem, so we provide NodeFileSystem.layer; registry
+// config cleanup uses it directly too.
+export const PostLive = Layer.mergeAll(
+	ActionCacheLive,
+	ActionStateLive.pipe(Layer.provide(NodeFileSystem.layer)),
+	NodeFileSystem.layer,
+);
 
 /* v8 ignore next 3 -- entry point guard, only runs in GitHub Actions */
 if (process.env.GITHUB_ACTIONS) {
@@ -0,0 +1,221 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { FileSystem } from "@effect/platform";
+import { ActionOutputs, ActionState } from "@savvy-web/github-action-effects";
+import { Config, Effect, Option } from "effect";
+import type { PackageManager } from "./cache.js";
+import { ConfigError } from "./errors.js";
+import type { RegistryState } from "./schemas.js";
+import { RegistryStateSchema } from "./schemas.js";
+
+/**
+ * Registry settings from the `registry-url`, `scope` and `always-auth` inputs.
+ */
+export interface RegistryConfig {
+	/** Registry URL, always ending in `/` */
+	readonly url: string;
+	/** Scope without the leading `@`, or undefined to replace the default registry */
+	readonly scope: string | undefined;
+	readonly alwaysAuth: boolean;
+}
+
+/**
+ * Environment variable the written configs read the registry token from. The
+ * files only reference it, so the token itself never lands on disk.
+ */
+export const TOKEN_ENV = "NODE_AUTH_TOKEN";
+
+/**
+ * Exported when TOKEN_ENV is unset: npm refuses to load a config referencing an
+ * unset variable, which would break installs that need no token at all.
+ */
+const TOKEN_PLACEHOLDER = "XXXXX-XXXXX-XXXXX-XXXXX";
+
+/**
+ * Action state key for the files to put back in the post action.
+ */
+const REGISTRY_STATE = "REGISTRY_STATE";
+
+/**
+ * Reads the registry inputs. Returns None without `registry-url`. Without
+ * `scope`, GitHub Packages defaults to the repository owner's scope (as
+ * actions/setup-node does), since it only serves scoped packages.
+ */
+export const readRegistryConfig = Effect.gen(function* () {
+	const rawUrl = (yield* Config.string("registry-url").pipe(Config.withDefault(""))).trim();
+	if (rawUrl === "") return Option.none<RegistryConfig>();
+
+	if (!URL.canParse(rawUrl)) {
+		return yield* Effect.fail(new ConfigError({ reason: `Invalid registry-url: ${rawUrl}` }));
+	}
+	const url = rawUrl.endsWith("/") ? rawUrl : `${rawUrl}/`;
+
+	const rawScope = (yield* Config.string("scope").pipe(Config.withDefault(""))).trim();
+	const owner = new URL(url).hostname === "npm.pkg.github.com" ? process.env.GITHUB_REPOSITORY_OWNER : undefined;
+	const scope = (rawScope || owner || "").replace(/^@/, "").toLowerCase() || undefined;
+
+	const alwaysAuth = yield* Config.boolean("always-auth").pipe(Config.withDefault(false));
+	return Option.some<RegistryConfig>({ url, scope, alwaysAuth });
+});
+
+// ---------------------------------------------------------------------------
+// Config file contents
+// ---------------------------------------------------------------------------
+
+/**
+ * `.npmrc` lines for npm, pnpm, Yarn Classic and Deno.
+ */
+export const renderNpmrc = (config: RegistryConfig): string => {
+	const authKey = config.url.replace(/^https?:/, "");
+	return [
+		`${authKey}:_authToken=\${${TOKEN_ENV}}`,
+		config.scope ? `@${config.scope}:registry=${config.url}` : `registry=${config.url}`,
+		...(config.alwaysAuth ? ["always-auth=true"] : []),
+	]
+		.map((line) => `${line}\n`)
+		.join("");
+};
+
+/**
+ * `.yarnrc.yml` for Yarn Berry, which ignores `.npmrc`.
+ */
+export const renderYarnrc = (config: RegistryConfig): string => {
+	const settings = [
+		`npmRegistryServer: "${config.url}"`,
+		`npmAuthToken: "\${${TOKEN_ENV}}"`,
+		...(config.alwaysAuth ? ["npmAlwaysAuth: true"] : []),
+	];
+	if (!config.scope) return settings.map((line) => `${line}\n`).join("");
+	return ["npmScopes:", `  ${config.scope}:`, ...settings.map((line) => `    ${line}`)]
+		.map((line) => `${line}\n`)
+		.join("");
+};
+
+/**
+ * `bunfig.toml` registry settings. Bun has no always-auth setting.
+ */
+export const renderBunfig = (config: RegistryConfig): string => {
+	const registry = `{ url = "${config.url}", token = "$${TOKEN_ENV}" }`;
+	return config.scope ? `[install.scopes]\n"${config.scope}" = ${registry}\n` : `[install]\nregistry = ${registry}\n`;
+};
+
+// ---------------------------------------------------------------------------
+// Writing and restoring
+// ---------------------------------------------------------------------------
+
+/**
+ * A user-level config file and the content the action gives it.
+ * `append` keeps what the file already holds (`.npmrc` lets later lines win);
+ * otherwise the file is replaced for the rest of the job.
+ */
+interface RegistryFile {
+	readonly path: string;
+	readonly content: string;
+	readonly append: boolean;
+}
+
+/**
+ * User-level files to write for a package manager. Yarn 2+ (Berry) reads
+ * `.yarnrc.yml`; Yarn 1 reads `.npmrc` like npm and pnpm.
+ */
+const registryFilesFor = (
+	pm: { readonly name: PackageManager; readonly version: string },
+	config: RegistryConfig,
+): ReadonlyArray<RegistryFile> => {
+	const home = homedir();
+	const npmrc = {
+		path: process.env.NPM_CONFIG_USERCONFIG ?? join(home, ".npmrc"),
+		content: renderNpmrc(config),
+		append: true,
+	};
+	switch (pm.name) {
+		case "npm":
+		case "pnpm":
+		case "deno":
+			return [npmrc];
+		case "yarn":
+			return Number.parseInt(pm.version, 10) >= 2
+				? [{ path: join(home, ".yarnrc.yml"), content: renderYarnrc(config), append: false }]
+				: [npmrc];
+		case "bun":
+			return [
+				{
+					path: join(process.env.XDG_CONFIG_HOME ?? home, ".bunfig.toml"),
+					content: renderBunfig(config),
+					append: false,
+				},
+			];
+	}
+};
+
+/**
+ * Writes registry auth config for each package manager in use, exports the
+ * token placeholder when needed (plus `NPM_CONFIG_REGISTRY` for Deno without a
+ * scope) and records the files' previous content for {@link restoreRegistryConfig}.
+ */
+export const configureRegistry = (
+	config: RegistryConfig,
+	packageManagers: ReadonlyArray<{ readonly name: PackageManager; readonly version: string }>,
+) =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const outputs = yield* ActionOutputs;
+		const state = yield* ActionState;
+
+		const files = new Map<string, RegistryFile>();
+		for (const pm of packageManagers) {
+			for (const file of registryFilesFor(pm, config)) files.set(file.path, file);
+		}
+
+		const written: Array<RegistryState["files"][number]> = [];
+		for (const file of files.values()) {
+			const original = yield* fs.readFileString(file.path).pipe(Effect.option);
+			if (Option.isSome(original) && !file.append) {
+				yield* Effect.logWarning(`Replacing ${file.path} for this job; the post step restores it`);
+			}
+			const prefix = file.append ? Option.getOrElse(original, () => "") : "";
+			const separator = prefix === "" || prefix.endsWith("\n") ? "" : "\n";
+			yield* fs
+				.writeFileString(file.path, `${prefix}${separator}${file.content}`)
+				.pipe(
+					Effect.mapError(
+						(cause) =>
+							new ConfigError({ reason: `Failed to write registry config to ${file.path}`, file: file.path, cause }),
+					),
+				);
+			// Saved after every file, so a failure part-way still leaves the earlier ones to restore
+			written.push(Option.isSome(original) ? { path: file.path, original: original.value } : { path: file.path });
+			yield* state.save(REGISTRY_STATE, { files: written }, RegistryStateSchema);
+			yield* Effect.log(`Wrote ${config.scope ? `@${config.scope} ` : ""}registry config to ${file.path}`);
+		}
+
+		// Deno takes its default npm registry from the environment; tokens and scopes come from .npmrc
+		if (config.scope === undefined && packageManagers.some((pm) => pm.name === "deno")) {
+			yield* outputs.exportVariable("NPM_CONFIG_REGISTRY", config.url);
+		}
+		if (!process.env[TOKEN_ENV]) {
+			yield* outputs.exportVariable(TOKEN_ENV, TOKEN_PLACEHOLDER);
+		}
+	});
+
+/**
+ * Post action: puts back the files {@link configureRegistry} wrote, deleting
+ * those it created. Does nothing when no registry was configured.
+ */
+export const restoreRegistryConfig = () =>
+	Effect.gen(function* () {
+		const state = yield* ActionState;
+		const saved = yield* state.getOptional(REGISTRY_STATE, RegistryStateSchema);
+		if (Option.isNone(saved)) return;
+
+		const fs = yield* FileSystem.FileSystem;
+		for (const file of saved.value.files) {
+			if (file.original === undefined) {
+				yield* fs.remove(file.path, { force: true });
+				yield* Effect.log(`Removed registry config ${file.path}`);
+			} else {
+				yield* fs.writeFileString(file.path, file.original);
+				yield* Effect.log(`Restored ${file.path}`);
+			}
+		}
+	});
@@ -1,9 +1,27 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { HttpClient } from "@effect/platform";
+import { FileSystem } from "@effect/platform";
 import { ActionOutputs, CommandRunner, ToolInstaller } from "@savvy-web/github-action-effects";
-import { Context, Effect, Layer } from "effect";
+import { Config, Context, Effect, Layer, Option } from "effect";
+import { fileNameFromUrl, parseShasums, verifyChecksum } from "./checksum.js";
+import { descriptor as biomeDescriptor } from "./descriptors/biome.js";
 import { descriptor as bunDescriptor } from "./descriptors/bun.js";
 import { descriptor as denoDescriptor } from "./descriptors/deno.js";
 import { descriptor as nodeDescriptor } from "./descriptors/node.js";
-import { RuntimeInstallError } from "./errors.js";
+import { descriptor as pnpmDescriptor } from "./descriptors/pnpm.js";
+import {
+	berryDescriptor as yarnBerryDescriptor,
+	classicDescriptor as yarnClassicDescriptor,
+} from "./descriptors/yarn.js";
+import { downloadFile } from "./download.js";
+import type { ConfigError } from "./errors.js";
+import { ChecksumMismatchError, RuntimeInstallError, SignatureVerificationError } from "./errors.js";
+import type { Libc } from "./libc.js";
+import { detectLibc, toolCacheName } from "./libc.js";
+import { resolveMirror } from "./mirror.js";
+import type { RuntimeName, ToolEntry } from "./schemas.js";
+import type { SigningKeyring } from "./signature.js";
 
 /**
  * Extract a human-readable reason from an error.
@@ -35,36 +53,193 @@ export const formatCauseDetail = (error: unknown): string | undefined => {
 	return undefined;
 };
 
+/**
+ * A single entry from a runtime's release index.
+ * `lts` carries the LTS codename (Node.js only).
+ */
+export interface ReleaseInfo {
+	readonly version: string;
+	readonly lts?: string;
+}
+
+/**
+ * A pre-release channel (e.g. `canary`): the URL of a document naming the
+ * channel's current build, and a parser returning that build's id.
+ */
+export interface ReleaseChannel {
+	readonly url: string;
+	readonly parse: (body: string) => string | undefined;
+}
+
 /**
  * Descriptor for a runtime or tool that can be installed.
+ *
+ * `getReleaseIndexUrl` and `parseReleaseIndex` are optional; descriptors that
+ * provide them can resolve semver ranges and aliases to a concrete version.
+ *
+ * `getChecksumUrl` opts into SHA-256 verification of the downloaded archive.
+ * `parseChecksum` reads the hash for the archive's file name out of that document
+ * and defaults to the `SHASUMS256.txt` format.
+ *
+ * `getChecksumSignatureUrl` and `signingKeyring` let the `verify-signatures` input
+ * require a detached OpenPGP signature over the checksum document.
+ *
+ * The URL getters take an optional `baseUrl` that replaces the upstream base URL
+ * when a `<name>-mirror` input (or mirror environment variable) is set.
+ *
+ * They (and `getToolInstallOptions`) also take the detected `libc`, so Linux musl
+ * systems such as Alpine get musl builds. Descriptors without a musl build throw.
+ * `getChecksumSignatureUrl` returns undefined when that build's checksums are unsigned.
+ * `muslMirror` names the mirror input for musl builds published outside the tool's
+ * usual release layout (Node.js unofficial-builds): on musl, `baseUrl` comes from
+ * `<muslMirror>-mirror` instead, and is undefined when that input is empty.
+ *
+ * `resolveVariant` picks a build variant (e.g. Bun's `baseline` for CPUs without
+ * AVX2), passed on to `getDownloadUrl` and `getToolInstallOptions`. When a
+ * variant's executable is named differently, `renameExecutable` renames it
+ * inside `binSubPath` before caching, so `verifyCommand` and PATH lookups work.
+ *
+ * `channels` lists the pre-release channels a version spec may name (e.g.
+ * `canary`); each resolves to a concrete build id the URL getters understand.
+ * `releaseChannel` maps a build id back to its channel, or undefined for stable
+ * releases. Channel builds are always downloaded from upstream, never a mirror.
+ *
+ * `parseVersionOutput` reads the version out of `verifyCommand`'s stdout, so a
+ * different binary shadowing the installed one on PATH fails the install.
  */
 export interface RuntimeDescriptor {
 	readonly name: string;
-	readonly getDownloadUrl: (version: string, platform: string, arch: string) => string;
+	readonly getDownloadUrl: (
+		version: string,
+		platform: string,
+		arch: string,
+		baseUrl?: string,
+		libc?: Libc,
+		variant?: string,
+	) => string;
 	readonly getToolInstallOptions: (
 		version: string,
 		platform: string,
 		arch: string,
-	) => Partial<{ archiveType: "tar.gz" | "tar.xz" | "zip"; binSubPath: string; tarFlags: ReadonlyArray<string> }>;
+		libc?: Libc,
+		variant?: string,
+	) => Partial<{
+		archiveType: "tar.gz" | "tar.xz" | "zip";
+		binSubPath: string;
+		tarFlags: ReadonlyArray<string>;
+		renameExecutable: { readonly from: string; readonly to: string };
+	}>;
+	readonly channels?: Readonly<Record<string, ReleaseChannel>>;
+	readonly releaseChannel?: (version: string) => string | undefined;
+	readonly resolveVariant?: (
+		platform: string,
+		arch: string,
+	) => Effect.Effect<string, ConfigError, FileSystem.FileSystem>;
+	readonly verifyCommand: readonly [string, ...string[]];
+	readonly parseVersionOutput?: (stdout: string) => string | undefined;
+	readonly getReleaseIndexUrl?: () => string;
+	readonly parseReleaseIndex?: (body: unknown) => ReadonlyArray<ReleaseInfo>;
+	readonly getChecksumUrl?: (version: string, platform: string, arch: string, baseUrl?: string, libc?: Libc) => string;
+	readonly parseChecksum?: (body: string, fileName: string) => string | undefined;
+	readonly getChecksumSignatureUrl?: (version: string, baseUrl?: string, libc?: Libc) => string | undefined;
+	readonly signingKeyring?: SigningKeyring;
+	readonly muslMirror?: string;
+}
+
+/**
+ * Descriptor for a single-file tool (e.g. Biome, dprint, actionlint): one
+ * executable downloaded as-is rather than extracted from an archive.
+ *
+ * `urlTemplate` builds the download URL from the `{baseUrl}`, `{version}`,
+ * `{binary}`, `{platform}` and `{arch}` placeholders. `baseUrl` is the upstream
+ * value of `{baseUrl}`, replaced by the `<name>-mirror` input when set.
+ * `binaries` maps platform and architecture to the release asset name, with
+ * `muslSuffix` appended on musl Linux (tools without it use the same asset).
+ * `muslBinaries` instead names separate musl assets (e.g. pnpm's static builds).
+ * The executable is cached and put on PATH under the tool's name.
+ *
+ * `archiveType` marks a download that is an archive (e.g. dprint, actionlint): it
+ * is extracted and cached as a directory, and `binSubPath` below it (the root by
+ * default) is put on PATH.
+ *
+ * `verifyFromTmpdir` runs `verifyCommand` from the temp directory rather than the
+ * project, for tools that read project config on startup (pnpm's configDependencies
+ * can hang a first run, and pnpm may switch to the project's pnpm version).
+ *
+ * `getChecksumUrl` points at upstream checksums even when downloading from a
+ * mirror. Behind a mirror, checksums that cannot be fetched (e.g. the runner
+ * cannot reach the GitHub API) leave the download unverified, with a warning.
+ *
+ * A `script` is a Node.js script (e.g. Yarn's release bundle) that runs on every
+ * platform: `binaries` is not consulted, and it is cached as `<name>.js` next to
+ * a `<name>` shell launcher (`<name>.cmd` on Windows) that runs it with `node`.
+ */
+export interface RawBinaryDescriptor {
+	readonly name: string;
+	readonly baseUrl: string;
+	readonly urlTemplate: string;
+	readonly binaries: Readonly<Record<string, Readonly<Record<string, string>>>>;
+	readonly muslSuffix?: string;
+	readonly muslBinaries?: Readonly<Record<string, Readonly<Record<string, string>>>>;
+	readonly script?: boolean;
+	readonly archiveType?: "tar.gz" | "tar.xz" | "zip";
+	readonly binSubPath?: string;
+	readonly getChecksumUrl?: (version: string) => string;
+	readonly parseChecksum?: (body: string, fileName: string) => string | undefined;
 	readonly verifyCommand: readonly [string, ...string[]];
+	readonly verifyFromTmpdir?: boolean;
+	readonly parseVersionOutput?: (stdout: string) => string | undefined;
 }
 
+/**
+ * Fills the `{placeholder}`s of a URL template. Unknown placeholders are left as-is.
+ */
+export const expandUrlTemplate = (template: string, values: Readonly<Record<string, string>>): string =>
+	template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+
 /**
  * Result of a successful runtime installation.
+ * `source` tells whether the runtime was found in the tool cache or downloaded.
+ * `signatureFingerprint` is set when the checksums were signature-verified.
  */
 export interface InstalledRuntime {
 	readonly name: string;
 	readonly version: string;
 	readonly path: string;
+	readonly source: "tool-cache" | "download";
+	readonly signatureFingerprint?: string;
 }
 
+/**
+ * Errors a runtime installation can fail with.
+ */
+export type RuntimeInstallFailure = RuntimeInstallError | ChecksumMismatchError | SignatureVerificationError;
+
 /**
  * Service interface for installing a specific runtime.
+ *
+ * `install` is `prepare` followed by `activate`. Callers installing several
+ * runtimes can run `prepare` (tool cache lookup, download, verification and
+ * extraction) concurrently and `activate` (PATH and `verifyCommand`) in order.
  */
 export interface RuntimeInstaller {
 	readonly install: (
 		version: string,
-	) => Effect.Effect<InstalledRuntime, RuntimeInstallError, ToolInstaller | CommandRunner | ActionOutputs>;
+	) => Effect.Effect<
+		InstalledRuntime,
+		RuntimeInstallFailure,
+		ToolInstaller | CommandRunner | ActionOutputs | HttpClient.HttpClient | FileSystem.FileSystem
+	>;
+	readonly prepare: (
+		version: string,
+	) => Effect.Effect<
+		InstalledRuntime,
+		RuntimeInstallFailure,
+		ToolInstaller | ActionOutputs | HttpClient.HttpClient | FileSystem.FileSystem
+	>;
+	readonly activate: (
+		runtime: InstalledRuntime,
+	) => Effect.Effect<InstalledRuntime, RuntimeInstallError, CommandRunner | ActionOutputs>;
 }
 
 /**
@@ -73,68 +248,452 @@ export interface RuntimeInstaller {
 export const RuntimeInstaller = Context.GenericTag<RuntimeInstaller>("RuntimeInstaller");
 
 /**
- * Factory: creates a RuntimeInstaller from a descriptor.
+ * Service interface for installing a single-file tool.
  */
-export const makeRuntimeInstaller = (descriptor: RuntimeDescriptor): RuntimeInstaller => ({
-	install: (version) =>
+export interface RawBinaryInstaller {
+	readonly install: (
+		version: string,
+	) => Effect.Effect<
+		InstalledRuntime,
+		RuntimeInstallFailure,
+		ToolInstaller | CommandRunner | ActionOutputs | HttpClient.HttpClient | FileSystem.FileSystem
+	>;
+}
+
+/**
+ * Service tag for RawBinaryInstaller.
+ */
+export const RawBinaryInstaller = Context.GenericTag<RawBinaryInstaller>("RawBinaryInstaller");
+
+/**
+ * Downloads a runtime archive (from a mirror when configured), verifies it and
+ * extracts it into the tool cache. Returns the cached directory.
+ */
+const downloadToToolCache = (
+	descriptor: RuntimeDescriptor,
+	version: string,
+	libc: Libc,
+	variant: string,
+	options: ReturnType<RuntimeDescriptor["getToolInstallOptions"]>,
+) =>
+	Effect.gen(function* () {
+		const toolInstaller = yield* ToolInstaller;
+
+		// Channel builds are not on mirrors, so their downloads always go upstream
+		const mirrorName = libc === "musl" && descriptor.muslMirror ? descriptor.muslMirror : descriptor.name;
+		const mirror = descriptor.releaseChannel?.(version)
+			? undefined
+			: Option.getOrUndefined(yield* resolveMirror(mirrorName));
+		const baseUrl = mirror?.baseUrl;
+		const headers = mirror?.headers ?? {};
+
+		const url = yield* Effect.try({
+			try: () => descriptor.getDownloadUrl(version, process.platform, process.arch, baseUrl, libc, variant),
+			catch: (e) => e,
+		});
+
+		// Download the archive (retried with backoff, resuming partial transfers)
+		const downloadedPath = yield* downloadFile(url, { headers, label: `${descriptor.name} ${version}` });
+
+		// Verify it against the published checksum (and its signature, when requested) before extracting
+		let signatureFingerprint: string | undefined;
+		if (descriptor.getChecksumUrl) {
+			const getChecksumUrl = descriptor.getChecksumUrl;
+			const checksumUrl = yield* Effect.try({
+				try: () => getChecksumUrl(version, process.platform, process.arch, baseUrl, libc),
+				catch: (e) => e,
+			});
+
+			const verifySignatures = yield* Config.boolean("verify-signatures").pipe(Config.withDefault(false));
+			const signatureUrl = descriptor.getChecksumSignatureUrl?.(version, baseUrl, libc);
+			const signature =
+				verifySignatures && signatureUrl && descriptor.signingKeyring
+					? { url: signatureUrl, keyring: descriptor.signingKeyring, headers }
+					: undefined;
+			if (verifySignatures && !signature) {
+				yield* Effect.log(
+					`${descriptor.name} publishes no checksum signatures${libc === "musl" ? " for musl builds" : ""}, verifying checksums only`,
+				);
+			}
+
+			const fingerprint = yield* verifyChecksum({
+				tool: descriptor.name,
+				version,
+				file: downloadedPath,
+				fileName: fileNameFromUrl(url),
+				source: {
+					url: checksumUrl,
+					parse: descriptor.parseChecksum ?? parseShasums,
+					headers,
+					...(signature ? { signature } : {}),
+				},
+			});
+			signatureFingerprint = Option.getOrUndefined(fingerprint);
+		}
+
+		// Extract the archive
+		let extractedDir: string;
+		if (options.archiveType === "zip") {
+			extractedDir = yield* toolInstaller.extractZip(downloadedPath);
+		} else {
+			extractedDir = yield* toolInstaller.extractTar(downloadedPath, undefined, options.tarFlags);
+		}
+
+		// Give a variant's executable its expected name (e.g. bun-profile -> bun)
+		if (options.renameExecutable) {
+			const fs = yield* FileSystem.FileSystem;
+			const binDir = options.binSubPath ? join(extractedDir, options.binSubPath) : extractedDir;
+			yield* fs.rename(join(binDir, options.renameExecutable.from), join(binDir, options.renameExecutable.to));
+		}
+
+		// Cache the extracted directory
+		const cachedPath: string = yield* toolInstaller.cacheDir(
+			extractedDir,
+			toolCacheName(descriptor.name, libc, variant),
+			version,
+		);
+		return { cachedPath, signatureFingerprint };
+	});
+
+/**
+ * Wraps any failure other than a verification error as a RuntimeInstallError.
+ */
+const toInstallError =
+	(descriptor: { readonly name: string }, version: string) =>
+	(error: unknown): RuntimeInstallFailure =>
+		error instanceof ChecksumMismatchError || error instanceof SignatureVerificationError
+			? error
+			: new RuntimeInstallError({
+					runtime: descriptor.name,
+					version,
+					reason: extractErrorReason(error),
+					cause: error,
+				});
+
+/**
+ * Whether the version a runtime reports is the one that was installed. Build
+ * metadata is ignored, except for canary build ids (`canary-<commit>`), which
+ * match when the reported build metadata is a prefix of the commit, e.g.
+ * `1.3.4-canary.45+3f8d2c1b9`.
+ */
+export const versionMatches = (installed: string, reported: string): boolean => {
+	const [release, build] = reported.split("+");
+	const commit = installed.match(/^canary-([0-9a-f]{40})$/)?.[1];
+	if (commit) {
+		return build !== undefined && build.length >= 7 && commit.startsWith(build);
+	}
+	return release === installed;
+};
+
+/**
+ * Adds an installed tool to PATH and runs its `verifyCommand`. When the version
+ * it reports differs from the installed one, fails naming the binary PATH
+ * resolves the command to.
+ */
+const activateTool =
+	(descriptor: Pick<RawBinaryDescriptor, "name" | "verifyCommand" | "verifyFromTmpdir" | "parseVersionOutput">) =>
+	(runtime: InstalledRuntime): Effect.Effect<InstalledRuntime, RuntimeInstallError, CommandRunner | ActionOutputs> =>
 		Effect.gen(function* () {
-			const toolInstaller = yield* ToolInstaller;
 			const runner = yield* CommandRunner;
 			const outputs = yield* ActionOutputs;
 
-			const url = yield* Effect.try({
-				try: () => descriptor.getDownloadUrl(version, process.platform, process.arch),
-				catch: (e) => e,
-			});
+			// Add to PATH
+			yield* outputs.addPath(runtime.path);
+
+			// Verify the installation
+			const [command, ...args] = descriptor.verifyCommand;
+			const { stdout } = yield* runner.execCapture(command, args, descriptor.verifyFromTmpdir ? { cwd: tmpdir() } : {});
+			const reported = descriptor.parseVersionOutput?.(stdout);
+			if (descriptor.parseVersionOutput && reported === undefined) {
+				yield* Effect.logWarning(
+					`Could not read a version from "${[command, ...args].join(" ")}" output, skipping the version check`,
+				);
+			}
+			if (reported !== undefined && !versionMatches(runtime.version, reported)) {
+				const which = yield* runner
+					.execCapture(process.platform === "win32" ? "where" : "which", [command])
+					.pipe(Effect.orElse(() => Effect.succeed({ exitCode: 1, stdout: "", stderr: "" })));
+				const resolved = which.stdout.split("\n")[0].trim();
+				return yield* Effect.fail(
+					new RuntimeInstallError({
+						runtime: descriptor.name,
+						version: runtime.version,
+						reason:
+							`"${command}" reports version ${reported}, but ${runtime.version} was installed to ${runtime.path}. ` +
+							`"${command}" resolves to ${resolved || "an unknown path"}; check for another installation earlier in PATH or a stale tool cache entry`,
+					}),
+				);
+			}
+
+			return runtime;
+		}).pipe(
+			Effect.mapError((error) =>
+				error instanceof RuntimeInstallError
+					? error
+					: new RuntimeInstallError({
+							runtime: descriptor.name,
+							version: runtime.version,
+							reason: extractErrorReason(error),
+							cause: error,
+						}),
+			),
+		);
+
+/**
+ * Factory: creates a RuntimeInstaller from a descriptor.
+ *
+ * An exact version already in the tool cache (restored by the cache step or
+ * preinstalled on the runner image) is used as-is; otherwise it is downloaded.
+ * Either way the runtime is added to PATH and `verifyCommand` is run; when the
+ * version it reports differs from the installed one, the install fails naming
+ * the binary PATH resolves the command to.
+ */
+export const makeRuntimeInstaller = (descriptor: RuntimeDescriptor): RuntimeInstaller => {
+	const prepare: RuntimeInstaller["prepare"] = (version) =>
+		Effect.gen(function* () {
+			const toolInstaller = yield* ToolInstaller;
+			const libc = yield* detectLibc;
+			if (libc === "musl") {
+				yield* Effect.log(`Detected musl libc, installing the musl build of ${descriptor.name}`);
+			}
+			const variant = descriptor.resolveVariant
+				? yield* descriptor.resolveVariant(process.platform, process.arch)
+				: "default";
+
 			const options = yield* Effect.try({
-				try: () => descriptor.getToolInstallOptions(version, process.platform, process.arch),
+				try: () => descriptor.getToolInstallOptions(version, process.platform, process.arch, libc, variant),
 				catch: (e) => e,
 			});
 
-			// Download the archive
-			const downloadedPath = yield* toolInstaller.download(url);
+			// Reuse a tool cache hit; a failed lookup just means downloading
+			const cached: Option.Option<string> = yield* toolInstaller
+				.find(toolCacheName(descriptor.name, libc, variant), version)
+				.pipe(Effect.orElseSucceed(() => Option.none<string>()));
 
-			// Extract the archive
-			let extractedDir: string;
-			if (options.archiveType === "zip") {
-				extractedDir = yield* toolInstaller.extractZip(downloadedPath);
+			let cachedPath: string;
+			let signatureFingerprint: string | undefined;
+			if (Option.isSome(cached)) {
+				yield* Effect.log(`Found ${descriptor.name} ${version} in the tool cache, skipping download`);
+				cachedPath = cached.value;
 			} else {
-				extractedDir = yield* toolInstaller.extractTar(downloadedPath, undefined, options.tarFlags);
+				({ cachedPath, signatureFingerprint } = yield* downloadToToolCache(
+					descriptor,
+					version,
+					libc,
+					variant,
+					options,
+				));
 			}
 
-			// Cache the extracted directory
-			const cachedPath = yield* toolInstaller.cacheDir(extractedDir, descriptor.name, version);
-
 			// Determine the path to add to PATH (may include binSubPath)
 			const toolPath = options.binSubPath ? `${cachedPath}/${options.binSubPath}` : cachedPath;
 
-			// Add to PATH
-			yield* outputs.addPath(toolPath);
+			return {
+				name: descriptor.name,
+				version,
+				path: toolPath,
+				source: Option.isSome(cached) ? "tool-cache" : "download",
+				...(signatureFingerprint ? { signatureFingerprint } : {}),
+			} satisfies InstalledRuntime;
+		}).pipe(Effect.mapError(toInstallError(descriptor, version)));
 
-			// Verify the installation
-			yield* runner.exec(descriptor.verifyCommand[0], [...descriptor.verifyCommand.slice(1)]);
+	const activate: RuntimeInstaller["activate"] = activateTool(descriptor);
 
-			return { name: descriptor.name, version, path: toolPath } satisfies InstalledRuntime;
-		}).pipe(
-			Effect.catchAll((error) =>
-				Effect.fail(
+	return {
+		prepare,
+		activate,
+		install: (version) => prepare(version).pipe(Effect.flatMap(activate)),
+	};
+};
+
+/**
+ * Writes the launcher that runs a cached `<name>.js` script with `node`.
+ */
+const writeScriptLauncher = (fs: FileSystem.FileSystem, dir: string, name: string) =>
+	process.platform === "win32"
+		? fs.writeFileString(join(dir, `${name}.cmd`), `@node "%~dp0${name}.js" %*\r\n`)
+		: fs
+				.writeFileString(join(dir, name), `#!/bin/sh\nexec node "$(dirname "$0")/${name}.js" "$@"\n`)
+				.pipe(Effect.andThen(fs.chmod(join(dir, name), 0o755)));
+
+/**
+ * Factory: creates a RawBinaryInstaller from a descriptor.
+ *
+ * Like runtimes, a version already in the tool cache is used as-is; otherwise
+ * the binary is downloaded (from a mirror when configured), checked against the
+ * published checksum, cached and made executable. It is then added to PATH
+ * and its reported version verified.
+ */
+export const makeRawBinaryInstaller = (descriptor: RawBinaryDescriptor): RawBinaryInstaller => ({
+	install: (version) =>
+		Effect.gen(function* () {
+			const toolInstaller = yield* ToolInstaller;
+			const libc = yield* detectLibc;
+			const cacheName = toolCacheName(descriptor.name, libc);
+			const binPath = (dir: string) => (descriptor.binSubPath ? join(dir, descriptor.binSubPath) : dir);
+
+			const cached: Option.Option<string> = yield* toolInstaller
+				.find(cacheName, version)
+				.pipe(Effect.orElseSucceed(() => Option.none<string>()));
+			if (Option.isSome(cached)) {
+				yield* Effect.log(`Found ${descriptor.name} ${version} in the tool cache, skipping download`);
+				return {
+					name: descriptor.name,
+					version,
+					path: binPath(cached.value),
+					source: "tool-cache",
+				} satisfies InstalledRuntime;
+			}
+
+			const muslAsset = libc === "musl" ? descriptor.muslBinaries?.[process.platform]?.[process.arch] : undefined;
+			const asset = descriptor.script
+				? `${descriptor.name}.js`
+				: (muslAsset ?? descriptor.binaries[process.platform]?.[process.arch]);
+			if (!asset) {
+				return yield* Effect.fail(
 					new RuntimeInstallError({
 						runtime: descriptor.name,
 						version,
-						reason: extractErrorReason(error),
-						cause: error,
+						reason: `Unsupported platform for ${descriptor.name}: ${process.platform}-${process.arch}`,
 					}),
-				),
-			),
-		),
+				);
+			}
+			const fileName =
+				libc === "musl" && !muslAsset && descriptor.muslSuffix ? `${asset}${descriptor.muslSuffix}` : asset;
+
+			// A mirror only replaces {baseUrl}, so URL tools (e.g. a `workflowRuntime.tools`
+			// entry named like a built-in) never get one, nor its mirror-headers
+			const mirror = descriptor.urlTemplate.includes("{baseUrl}")
+				? Option.getOrUndefined(yield* resolveMirror(descriptor.name))
+				: undefined;
+			const url = expandUrlTemplate(descriptor.urlTemplate, {
+				baseUrl: mirror?.baseUrl ?? descriptor.baseUrl,
+				version,
+				binary: fileName,
+				platform: process.platform,
+				arch: process.arch,
+			});
+			const downloadedPath = yield* downloadFile(url, {
+				headers: mirror?.headers,
+				label: `${descriptor.name} ${version}`,
+			});
+
+			if (descriptor.getChecksumUrl) {
+				yield* verifyChecksum({
+					tool: descriptor.name,
+					version,
+					file: downloadedPath,
+					fileName: fileNameFromUrl(url),
+					source: {
+						url: descriptor.getChecksumUrl(version),
+						parse: descriptor.parseChecksum ?? parseShasums,
+						optional: mirror !== undefined,
+					},
+				});
+			}
+
+			const fs = yield* FileSystem.FileSystem;
+			if (descriptor.script) {
+				const cachedPath: string = yield* toolInstaller.cacheFile(downloadedPath, asset, cacheName, version);
+				yield* writeScriptLauncher(fs, cachedPath, descriptor.name);
+				return { name: descriptor.name, version, path: cachedPath, source: "download" } satisfies InstalledRuntime;
+			}
+
+			if (descriptor.archiveType) {
+				const extractedDir: string =
+					descriptor.archiveType === "zip"
+						? yield* toolInstaller.extractZip(downloadedPath)
+						: yield* toolInstaller.extractTar(
+								downloadedPath,
+								undefined,
+								descriptor.archiveType === "tar.xz" ? ["xJ"] : undefined,
+							);
+				const cachedPath: string = yield* toolInstaller.cacheDir(extractedDir, cacheName, version);
+				return {
+					name: descriptor.name,
+					version,
+					path: binPath(cachedPath),
+					source: "download",
+				} satisfies InstalledRuntime;
+			}
+
+			const executable = process.platform === "win32" ? `${descriptor.name}.exe` : descriptor.name;
+			const cachedPath: string = yield* toolInstaller.cacheFile(downloadedPath, executable, cacheName, version);
+			if (process.platform !== "win32") {
+				yield* fs.chmod(join(cachedPath, executable), 0o755);
+			}
+
+			return { name: descriptor.name, version, path: cachedPath, source: "download" } satisfies InstalledRuntime;
+		}).pipe(Effect.mapError(toInstallError(descriptor, version)), Effect.flatMap(activateTool(descriptor))),
 });
 
+/**
+ * Descriptors for each supported runtime, keyed by runtime name.
+ */
+export const runtimeDescriptors: Readonly<Record<RuntimeName, RuntimeDescriptor>> = {
+	node: nodeDescriptor,
+	bun: bunDescriptor,
+	deno: denoDescriptor,
+};
+
+/**
+ * Built-in raw binary descriptors, keyed by tool name. A `workflowRuntime.tools`
+ * entry naming one of these needs no `url`.
+ */
+export const rawBinaryDescriptors: Readonly<Record<string, RawBinaryDescriptor>> = {
+	biome: biomeDescriptor,
+};
+
+/**
+ * Raw binary descriptor for installing pnpm or Yarn without corepack
+ * (`package-manager-install: standalone`): pnpm's standalone executables, or
+ * the release bundle of the version's Yarn generation (Classic for 1.x).
+ */
+export const standaloneDescriptor = (name: "pnpm" | "yarn", version: string): RawBinaryDescriptor => {
+	if (name === "pnpm") return pnpmDescriptor;
+	return Number.parseInt(version, 10) >= 2 ? yarnBerryDescriptor : yarnClassicDescriptor;
+};
+
+/**
+ * Raw binary descriptor for a `workflowRuntime.tools` entry: the built-in
+ * descriptor of that name, or one built from the entry's URL templates.
+ * Returns undefined for an entry with neither. URL tools are verified by the
+ * first `x.y.z` version in the output of their `verifyCommand` (default
+ * `<name> --version`).
+ */
+export const toolDescriptor = (tool: ToolEntry): RawBinaryDescriptor | undefined => {
+	const { url, checksumUrl, binSubPath } = tool;
+	if (url === undefined) {
+		return rawBinaryDescriptors[tool.name];
+	}
+	// Without a binaries map, {binary} is the tool name on every platform
+	const binaries = tool.binaries ?? { [process.platform]: { [process.arch]: tool.name } };
+	const binary = binaries[process.platform]?.[process.arch] ?? tool.name;
+	const placeholders = { version: tool.version, binary, platform: process.platform, arch: process.arch };
+	return {
+		name: tool.name,
+		baseUrl: "",
+		urlTemplate: url,
+		binaries,
+		...(tool.archive ? { archiveType: tool.archive } : {}),
+		...(binSubPath ? { binSubPath: expandUrlTemplate(binSubPath, placeholders) } : {}),
+		...(checksumUrl
+			? {
+					getChecksumUrl: (version: string) => expandUrlTemplate(checksumUrl, { ...placeholders, version }),
+				}
+			: {}),
+		verifyCommand: tool.verifyCommand ?? [tool.name, "--version"],
+		parseVersionOutput: (stdout) => stdout.match(/\bv?(\d+\.\d+\.\d+[^\s,)]*)/)?.[1],
+	};
+};
+
 /**
  * Pre-built layers for each supported runtime.
  */
 export const NodeInstallerLive = Layer.succeed(RuntimeInstaller, makeRuntimeInstaller(nodeDescriptor));
 export const BunInstallerLive = Layer.succeed(RuntimeInstaller, makeRuntimeInstaller(bunDescriptor));
 export const DenoInstallerLive = Layer.succeed(RuntimeInstaller, makeRuntimeInstaller(denoDescriptor));
+export const BiomeInstallerLive = Layer.succeed(RawBinaryInstaller, makeRawBinaryInstaller(biomeDescriptor));
 
 /**
  * Returns the appropriate installer layer for the given runtime name.
@@ -1,4 +1,5 @@
 import { Schema } from "effect";
+import { validRange } from "semver";
 
 /**
  * Validates that a version string is absolute (no semver ranges).
@@ -20,6 +21,54 @@ export const AbsoluteVersion = Schema.String.pipe(
 	),
 );
 
+/**
+ * Version aliases resolved against a tool's release index rather than
+ * parsed as semver ranges. `lts/<codename>` (e.g., `lts/jod`) is also accepted.
+ */
+export const VERSION_ALIASES = ["latest", "lts/*"] as const;
+
+/**
+ * Returns true when the value is a version alias (`latest`, `lts/*`, `lts/<codename>`).
+ */
+export const isVersionAlias = (v: string): boolean =>
+	(VERSION_ALIASES as ReadonlyArray<string>).includes(v) || /^lts\/[a-z]+$/i.test(v);
+
+/**
+ * Pre-release channels a version spec may name. Each runtime supports a subset
+ * (Node.js: `nightly`, `rc`; Bun and Deno: `canary`) and resolves it to the
+ * channel's current build id, e.g. `canary` → `canary-<commit>`.
+ */
+export const RELEASE_CHANNELS = ["canary", "nightly", "rc"] as const;
+
+/**
+ * Returns true when the value names a release channel (case-insensitive).
+ */
+export const isReleaseChannel = (v: string): boolean =>
+	(RELEASE_CHANNELS as ReadonlyArray<string>).includes(v.trim().toLowerCase());
+
+/**
+ * Package manager version marker meaning "keep the version bundled with the runtime".
+ * Only produced by the fallback chain for Node projects that declare no package manager;
+ * it is never resolved or installed.
+ */
+export const BUNDLED_VERSION = "bundled";
+
+/**
+ * Validates a version specifier: an absolute version, a semver range
+ * (e.g., `^24`, `>=22 <25`, `24.x`), a version alias (`latest`, `lts/*`)
+ * or a release channel (`canary`, `nightly`, `rc`).
+ * Non-absolute specifiers are resolved to a concrete version before install.
+ */
+export const VersionSpec = Schema.String.pipe(
+	Schema.filter(
+		(v) => v.trim() !== "" && (isVersionAlias(v.trim()) || isReleaseChannel(v) || validRange(v.trim()) !== null),
+		{
+			message: () =>
+				"Must be an absolute version (e.g., '24.11.0'), a semver range (e.g., '^24'), an alias ('lts/*') or a release channel ('canary', 'nightly', 'rc')",
+		},
+	),
+);
+
 /**
  * Supported runtime names
  */
@@ -32,13 +81,42 @@ export type RuntimeName = typeof RuntimeName.Type;
 export const PackageManagerName = Schema.Literal("npm", "pnpm", "yarn", "bun", "deno");
 export type PackageManagerName = typeof PackageManagerName.Type;
 
+/**
+ * How pnpm and Yarn are installed (`package-manager-install` input):
+ * - `corepack` (default): `corepack prepare --activate`
+ * - `standalone`: downloaded directly into the tool cache, without corepack
+ */
+export const PackageManagerInstall = Schema.Literal("corepack", "standalone");
+export type PackageManagerInstall = typeof PackageManagerInstall.Type;
+
+/**
+ * Dependency install presets (`install-mode` input), translated to each
+ * package manager's flags:
+ * - `frozen`: fail instead of changing the lockfile, even when there is none yet
+ * - `offline-first`: use cached package metadata and tarballs before the registry
+ * - `production`: skip devDependencies
+ * - `no-scripts`: skip lifecycle and build scripts
+ */
+export const InstallMode = Schema.Literal("frozen", "offline-first", "production", "no-scripts");
+export type InstallMode = typeof InstallMode.Type;
+
+/**
+ * devEngines `onFail` behaviors from the npm spec.
+ * - `error` (default): a failed install fails the action
+ * - `download`: the action always downloads; a failed install fails the action
+ * - `warn`: log a warning and continue without the tool
+ * - `ignore`: continue silently without the tool
+ */
+export const OnFail = Schema.Literal("ignore", "warn", "error", "download");
+export type OnFail = typeof OnFail.Type;
+
 /**
  * A single devEngines entry (generic, for backward compat)
  */
 export const DevEngineEntry = Schema.Struct({
 	name: Schema.String,
-	version: AbsoluteVersion,
-	onFail: Schema.optional(Schema.String),
+	version: VersionSpec,
+	onFail: Schema.optional(OnFail),
 });
 export type DevEngineEntry = typeof DevEngineEntry.Type;
 
@@ -47,18 +125,30 @@ export type DevEngineEntry = typeof DevEngineEntry.Type;
  */
 export const RuntimeEntry = Schema.Struct({
 	name: RuntimeName,
-	version: AbsoluteVersion,
-	onFail: Schema.optional(Schema.String),
+	version: VersionSpec,
+	onFail: Schema.optional(OnFail),
 });
 export type RuntimeEntry = typeof RuntimeEntry.Type;
 
 /**
- * Package manager entry with validated name
+ * Corepack integrity hash from the `packageManager` field (`sha512.<hex digest>`):
+ * the digest of the file corepack downloads for the version.
+ */
+export const Integrity = Schema.String.pipe(
+	Schema.pattern(/^sha(1|224|256|384|512)\.[a-f0-9]+$/i, {
+		message: () => "Must be a corepack integrity hash (e.g., 'sha512.<hex digest>')",
+	}),
+);
+
+/**
+ * Package manager entry with validated name. `integrity` comes from the corepack
+ * `packageManager` field when it pins the same version.
  */
 export const PackageManagerEntry = Schema.Struct({
 	name: PackageManagerName,
-	version: AbsoluteVersion,
-	onFail: Schema.optional(Schema.String),
+	version: VersionSpec,
+	onFail: Schema.optional(OnFail),
+	integrity: Schema.optional(Integrity),
 });
 export type PackageManagerEntry = typeof PackageManagerEntry.Type;
 
@@ -71,6 +161,89 @@ export const DevEngines = Schema.Struct({
 });
 export type DevEngines = typeof DevEngines.Type;
 
+/**
+ * Validates a download URL template: it must be an absolute URL once its
+ * `{placeholder}`s are filled in.
+ */
+export const UrlTemplate = Schema.String.pipe(
+	Schema.filter((template) => URL.canParse(template.replace(/\{\w+\}/g, "x")), {
+		message: () => "Must be an absolute URL template (e.g., 'https://example.com/v{version}/{binary}')",
+	}),
+);
+
+/**
+ * An extra single-file tool from `workflowRuntime.tools` in package.json.
+ *
+ * Without `url`, `name` must be a built-in tool (e.g. `biome`). With it, `url`
+ * is a template for the executable's download URL (`{version}`, `{binary}`,
+ * `{platform}`, `{arch}`), `binaries` maps platform and architecture to the
+ * `{binary}` asset name, and `checksumUrl` (same placeholders) points at a
+ * `SHASUMS256.txt`-style file to verify the download against. `name` is the
+ * executable's name on PATH and in the tool cache. With `archive`, the download
+ * is extracted and `binSubPath` (same placeholders) names the directory in it
+ * holding the executable. `verifyCommand` replaces `<name> --version`.
+ */
+export const ToolEntry = Schema.Struct({
+	name: Schema.String.pipe(
+		Schema.pattern(/^[a-z0-9][a-z0-9._-]*$/i, {
+			message: () => "Must be a tool name of letters, digits, '.', '_' or '-'",
+		}),
+	),
+	version: AbsoluteVersion,
+	url: Schema.optional(UrlTemplate),
+	binaries: Schema.optional(
+		Schema.Record({ key: Schema.String, value: Schema.Record({ key: Schema.String, value: Schema.String }) }),
+	),
+	checksumUrl: Schema.optional(UrlTemplate),
+	archive: Schema.optional(Schema.Literal("tar.gz", "tar.xz", "zip")),
+	binSubPath: Schema.optional(Schema.String),
+	verifyCommand: Schema.optional(Schema.NonEmptyArray(Schema.String)),
+	onFail: Schema.optional(OnFail),
+});
+export type ToolEntry = typeof ToolEntry.Type;
+
+/**
+ * The `workflowRuntime` block of package.json: settings next to devEngines
+ * that only this action reads.
+ */
+export const WorkflowRuntimeConfig = Schema.Struct({
+	tools: Schema.optionalWith(Schema.Array(ToolEntry), { default: () => [] }),
+});
+export type WorkflowRuntimeConfig = typeof WorkflowRuntimeConfig.Type;
+
+/**
+ * A package from the `global-packages` input, pinned to an exact version
+ */
+export const GlobalPackage = Schema.Struct({
+	name: Schema.String.pipe(
+		Schema.pattern(/^(@[a-z0-9-~][a-z0-9._~-]*\/)?[a-z0-9-~][a-z0-9._~-]*$/, {
+			message: () => "Must be an npm package name (e.g., 'typescript' or '@changesets/cli')",
+		}),
+	),
+	version: AbsoluteVersion,
+});
+export type GlobalPackage = typeof GlobalPackage.Type;
+
+/**
+ * Per-project results reported in the `projects` output
+ */
+export const ProjectOutput = Schema.Struct({
+	packageManager: PackageManagerName,
+	packageManagerVersion: Schema.String,
+	runtimes: Schema.Record({ key: Schema.String, value: Schema.String }),
+	versionSources: Schema.Record({ key: Schema.String, value: Schema.String }),
+	lockfiles: Schema.Array(Schema.String),
+	biomeVersion: Schema.String,
+	turboEnabled: Schema.Boolean,
+});
+export type ProjectOutput = typeof ProjectOutput.Type;
+
+/**
+ * `projects` output: project directory → per-project results
+ */
+export const ProjectsOutput = Schema.Record({ key: Schema.String, value: ProjectOutput });
+export type ProjectsOutput = typeof ProjectsOutput.Type;
+
 /**
  * Cache state schema
  */
@@ -80,3 +253,13 @@ export const CacheStateSchema = Schema.Struct({
 	paths: Schema.optional(Schema.Array(Schema.String)),
 });
 export type CacheState = typeof CacheStateSchema.Type;
+
+/**
+ * Registry config state: the user-level files written for `registry-url` and
+ * their content before (absent when the action created the file), so the post
+ * action can put them back.
+ */
+export const RegistryStateSchema = Schema.Struct({
+	files: Schema.Array(Schema.Struct({ path: Schema.String, original: Schema.optional(Schema.String) })),
+});
+export type RegistryState = typeof RegistryStateSchema.Type;
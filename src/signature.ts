@@ -0,0 +1,138 @@
+import { HttpClient, HttpClientRequest } from "@effect/platform";
+import { Effect, Option } from "effect";
+import type { Key } from "openpgp";
+import { createMessage, readKey, readSignature, verify } from "openpgp";
+import { SignatureVerificationError } from "./errors.js";
+
+/**
+ * Release signing keys bundled with the action and pinned by fingerprint. A
+ * bundled key is only trusted when its primary key fingerprint is one of the pins.
+ */
+export interface SigningKeyring {
+	readonly fingerprints: ReadonlyArray<string>;
+	/** Armored public keys, one per block */
+	readonly armoredKeys: ReadonlyArray<string>;
+}
+
+/**
+ * Where to fetch a detached signature over a checksum document, and the keyring it must verify against.
+ * `headers` are sent with the signature request only.
+ */
+export interface SignatureSource {
+	readonly url: string;
+	readonly keyring: SigningKeyring;
+	readonly headers?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Normalizes a fingerprint or key ID to uppercase hex without spaces.
+ */
+export const normalizeFingerprint = (value: string): string => value.replace(/\s+/g, "").toUpperCase();
+
+/**
+ * Picks the pinned fingerprints that may have made a signature: those whose long
+ * key ID (last 16 hex digits) matches an issuer key ID. When none does, the signature
+ * was made by a subkey and every pin is a candidate.
+ */
+export const candidateFingerprints = (
+	fingerprints: ReadonlyArray<string>,
+	keyIDs: ReadonlyArray<string>,
+): ReadonlyArray<string> => {
+	const ids = new Set(keyIDs.map(normalizeFingerprint));
+	const matching = fingerprints.filter((fingerprint) => ids.has(normalizeFingerprint(fingerprint).slice(-16)));
+	return matching.length > 0 ? matching : fingerprints;
+};
+
+const fetchBytes = (url: string, headers: Readonly<Record<string, string>> = {}) =>
+	Effect.gen(function* () {
+		const client = (yield* HttpClient.HttpClient).pipe(HttpClient.filterStatusOk);
+		const response = yield* client.execute(HttpClientRequest.get(url).pipe(HttpClientRequest.setHeaders(headers)));
+		return new Uint8Array(yield* response.arrayBuffer);
+	});
+
+/**
+ * Reads the bundled keys and keeps those matching one of the `pins`, keyed by
+ * fingerprint. Blocks that cannot be read are skipped with a warning.
+ */
+const loadPinnedKeys = (armoredKeys: ReadonlyArray<string>, pins: ReadonlyArray<string>) =>
+	Effect.gen(function* () {
+		const pinned = new Set(pins.map(normalizeFingerprint));
+		const keys = new Map<string, Key>();
+		for (const [i, armoredKey] of armoredKeys.entries()) {
+			const key = yield* Effect.tryPromise(() => readKey({ armoredKey })).pipe(
+				Effect.tapError(() => Effect.logWarning(`Bundled release key #${i + 1} is not a valid OpenPGP key`)),
+				Effect.option,
+			);
+			if (Option.isNone(key)) continue;
+			const fingerprint = normalizeFingerprint(key.value.getFingerprint());
+			if (pinned.has(fingerprint)) keys.set(fingerprint, key.value);
+		}
+		return keys;
+	});
+
+/**
+ * Verifies a detached OpenPGP signature over `data` in-process against `keys`.
+ * Returns the fingerprint of the primary key whose (sub)key made the signature.
+ */
+export const verifyDetachedSignature = (data: Uint8Array, signature: Uint8Array, keys: ReadonlyArray<Key>) =>
+	Effect.tryPromise({
+		try: async () => {
+			const result = await verify({
+				message: await createMessage({ binary: data }),
+				signature: await readSignature({ binarySignature: signature }),
+				verificationKeys: [...keys],
+				expectSigned: true,
+				format: "binary",
+			});
+			const [{ keyID }] = result.signatures;
+			const signer = keys.find((key) => key.getKeys(keyID).length > 0);
+			return normalizeFingerprint(signer?.getFingerprint() ?? keyID.toHex());
+		},
+		catch: (cause) => cause,
+	});
+
+/**
+ * Verifies the detached signature of a checksum document against a pinned keyring.
+ * Returns the signing key's fingerprint.
+ */
+export const verifyChecksumSignature = (options: {
+	readonly tool: string;
+	readonly version: string;
+	readonly data: Uint8Array;
+	readonly source: SignatureSource;
+}): Effect.Effect<string, SignatureVerificationError, HttpClient.HttpClient> =>
+	Effect.gen(function* () {
+		const { tool, version, data, source } = options;
+		const fail = (reason: string, cause?: unknown) =>
+			Effect.fail(new SignatureVerificationError({ tool, version, reason, cause }));
+
+		const signature = yield* fetchBytes(source.url, source.headers).pipe(
+			Effect.catchAll((cause) => fail(`Failed to fetch signature from ${source.url}: ${cause.message}`, cause)),
+		);
+		const keyIDs = yield* Effect.tryPromise(() => readSignature({ binarySignature: signature })).pipe(
+			Effect.map((parsed) => parsed.getSigningKeyIDs().map((keyID) => keyID.toHex())),
+			Effect.catchAll((cause) => fail(`Malformed signature at ${source.url}`, cause)),
+		);
+
+		// Bundled keys that do not match a candidate pin are left out of the keyring
+		const candidates = candidateFingerprints(source.keyring.fingerprints, keyIDs);
+		const loaded = yield* loadPinnedKeys(source.keyring.armoredKeys, candidates);
+		for (const pin of candidates) {
+			if (!loaded.has(normalizeFingerprint(pin))) {
+				yield* Effect.logWarning(`No bundled release key for pinned fingerprint ${normalizeFingerprint(pin)}`);
+			}
+		}
+		const keys = Array.from(loaded.values());
+
+		const fingerprint = yield* verifyDetachedSignature(data, signature, keys).pipe(
+			Effect.catchAll((cause) =>
+				fail(
+					`Signature at ${source.url} was not made by a pinned release key (issuer ${keyIDs.join(", ").toUpperCase() || "unknown"})`,
+					cause,
+				),
+			),
+		);
+
+		yield* Effect.log(`Verified signature of ${source.url.split("/").pop()} by key ${fingerprint}`);
+		return fingerprint;
+	});
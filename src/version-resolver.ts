@@ -0,0 +1,286 @@
+import { HttpClient, HttpClientRequest } from "@effect/platform";
+import { Config, Effect, Option, Schema } from "effect";
+import { maxSatisfying, prerelease, rcompare, valid } from "semver";
+import { VersionResolutionError } from "./errors.js";
+import type { ReleaseChannel, ReleaseInfo } from "./runtime-installer.js";
+import { extractErrorReason, runtimeDescriptors } from "./runtime-installer.js";
+import type { PackageManagerEntry, RuntimeEntry, RuntimeName } from "./schemas.js";
+import { AbsoluteVersion, BUNDLED_VERSION, isReleaseChannel } from "./schemas.js";
+
+/**
+ * Where to fetch a tool's releases from and how to read them.
+ * Multiple URLs are merged (e.g., Yarn Classic and Berry live in separate packages).
+ */
+export interface ReleaseIndex {
+	readonly urls: ReadonlyArray<string>;
+	readonly parse: (body: unknown) => ReadonlyArray<ReleaseInfo>;
+}
+
+/**
+ * npm registry base URL used to resolve npm, pnpm and yarn versions.
+ */
+export const NPM_REGISTRY_URL = "https://registry.npmjs.org";
+
+/**
+ * Registry packages that publish each Node.js package manager.
+ * Yarn Classic (1.x) is published as `yarn`, Berry (2.x+) as `@yarnpkg/cli-dist`.
+ */
+const packageManagerPackages: Record<"npm" | "pnpm" | "yarn", ReadonlyArray<string>> = {
+	npm: ["npm"],
+	pnpm: ["pnpm"],
+	yarn: ["yarn", "@yarnpkg/cli-dist"],
+};
+
+/**
+ * Returns true when the version spec is already an exact version.
+ */
+export const isExactVersion = Schema.is(AbsoluteVersion);
+
+/**
+ * Reads the version list out of an npm registry packument.
+ */
+export const parsePackument = (body: unknown): Array<ReleaseInfo> => {
+	const versions = (body as { versions?: unknown } | null)?.versions;
+	if (!versions || typeof versions !== "object") return [];
+	return Object.keys(versions).map((version) => ({ version }));
+};
+
+/**
+ * Highest version of the list, if any.
+ */
+const highest = (versions: ReadonlyArray<string>): Option.Option<string> =>
+	Option.fromNullable([...versions].sort(rcompare)[0]);
+
+/**
+ * Picks the concrete version a spec resolves to from a list of releases.
+ *
+ * - `latest` → highest stable release
+ * - `lts/*` → highest release with an LTS codename
+ * - `lts/<codename>` → highest release of that LTS line (case-insensitive)
+ * - anything else → highest release satisfying the semver range
+ */
+export const pickVersion = (spec: string, releases: ReadonlyArray<ReleaseInfo>): Option.Option<string> => {
+	const trimmed = spec.trim();
+	const alias = trimmed.toLowerCase();
+	const known = releases.filter((r) => valid(r.version) !== null);
+	const stable = known.filter((r) => prerelease(r.version) === null);
+
+	if (alias === "latest") {
+		return highest(stable.map((r) => r.version));
+	}
+	if (alias === "lts/*") {
+		return highest(stable.filter((r) => r.lts !== undefined).map((r) => r.version));
+	}
+	if (alias.startsWith("lts/")) {
+		const codename = alias.slice("lts/".length);
+		return highest(stable.filter((r) => r.lts?.toLowerCase() === codename).map((r) => r.version));
+	}
+
+	return Option.fromNullable(
+		maxSatisfying(
+			known.map((r) => r.version),
+			trimmed,
+		),
+	);
+};
+
+/**
+ * Fetches a document. Requests to the GitHub API are authenticated with
+ * the `github-token` input when set, to avoid the unauthenticated rate limit.
+ */
+const fetchDocument = (url: string) =>
+	Effect.gen(function* () {
+		const client = (yield* HttpClient.HttpClient).pipe(HttpClient.filterStatusOk);
+		const token = yield* Config.string("github-token").pipe(Config.withDefault(""));
+
+		let request = HttpClientRequest.get(url).pipe(HttpClientRequest.acceptJson);
+		if (token !== "" && new URL(url).hostname === "api.github.com") {
+			request = request.pipe(HttpClientRequest.bearerToken(token));
+		}
+
+		return yield* client.execute(request);
+	});
+
+const fetchText = (url: string) => Effect.flatMap(fetchDocument(url), (response) => response.text);
+
+/**
+ * Upper bound on release index pages fetched per URL (100 releases each on GitHub).
+ */
+const MAX_RELEASE_PAGES = 20;
+
+/**
+ * The `rel="next"` URL of a `Link` header, as sent by paginated GitHub API lists.
+ */
+export const nextPageUrl = (link: string | undefined): string | undefined =>
+	link?.match(/<([^>]+)>\s*;\s*rel="next"/)?.[1];
+
+/**
+ * Fetches a release index URL, following `Link: rel="next"` pages until the
+ * spec is satisfied. GitHub lists releases newest first, so older release
+ * lines (e.g. Deno `^1`) are only found on later pages.
+ */
+const fetchReleases = (url: string, spec: string, index: ReleaseIndex) =>
+	Effect.gen(function* () {
+		const releases: ReleaseInfo[] = [];
+		let next: string | undefined = url;
+		for (let page = 0; next !== undefined && page < MAX_RELEASE_PAGES; page++) {
+			const response = yield* fetchDocument(next);
+			releases.push(...index.parse(yield* response.json));
+			if (Option.isSome(pickVersion(spec, releases))) break;
+			next = nextPageUrl(response.headers.link);
+		}
+		return releases;
+	});
+
+/**
+ * Resolves a version spec against a release index. Exact versions are
+ * returned as-is without touching the network.
+ */
+export const resolveVersion = (tool: string, spec: string, index: ReleaseIndex) =>
+	Effect.gen(function* () {
+		if (isExactVersion(spec)) {
+			return spec;
+		}
+
+		const releases = yield* Effect.forEach(index.urls, (url) => fetchReleases(url, spec, index)).pipe(
+			Effect.map((lists) => lists.flat()),
+			Effect.mapError(
+				(cause) =>
+					new VersionResolutionError({
+						tool,
+						spec,
+						reason: `Failed to fetch ${tool} release index: ${extractErrorReason(cause)}`,
+						cause,
+					}),
+			),
+		);
+
+		const resolved = pickVersion(spec, releases);
+		if (Option.isNone(resolved)) {
+			return yield* Effect.fail(
+				new VersionResolutionError({
+					tool,
+					spec,
+					reason: `No ${tool} release satisfies "${spec}" (${releases.length} releases checked)`,
+				}),
+			);
+		}
+
+		yield* Effect.log(`Resolved ${tool}@${spec} → ${resolved.value}`);
+		return resolved.value;
+	});
+
+/**
+ * Resolves a release channel (e.g. `canary`) to the build id it currently
+ * points at, e.g. `canary-<commit>` for Bun and Deno or the newest nightly
+ * version for Node.js.
+ */
+export const resolveChannel = (tool: string, spec: string, channel: ReleaseChannel) =>
+	Effect.gen(function* () {
+		const body = yield* fetchText(channel.url).pipe(
+			Effect.mapError(
+				(cause) =>
+					new VersionResolutionError({
+						tool,
+						spec,
+						reason: `Failed to fetch ${tool} ${spec} channel: ${extractErrorReason(cause)}`,
+						cause,
+					}),
+			),
+		);
+
+		const resolved = channel.parse(body);
+		if (resolved === undefined) {
+			return yield* Effect.fail(
+				new VersionResolutionError({
+					tool,
+					spec,
+					reason: `Could not read the current ${tool} ${spec} build from ${channel.url}`,
+				}),
+			);
+		}
+
+		yield* Effect.log(`Resolved ${tool}@${spec} → ${resolved}`);
+		return resolved;
+	});
+
+/**
+ * Resolves a version spec, going through the tool's release channels when the
+ * spec names one. Channels the tool does not publish fail with the list of
+ * those it does.
+ */
+const resolveSpec = (
+	tool: string,
+	spec: string,
+	index: ReleaseIndex,
+	channels: Readonly<Record<string, ReleaseChannel>> = {},
+) => {
+	const channelName = spec.trim().toLowerCase();
+	if (!isReleaseChannel(channelName)) {
+		return resolveVersion(tool, spec, index);
+	}
+
+	const channel = channels[channelName];
+	if (!channel) {
+		const available = Object.keys(channels);
+		return Effect.fail(
+			new VersionResolutionError({
+				tool,
+				spec,
+				reason: `${tool} has no ${channelName} channel${available.length > 0 ? `; available: ${available.join(", ")}` : ""}`,
+			}),
+		);
+	}
+	return resolveChannel(tool, channelName, channel);
+};
+
+/**
+ * Release index for a runtime, taken from its descriptor.
+ */
+export const runtimeReleaseIndex = (name: RuntimeName): ReleaseIndex => {
+	const descriptor = runtimeDescriptors[name];
+	/* v8 ignore next 3 -- all built-in descriptors provide a release index */
+	if (!descriptor.getReleaseIndexUrl || !descriptor.parseReleaseIndex) {
+		return { urls: [], parse: () => [] };
+	}
+	return { urls: [descriptor.getReleaseIndexUrl()], parse: descriptor.parseReleaseIndex };
+};
+
+/**
+ * Release index for a package manager. bun and deno share their runtime's
+ * release list; npm, pnpm and yarn are resolved from the npm registry.
+ */
+export const packageManagerReleaseIndex = (name: PackageManagerEntry["name"]): ReleaseIndex => {
+	if (name === "bun" || name === "deno") {
+		return runtimeReleaseIndex(name);
+	}
+	return {
+		urls: packageManagerPackages[name].map((pkg) => `${NPM_REGISTRY_URL}/${pkg.replace("/", "%2F")}`),
+		parse: parsePackument,
+	};
+};
+
+/**
+ * Resolves a runtime entry's version spec to a concrete version, or to the
+ * current build id when it names a release channel.
+ */
+export const resolveRuntimeEntry = (entry: RuntimeEntry) =>
+	resolveSpec(entry.name, entry.version, runtimeReleaseIndex(entry.name), runtimeDescriptors[entry.name].channels).pipe(
+		Effect.map((version): RuntimeEntry => ({ ...entry, version })),
+	);
+
+/**
+ * Resolves a package manager entry's version spec to a concrete version.
+ * The {@link BUNDLED_VERSION} marker is passed through unchanged.
+ */
+export const resolvePackageManagerEntry = (
+	entry: PackageManagerEntry,
+): Effect.Effect<PackageManagerEntry, VersionResolutionError, HttpClient.HttpClient> =>
+	entry.version === BUNDLED_VERSION
+		? Effect.succeed(entry)
+		: resolveSpec(
+				entry.name,
+				entry.version,
+				packageManagerReleaseIndex(entry.name),
+				entry.name === "bun" || entry.name === "deno" ? runtimeDescriptors[entry.name].channels : undefined,
+			).pipe(Effect.map((version): PackageManagerEntry => ({ ...entry, version })));
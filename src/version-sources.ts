@@ -0,0 +1,311 @@
+import { join } from "node:path";
+import { FileSystem } from "@effect/platform";
+import { Effect, Option, Schema } from "effect";
+import { ConfigError } from "./errors.js";
+import type { PackageManagerEntry, PackageManagerName, RuntimeEntry, RuntimeName } from "./schemas.js";
+import { BUNDLED_VERSION, PackageManagerName as PackageManagerNameSchema, VersionSpec } from "./schemas.js";
+
+/**
+ * Tools a fallback version source can declare.
+ */
+export type ToolName = RuntimeName | PackageManagerName;
+
+/**
+ * A version together with the source it was read from (e.g., `.nvmrc`).
+ */
+export interface SourcedVersion {
+	readonly version: string;
+	readonly source: string;
+}
+
+/**
+ * Versions found across all fallback sources, keyed by tool.
+ */
+export type DetectedVersions = Partial<Record<ToolName, SourcedVersion>>;
+
+/**
+ * devEngines-equivalent configuration built from fallback sources,
+ * plus the source each tool's version came from.
+ */
+export interface FallbackDevEngines {
+	readonly runtime: ReadonlyArray<RuntimeEntry>;
+	readonly packageManager: PackageManagerEntry;
+	readonly sources: Readonly<Record<string, string>>;
+}
+
+/**
+ * Subset of package.json consulted by the fallback chain.
+ */
+export interface PackageJsonFields {
+	readonly packageManager?: unknown;
+	readonly engines?: unknown;
+}
+
+const RUNTIME_ORDER: ReadonlyArray<RuntimeName> = ["node", "bun", "deno"];
+const PACKAGE_MANAGER_ORDER: ReadonlyArray<PackageManagerName> = ["npm", "pnpm", "yarn", "bun", "deno"];
+
+/**
+ * Sources read from package.json itself rather than a separate file.
+ */
+const PACKAGE_JSON_SOURCES = new Set(["packageManager", "engines.node"]);
+
+/**
+ * Tool names used by asdf (`.tool-versions`) and mise (`mise.toml`), mapped to ours.
+ */
+const TOOL_ALIASES: Readonly<Record<string, ToolName>> = {
+	node: "node",
+	nodejs: "node",
+	bun: "bun",
+	deno: "deno",
+	npm: "npm",
+	pnpm: "pnpm",
+	yarn: "yarn",
+};
+
+/**
+ * Normalizes a version as written in version files to a devEngines version spec.
+ * Strips a leading `v` and maps nvm's `node` / `stable` aliases to `latest`.
+ */
+export const normalizeVersion = (raw: string): string => {
+	const trimmed = raw.trim();
+	const lower = trimmed.toLowerCase();
+	if (lower === "node" || lower === "stable" || lower === "latest") return "latest";
+	if (lower === "lts") return "lts/*";
+	return trimmed.replace(/^v(?=\d)/, "");
+};
+
+/**
+ * Parses a corepack `packageManager` field (`pnpm@10.20.0+sha512.abc…`).
+ * The integrity suffix is split off into `integrity`.
+ */
+export const parseCorepackSpec = (
+	spec: string,
+): Option.Option<{ readonly name: PackageManagerName; readonly version: string; readonly integrity?: string }> => {
+	const match = spec.trim().match(/^([^@\s]+)@([^+\s]+)(?:\+(\S+))?$/);
+	if (!match || !Schema.is(PackageManagerNameSchema)(match[1])) return Option.none();
+	return Option.some({
+		name: match[1],
+		version: match[2],
+		...(match[3] ? { integrity: match[3] } : {}),
+	});
+};
+
+/**
+ * Reads a single-version file (`.nvmrc`, `.node-version`, `.bun-version`, `.dvmrc`):
+ * the first non-empty line that is not a `#` comment.
+ */
+export const parseVersionFile = (content: string): Option.Option<string> =>
+	Option.fromNullable(
+		content
+			.split("\n")
+			.map((line) => line.replace(/#.*$/, "").trim())
+			.find((line) => line.length > 0),
+	);
+
+/**
+ * Parses an asdf `.tool-versions` file. When a line lists several versions,
+ * the first one is used.
+ */
+export const parseToolVersions = (content: string): Partial<Record<ToolName, string>> => {
+	const tools: Partial<Record<ToolName, string>> = {};
+	for (const line of content.split("\n")) {
+		const [tool, version] = line.replace(/#.*$/, "").trim().split(/\s+/);
+		const name = tool ? TOOL_ALIASES[tool] : undefined;
+		if (name && version && tools[name] === undefined) {
+			tools[name] = version;
+		}
+	}
+	return tools;
+};
+
+/**
+ * Parses the `[tools]` table of a `mise.toml` file. Supports string values,
+ * arrays (first entry wins) and inline tables with a `version` key.
+ */
+export const parseMiseToml = (content: string): Partial<Record<ToolName, string>> => {
+	const tools: Partial<Record<ToolName, string>> = {};
+	let inTools = false;
+	for (const line of content.split("\n")) {
+		const trimmed = line.trim();
+		if (trimmed.startsWith("[")) {
+			inTools = trimmed === "[tools]";
+			continue;
+		}
+		if (!inTools) continue;
+
+		const entry = trimmed.match(/^["']?([\w.-]+)["']?\s*=\s*(.+)$/);
+		const name = entry ? TOOL_ALIASES[entry[1]] : undefined;
+		if (!entry || !name) continue;
+
+		const value = entry[2];
+		const version = value.startsWith("{")
+			? value.match(/version\s*=\s*["']([^"']+)["']/)?.[1]
+			: value.match(/["']([^"']+)["']/)?.[1];
+		if (version && tools[name] === undefined) {
+			tools[name] = version;
+		}
+	}
+	return tools;
+};
+
+/**
+ * A fallback version source: a name used in logs/outputs and a reader
+ * returning the tool versions it declares (empty when absent).
+ */
+interface VersionSource {
+	readonly name: string;
+	readonly read: (
+		packageJson: PackageJsonFields,
+		workingDirectory: string,
+	) => Effect.Effect<Partial<Record<ToolName, string>>, never, FileSystem.FileSystem>;
+}
+
+const readOptionalFile = (path: string) =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		return yield* fs.readFileString(path, "utf-8").pipe(
+			Effect.map(Option.some),
+			Effect.orElse(() => Effect.succeed(Option.none<string>())),
+		);
+	});
+
+const versionFileSource = (file: string, tool: ToolName): VersionSource => ({
+	name: file,
+	read: (_, workingDirectory) =>
+		readOptionalFile(join(workingDirectory, file)).pipe(
+			Effect.map((content) =>
+				Option.flatMap(content, parseVersionFile).pipe(
+					Option.match({ onNone: () => ({}), onSome: (version) => ({ [tool]: version }) }),
+				),
+			),
+		),
+});
+
+const multiToolFileSource = (
+	file: string,
+	parse: (content: string) => Partial<Record<ToolName, string>>,
+): VersionSource => ({
+	name: file,
+	read: (_, workingDirectory) =>
+		readOptionalFile(join(workingDirectory, file)).pipe(
+			Effect.map(Option.match({ onNone: () => ({}), onSome: parse })),
+		),
+});
+
+/**
+ * Fallback sources in precedence order. For each tool, the first source
+ * declaring it wins.
+ */
+export const VERSION_SOURCES: ReadonlyArray<VersionSource> = [
+	{
+		name: "packageManager",
+		read: (pkg) =>
+			Effect.succeed(
+				typeof pkg.packageManager === "string"
+					? Option.match(parseCorepackSpec(pkg.packageManager), {
+							onNone: () => ({}),
+							onSome: (pm) => ({ [pm.name]: pm.version }),
+						})
+					: {},
+			),
+	},
+	{
+		name: "engines.node",
+		read: (pkg) => {
+			const node = (pkg.engines as { node?: unknown } | null | undefined)?.node;
+			return Effect.succeed(typeof node === "string" ? { node } : {});
+		},
+	},
+	versionFileSource(".nvmrc", "node"),
+	versionFileSource(".node-version", "node"),
+	multiToolFileSource(".tool-versions", parseToolVersions),
+	versionFileSource(".bun-version", "bun"),
+	versionFileSource(".dvmrc", "deno"),
+	multiToolFileSource("mise.toml", parseMiseToml),
+];
+
+const sourceRank = (source: string): number => VERSION_SOURCES.findIndex((s) => s.name === source);
+
+/**
+ * Walks the fallback sources in precedence order, keeping the first
+ * version found for each tool.
+ */
+export const detectVersions = (packageJson: PackageJsonFields, workingDirectory = ".") =>
+	Effect.gen(function* () {
+		const detected: { [K in ToolName]?: SourcedVersion } = {};
+		for (const source of VERSION_SOURCES) {
+			const tools = yield* source.read(packageJson, workingDirectory);
+			for (const [tool, version] of Object.entries(tools) as Array<[ToolName, string]>) {
+				if (detected[tool] === undefined) {
+					detected[tool] = { version: normalizeVersion(version), source: source.name };
+				}
+			}
+		}
+		return detected as DetectedVersions;
+	});
+
+/**
+ * Builds devEngines-equivalent entries from detected versions.
+ *
+ * - A `bun` / `deno` package manager implies the matching runtime.
+ * - Without a declared package manager, Node projects use the npm bundled
+ *   with Node, and Bun/Deno projects use the runtime itself.
+ */
+export const toDevEngines = (
+	detected: DetectedVersions,
+	workingDirectory = ".",
+): Effect.Effect<FallbackDevEngines, ConfigError> =>
+	Effect.gen(function* () {
+		const sources: Record<string, string> = {};
+
+		const validate = (tool: ToolName, entry: SourcedVersion) =>
+			Schema.is(VersionSpec)(entry.version)
+				? Effect.succeed(entry.version)
+				: Effect.fail(
+						new ConfigError({
+							reason: `Invalid ${tool} version "${entry.version}" in ${entry.source}`,
+							file: join(workingDirectory, PACKAGE_JSON_SOURCES.has(entry.source) ? "package.json" : entry.source),
+						}),
+					);
+
+		// Bun and Deno only count as the package manager when declared in the packageManager field;
+		// otherwise .bun-version / .dvmrc would turn every multi-runtime project into a Bun/Deno one.
+		const declaredPm = PACKAGE_MANAGER_ORDER.flatMap((name) => {
+			const entry = detected[name];
+			const isPackageManager =
+				entry && (name === "npm" || name === "pnpm" || name === "yarn" || entry.source === "packageManager");
+			return isPackageManager ? [{ name, entry }] : [];
+		}).sort((a, b) => sourceRank(a.entry.source) - sourceRank(b.entry.source))[0];
+
+		const runtime: Array<RuntimeEntry> = [];
+		for (const name of RUNTIME_ORDER) {
+			const entry = detected[name];
+			if (entry) {
+				runtime.push({ name, version: yield* validate(name, entry) });
+				sources[name] = entry.source;
+			}
+		}
+
+		if (runtime.length === 0) {
+			return yield* Effect.fail(
+				new ConfigError({
+					reason: `No runtime version found. Add devEngines.runtime to package.json or declare a version in one of: ${VERSION_SOURCES.map((s) => s.name).join(", ")}`,
+					file: join(workingDirectory, "package.json"),
+				}),
+			);
+		}
+
+		let packageManager: PackageManagerEntry;
+		const [first] = runtime;
+		if (declaredPm) {
+			packageManager = { name: declaredPm.name, version: yield* validate(declaredPm.name, declaredPm.entry) };
+			sources[declaredPm.name] = declaredPm.entry.source;
+		} else if (first.name === "node") {
+			packageManager = { name: "npm", version: BUNDLED_VERSION };
+			sources.npm = "bundled";
+		} else {
+			packageManager = { name: first.name, version: first.version };
+		}
+
+		return { runtime, packageManager, sources };
+	});
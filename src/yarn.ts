@@ -0,0 +1,55 @@
+import { join } from "node:path";
+import { FileSystem } from "@effect/platform";
+import { Effect, Option } from "effect";
+
+/**
+ * Yarn generation: `classic` is Yarn 1.x, `berry` is Yarn 2 and later. They
+ * share the `yarn` command but differ in install flags, config and layout.
+ */
+export type YarnFlavor = "classic" | "berry";
+
+/**
+ * A Yarn project's generation and `nodeLinker` (`pnp`, `node-modules` or `pnpm`;
+ * always `node-modules` for Classic).
+ */
+export interface YarnProject {
+	readonly flavor: YarnFlavor;
+	readonly nodeLinker: string;
+}
+
+/**
+ * Reads the top-level `nodeLinker` setting from `.yarnrc.yml`.
+ */
+export const parseNodeLinker = (yarnrc: string): string | undefined =>
+	yarnrc.match(/^nodeLinker:\s*["']?([\w-]+)["']?\s*(?:#.*)?$/m)?.[1];
+
+/**
+ * Detects a Yarn project's flavor from the declared version, or from the
+ * presence of `.yarnrc.yml` (Berry's config file) when the version has no
+ * major number, and its `nodeLinker` from `.yarnrc.yml` (Berry defaults to `pnp`).
+ */
+export const detectYarnProject = (version: string, directory = ".") =>
+	Effect.gen(function* () {
+		const fs = yield* FileSystem.FileSystem;
+		const yarnrc = yield* fs.readFileString(join(directory, ".yarnrc.yml")).pipe(Effect.option);
+
+		const major = Number.parseInt(version, 10);
+		const flavor: YarnFlavor = Number.isNaN(major)
+			? Option.isSome(yarnrc)
+				? "berry"
+				: "classic"
+			: major >= 2
+				? "berry"
+				: "classic";
+
+		if (flavor === "classic") {
+			if (Option.isSome(yarnrc)) {
+				yield* Effect.logWarning(
+					`${join(directory, ".yarnrc.yml")} is ignored by Yarn ${version} (Classic); declare Yarn 2+ to use it`,
+				);
+			}
+			return { flavor, nodeLinker: "node-modules" } satisfies YarnProject;
+		}
+		const nodeLinker = Option.flatMap(yarnrc, (content) => Option.fromNullable(parseNodeLinker(content)));
+		return { flavor, nodeLinker: Option.getOrElse(nodeLinker, () => "pnp") } satisfies YarnProject;
+	});